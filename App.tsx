@@ -1,10 +1,9 @@
-import React, { useState, Suspense, useRef, useEffect } from 'react';
+import React, { useState, Suspense, useRef, useEffect, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { PerspectiveCamera, useProgress, Environment } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
-import { createClient } from '@supabase/supabase-js'; 
+import { PerspectiveCamera, useProgress, PerformanceMonitor } from '@react-three/drei';
+import { EffectComposer, Vignette } from '@react-three/postprocessing';
 
-import { TreeState } from './types';
+import { TreePhoto, TreeState } from './types';
 import { LuxuryTree } from './components/LuxuryTree';
 import { GoldDust } from './components/GoldDust';
 import { GoldenSpirals } from './components/GoldenSpirals';
@@ -14,14 +13,25 @@ import { BackgroundHeader } from './components/BackgroundHeader';
 import { HandController } from './components/HandController';
 import { CameraRig } from './components/CameraRig';
 import { GroundRipples } from './components/GroundRipples';
-
-// --- 初始化 Supabase ---
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-const supabase = createClient(supabaseUrl, supabaseKey);
+import { MusicReactiveBloom } from './components/MusicReactiveBloom';
+import { getGiftRepository } from './services/giftBackend';
+import { DEFAULT_SCENE_LOOK, GiftManifest, GiftSceneLook, MAX_MANIFEST_CLIPS, createLayoutSeed, parseGiftManifest } from './services/giftManifest';
+import { readEditLinkParams } from './services/giftLinks';
+import { GiftEditor } from './components/GiftEditor';
+import { SealedGiftOverlay } from './components/SealedGiftOverlay';
+import { PassphrasePrompt } from './components/PassphrasePrompt';
+import { VoiceMessageButton } from './components/VoiceMessageButton';
+import { describeRejectedMedia, normalizeMediaFiles } from './utils/imageNormalize';
+import type { PhotoCrop } from './utils/photoCrop';
+import { getMediaKind } from './utils/videoClip';
+import { getQualityFpsBounds, settleAutoQuality, stepAutoQuality, useQuality } from './utils/quality';
+import { ThemeLights } from './components/ThemeLights';
+import { SceneEnvironment } from './components/SceneEnvironment';
+import { getOccasion } from './utils/occasions';
+import { Formation, TREE_FORMATION, createCountdownScript, getNextFormation, playFormationScript } from './utils/formations';
 
 // --- Intro Loader 组件 (开场动画) ---
-const IntroLoader = ({ onComplete }: { onComplete: () => void }) => {
+const IntroLoader = ({ title, onComplete }: { title: string; onComplete: () => void }) => {
   const [progress, setProgress] = useState(0);
   const [isFading, setIsFading] = useState(false);
 
@@ -52,7 +62,7 @@ const IntroLoader = ({ onComplete }: { onComplete: () => void }) => {
     <div className={`fixed inset-0 z-[9999] bg-black flex flex-col items-center justify-center transition-opacity duration-1000 ease-in-out ${isFading ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
         <div className="flex flex-col items-center gap-8 w-full max-w-md px-8">
             <h1 className="text-4xl md:text-6xl text-[#FFD700] tracking-widest text-center leading-tight" style={{ fontFamily: '"Playfair Display", serif', fontStyle: 'italic', textShadow: '0 0 20px rgba(255, 215, 0, 0.3)' }}>
-                Christmas Tree
+                {title}
             </h1>
             
             <div className="w-full max-w-[240px] h-[1px] bg-[#333333] relative overflow-visible mt-2">
@@ -68,77 +78,172 @@ const IntroLoader = ({ onComplete }: { onComplete: () => void }) => {
   );
 };
 
+// 倒计时归零后服务端仍未开启时 (时钟误差) 的重试间隔
+const SEALED_RETRY_DELAY_MS = 5000;
+
 const App: React.FC = () => {
   // --- 状态管理 ---
   const [treeState, setTreeState] = useState<TreeState>(TreeState.CHAOS);
   const [zoomFactor, setZoomFactor] = useState(0.5); 
-  const [userTextureUrls, setUserTextureUrls] = useState<string[]>([]);
+  const quality = useQuality();
+  const [userPhotos, setUserPhotos] = useState<TreePhoto[]>([]);
+  const [giftManifest, setGiftManifest] = useState<GiftManifest | null>(null);
   const [isPhotoFocused, setIsPhotoFocused] = useState(false);
   const [isLoadingGift, setIsLoadingGift] = useState(false);
+  const [sealedUntil, setSealedUntil] = useState<string | null>(null);
+  // 口令保护的礼赠：输入口令后才有解密密钥
+  const [photoKey, setPhotoKey] = useState<CryptoKey | null>(null);
   const [showIntro, setShowIntro] = useState(true);
   
   // [新增] 礼赠模式状态：如果为 true，隐藏所有编辑/分享控件
   const [isGiftMode, setIsGiftMode] = useState(false);
   
-  const handRotationVelocity = useRef(0);
+  // 寄件人通过私有编辑链接打开时进入编辑模式
+  const [editParams] = useState(readEditLinkParams);
+
+  // 本地预览的外观 (布局种子、照片挂法、树的轮廓)：生成礼赠时保存进 manifest，收礼人看到同样的树
+  const [previewLook, setPreviewLook] = useState<GiftSceneLook>(() => ({ ...DEFAULT_SCENE_LOOK, layoutSeed: createLayoutSeed() }));
+  const { layoutSeed, photoPlacement, theme, environment, topper, treeShape, occasion: occasionId } = giftManifest?.scene ?? previewLook;
+  const occasion = getOccasion(occasionId);
 
-  // --- 核心：直接使用 Supabase 加载礼赠 ---
+  // 成形时拼出的造型；倒计时之类的脚本按步骤切换，手动选造型时停下
+  const [formation, setFormation] = useState<Formation>(TREE_FORMATION);
+  const stopFormationScript = useRef<(() => void) | null>(null);
+  const formationText = giftManifest?.recipientName || occasion.formationText;
+
+  // 换了节日 (或者打开的礼赠是别的节日) 时换成这个节日的造型
   useEffect(() => {
-    const fetchGift = async () => {
-        // 1. 获取 URL 参数
-        const params = new URLSearchParams(window.location.search);
-        const giftId = params.get('id');
-
-        if (!giftId) return;
-
-        // [新增] 检测到 ID，开启礼赠模式
-        setIsGiftMode(true);
-        setIsLoadingGift(true);
-        console.log("Detect Gift ID:", giftId);
-
-        try {
-            // 2. 直接查询 Supabase
-            const { data, error } = await supabase
-                .from('gifts')
-                .select('photo_urls')
-                .eq('custom_id', giftId)
-                .single();
-
-            if (error) {
-                console.error("Supabase error:", error);
-                throw error; 
-            }
+    stopFormationScript.current?.();
+    stopFormationScript.current = null;
+    setFormation(occasion.formation);
+  }, [occasion]);
 
-            if (data && data.photo_urls && Array.isArray(data.photo_urls)) {
-                console.log("Gift loaded successfully:", data.photo_urls.length, "photos");
-                setUserTextureUrls(data.photo_urls);
-                setTreeState(TreeState.FORMED); // 强制树成型
-            } else {
-                console.warn("Gift found but no photos attached");
+  const handRotationVelocity = useRef(0);
+
+  // 编辑器草稿实时预览到场景里
+  const handleEditorPreview = useCallback((manifest: GiftManifest) => {
+    setGiftManifest(manifest);
+    setUserPhotos(manifest.photos);
+    setTreeState(TreeState.FORMED);
+  }, []);
+
+  // --- 核心：通过礼赠存储后端加载礼赠 ---
+  const loadGift = useCallback(async (giftId: string) => {
+    setIsLoadingGift(true);
+
+    try {
+        // 2. 查询礼赠存储后端 (Supabase 或本地实现)
+        const gift = await getGiftRepository().loadGift(giftId);
+        if (!gift) {
+            console.warn("Gift not found");
+            return;
+        }
+
+        // 3. 校验 manifest (旧礼赠只有 photo_urls，会被自动升级)
+        const manifest = parseGiftManifest(gift.manifest, gift);
+        setGiftManifest(manifest);
+
+        // 4. 定时开启：服务端不会返回照片，树保持散开并显示倒计时
+        if (gift.sealed && gift.unlockAt) {
+            setSealedUntil(gift.unlockAt);
+            setTreeState(TreeState.CHAOS);
+            // 本机时钟比服务器快时，倒计时已归零但服务端还未开启，稍后重试
+            if (new Date(gift.unlockAt).getTime() <= Date.now()) {
+                setTimeout(() => loadGift(giftId), SEALED_RETRY_DELAY_MS);
             }
-        } catch (err) {
-            console.error("Failed to load gift:", err);
-        } finally {
-            setIsLoadingGift(false);
+            return;
         }
-    };
+        setSealedUntil(null);
+
+        if (manifest.photos.length > 0) {
+            setUserPhotos(manifest.photos);
+            // 加密的礼赠等输入口令后再成型
+            if (!manifest.encryption) setTreeState(TreeState.FORMED); // 强制树成型
+        } else {
+            console.warn("Gift found but no photos attached");
+        }
+    } catch (err) {
+        console.error("Failed to load gift:", err);
+    } finally {
+        setIsLoadingGift(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // 1. 获取 URL 参数
+    const params = new URLSearchParams(window.location.search);
+    const giftId = params.get('id');
 
-    fetchGift();
+    if (!giftId) return;
+
+    // [新增] 检测到 ID，开启礼赠模式
+    setIsGiftMode(true);
+    loadGift(giftId);
+  }, [loadGift]);
+
+  // 倒计时归零：重新向后端请求，拿到照片后树自动成型
+  const handleUnlock = useCallback(() => {
+    const giftId = new URLSearchParams(window.location.search).get('id');
+    if (giftId) loadGift(giftId);
+  }, [loadGift]);
+
+  const handlePassphraseUnlock = useCallback((key: CryptoKey) => {
+    setPhotoKey(key);
+    setTreeState(TreeState.FORMED);
   }, []);
 
+  // 没有密钥时不把密文链接交给纹理加载器
+  const needsPassphrase = !!giftManifest?.encryption && !photoKey && !sealedUntil;
+  const treePhotos = giftManifest?.encryption && !photoKey ? [] : userPhotos;
+
   // 手势控制状态变化
   const handleStateChangeFromHand = (newState: TreeState) => {
-    if (isPhotoFocused) return;
+    if (isPhotoFocused || sealedUntil) return;
     setTreeState(newState);
   };
 
-  // 本地上传处理
-  const handleUpload = (files: FileList) => {
-    const urls: string[] = [];
-    Array.from(files).forEach(file => {
-      urls.push(URL.createObjectURL(file));
+  const showFormation = (next: Formation) => {
+    stopFormationScript.current?.();
+    stopFormationScript.current = null;
+    setFormation(next);
+    setTreeState(TreeState.FORMED);
+  };
+
+  const handleFormationCycle = () => {
+    if (isPhotoFocused || sealedUntil) return;
+    showFormation(getNextFormation(formation, formationText));
+  };
+
+  // 新年倒计时：12 月里数到新的一年，其余时候写今年
+  const handleCountdown = () => {
+    if (sealedUntil) return;
+    stopFormationScript.current?.();
+    const now = new Date();
+    const year = now.getMonth() === 11 ? now.getFullYear() + 1 : now.getFullYear();
+    stopFormationScript.current = playFormationScript(createCountdownScript(10, year), (next) => {
+      setFormation(next);
+      setTreeState(TreeState.FORMED);
+    });
+  };
+
+  useEffect(() => () => stopFormationScript.current?.(), []);
+
+  // 本地上传处理 (先转码 HEIC、摆正 EXIF 方向、视频录成短片，纹理加载器才能正确显示)
+  const handleUpload = async (files: FileList) => {
+    const clipCount = userPhotos.filter(photo => photo.kind === 'video').length;
+    const result = await normalizeMediaFiles(Array.from(files), { maxClips: MAX_MANIFEST_CLIPS - clipCount });
+    const notice = describeRejectedMedia(result, MAX_MANIFEST_CLIPS);
+    if (notice) alert(notice);
+    const photos: TreePhoto[] = [];
+    result.files.forEach(file => {
+      photos.push({ url: URL.createObjectURL(file), kind: getMediaKind(file) });
     });
-    setUserTextureUrls(prev => [...prev, ...urls]);
+    setUserPhotos(prev => [...prev, ...photos]);
+  };
+
+  // 本地预览时调整某张照片的构图，只换裁剪框，LuxuryTree 不会重新加载纹理
+  const handleCropChange = (index: number, crop: PhotoCrop) => {
+    setUserPhotos(prev => prev.map((photo, i) => (i === index ? { ...photo, crop } : photo)));
   };
 
   const handleGenerate = () => {
@@ -151,10 +256,10 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen bg-black overflow-hidden touch-none">
       
       {/* 1. 开场动画 */}
-      {showIntro && <IntroLoader onComplete={() => setShowIntro(false)} />}
+      {showIntro && <IntroLoader title={occasion.loaderTitle} onComplete={() => setShowIntro(false)} />}
 
       {/* 2. 背景文字 */}
-      <BackgroundHeader />
+      <BackgroundHeader manifest={giftManifest} title={occasion.headerTitle} />
 
       {/* 3. 礼赠加载提示 */}
       {isLoadingGift && (
@@ -166,7 +271,7 @@ const App: React.FC = () => {
       {/* 4. 3D 场景 */}
       <div className="absolute inset-0 z-10">
           <Canvas 
-            dpr={[1, 1.5]} 
+            dpr={quality.dpr} 
             gl={{ 
               antialias: true, 
               toneMappingExposure: 1.2, 
@@ -174,62 +279,117 @@ const App: React.FC = () => {
               powerPreference: "high-performance",
             }}
           >
+            {/* 按实测帧率自动升降画质档位 (手动固定档位时不生效) */}
+            <PerformanceMonitor
+              bounds={getQualityFpsBounds}
+              flipflops={3}
+              onDecline={() => stepAutoQuality(-1)}
+              onIncline={() => stepAutoQuality(1)}
+              onFallback={settleAutoQuality}
+            />
+
             <fog attach="fog" args={['#000000', 30, 90]} />
 
             <PerspectiveCamera makeDefault position={[0, 4, 25]} fov={45} />
             <CameraRig zoomFactor={zoomFactor} />
 
-            <hemisphereLight intensity={0.5} color="#ffffff" groundColor="#222222" />
-            <ambientLight intensity={0.2} />
+            <ThemeLights theme={theme} />
             
-            <spotLight 
-                position={[20, 40, 20]} 
-                angle={0.4} 
-                penumbra={1} 
-                intensity={150} 
-                color="#fff5d7" 
-                castShadow 
-            />
-            
-            <Suspense fallback={null}>
-                <Environment
-                  files="https://walabox-assets.oss-cn-beijing.aliyuncs.com/potsdamer_platz_1k.hdr"
-                  background={false}
-                />
-            </Suspense>
+            <SceneEnvironment choice={environment} theme={theme} />
 
-            <AmbientParticles />
-            <GoldDust treeState={treeState} />
-            <GoldenSpirals treeState={treeState} />
+            <AmbientParticles particleFraction={quality.particleFraction} effect={occasion.ambient} theme={theme} layoutSeed={layoutSeed} />
+            <GoldDust treeState={treeState} formation={formation} theme={theme} treeShape={treeShape} layoutSeed={layoutSeed} />
+            <GoldenSpirals treeState={treeState} formation={formation} theme={theme} treeShape={treeShape} layoutSeed={layoutSeed} />
             
             <Suspense fallback={null}>
-                <GroundRipples treeState={treeState} />
+                <GroundRipples treeState={treeState} theme={theme} layoutSeed={layoutSeed} particleFraction={quality.particleFraction} />
                 <LuxuryTree 
                   treeState={treeState} 
                   extraRotationVelocity={handRotationVelocity}
-                  userTextureUrls={userTextureUrls}
+                  photos={treePhotos}
+                  photoKey={photoKey}
                   isPhotoFocused={isPhotoFocused}
                   zoomFactor={zoomFactor}
+                  photoPlacement={photoPlacement}
+                  formation={formation}
+                  theme={theme}
+                  treeShape={treeShape}
+                  topper={topper}
+                  ornamentTypes={occasion.ornaments}
+                  layoutSeed={layoutSeed}
+                  particleFraction={quality.particleFraction}
+                  ornamentSegments={quality.ornamentSegments}
                 />
             </Suspense>
 
-            <EffectComposer enableNormalPass={false} multisampling={4}>
-                <Bloom 
-                    luminanceThreshold={1.0} 
-                    mipmapBlur 
-                    intensity={1.2} 
-                    radius={0.4}
-                />
+            <EffectComposer enableNormalPass={false} multisampling={quality.multisampling}>
+                {/* EffectComposer 的 children 只接受元素，低档关掉辉光时放一个空 fragment */}
+                {quality.bloom ? (
+                  <MusicReactiveBloom 
+                      luminanceThreshold={1.0} 
+                      intensity={1.2} 
+                      radius={0.4}
+                  />
+                ) : <></>}
                 <Vignette eskil={false} offset={0.1} darkness={0.8} />
             </EffectComposer>
           </Canvas>
       </div>
 
-      {/* 5. UI 覆盖层 */}
+      {/* 5. 定时开启的礼赠：时间未到时显示倒计时 */}
+      {sealedUntil && (
+        <SealedGiftOverlay
+          unlockAt={sealedUntil}
+          recipientName={giftManifest?.recipientName}
+          onUnlock={handleUnlock}
+        />
+      )}
+
+      {/* 6. 口令保护的礼赠：输入口令后在本地解密照片 */}
+      {needsPassphrase && giftManifest?.encryption && (
+        <PassphrasePrompt
+          encryption={giftManifest.encryption}
+          recipientName={giftManifest.recipientName}
+          onUnlock={handlePassphraseUnlock}
+        />
+      )}
+
+      {/* 7. 语音留言：树成形后才出现 */}
+      {giftManifest?.voiceNote && treeState === TreeState.FORMED && !sealedUntil && !needsPassphrase && (
+        <VoiceMessageButton
+          voiceNote={giftManifest.voiceNote}
+          photoKey={photoKey}
+          senderName={giftManifest.senderName}
+        />
+      )}
+
+      {/* 8. 编辑已发布的礼赠 */}
+      {editParams && (
+        <GiftEditor
+          customId={editParams.customId}
+          ownerToken={editParams.ownerToken}
+          onPreviewChange={handleEditorPreview}
+        />
+      )}
+
+      {/* 9. UI 覆盖层 */}
       <Overlay 
         onUpload={handleUpload}
         onGenerate={handleGenerate}
-        isGiftMode={isGiftMode} // [新增] 将模式状态传给 Overlay
+        photos={userPhotos}
+        onCropChange={handleCropChange}
+        isGiftMode={isGiftMode || !!editParams} // [新增] 将模式状态传给 Overlay
+        musicTracks={giftManifest?.scene.music}
+        musicEncrypted={!!giftManifest?.encryption}
+        photoKey={photoKey}
+        preferBundledMusic={!isGiftMode}
+        autoPlayMusic={isGiftMode}
+        sceneLook={previewLook}
+        onSceneLookChange={setPreviewLook}
+        formation={formation}
+        formationText={formationText}
+        onFormationChange={showFormation}
+        onCountdown={handleCountdown}
       >
         <HandController 
           onStateChange={handleStateChangeFromHand}
@@ -244,6 +404,7 @@ const App: React.FC = () => {
             }
           }}
           onPhotoFocusChange={setIsPhotoFocused}
+          onFormationCycle={handleFormationCycle}
         />
       </Overlay>
     </div>
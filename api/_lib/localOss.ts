@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import {
+  MultipartCompleteResponse,
+  MultipartPartsResponse,
+  MultipartRequest,
+  MultipartSession,
+  SIGNED_URL_TTL_SECONDS,
+  SignPolicyError,
+  SignResponseBody,
+  buildObjectName,
+  isGiftObjectName,
+  parseMultipartRequest,
+  parseSignRequest,
+} from './ossPolicy';
+
+// 本地开发替身：在 vite dev server 上模拟 /api/sign-oss 与 OSS 的 PUT/GET，
+// 文件直接写到磁盘 (默认 .local-oss/)，无需网络和阿里云密钥即可走通完整上传流程。
+
+const LOCAL_PREFIX = '/__local-oss/';
+
+const CONTENT_TYPE_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.weba': 'audio/webm',
+  '.ogg': 'audio/ogg',
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const etagOf = (data: Buffer) => `"${crypto.createHash('md5').update(data).digest('hex').toUpperCase()}"`;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// 读写磁盘失败时返回 500，不让请求挂着、也不留下未处理的 rejection
+const sendStorageError = (res: ServerResponse, err: unknown) => {
+  console.error('[local-oss]', err);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  sendJson(res, 500, { error: 'storage_failed', message: 'storage_failed' });
+};
+
+export const localOssPlugin = (options: { dir?: string } = {}): Plugin => {
+  const rootDir = path.resolve(options.dir || '.local-oss');
+
+  // 未合并的分片放在 .multipart/<uploadId>/<partNumber>，不在 gifts/ 之下，不会被 GET 访问到
+  const multipartDir = path.join(rootDir, '.multipart');
+
+  const resolveObjectPath = (objectName: string) => {
+    if (!isGiftObjectName(objectName)) return null;
+    const filePath = path.resolve(rootDir, objectName);
+    return filePath.startsWith(rootDir + path.sep) ? filePath : null;
+  };
+
+  const handleMultipart = async (request: MultipartRequest) => {
+    switch (request.action) {
+      case 'multipart-init': {
+        const objectName = buildObjectName(request.customId, 0, request.contentType);
+        const uploadId = crypto.randomBytes(12).toString('hex');
+        await fs.promises.mkdir(path.join(multipartDir, uploadId), { recursive: true });
+        const body: MultipartSession = { objectName, uploadId, publicUrl: LOCAL_PREFIX + objectName, contentType: request.contentType };
+        return body;
+      }
+      case 'multipart-parts': {
+        const body: MultipartPartsResponse = {
+          expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+          parts: request.partNumbers.map(partNumber => ({
+            partNumber,
+            uploadUrl: `${LOCAL_PREFIX}${request.objectName}?uploadId=${request.uploadId}&partNumber=${partNumber}`,
+            headers: { 'Content-Type': request.contentType },
+          })),
+        };
+        return body;
+      }
+      case 'multipart-complete': {
+        const filePath = resolveObjectPath(request.objectName);
+        const partDir = path.join(multipartDir, request.uploadId);
+        if (!filePath || !fs.existsSync(partDir)) throw new SignPolicyError('validation_failed', 'validation_failed: unknown upload');
+        const ordered = [...request.parts].sort((a, b) => a.partNumber - b.partNumber);
+        const chunks = await Promise.all(ordered.map(part => fs.promises.readFile(path.join(partDir, String(part.partNumber)))));
+        // 与 OSS 一致：ETag 对不上就拒绝合并
+        chunks.forEach((chunk, i) => {
+          if (etagOf(chunk) !== ordered[i].etag) throw new SignPolicyError('validation_failed', `validation_failed: part ${ordered[i].partNumber}`);
+        });
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, Buffer.concat(chunks));
+        await fs.promises.rm(partDir, { recursive: true, force: true });
+        const body: MultipartCompleteResponse = { publicUrl: LOCAL_PREFIX + request.objectName };
+        return body;
+      }
+    }
+  };
+
+  return {
+    name: 'local-oss',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const [url, query = ''] = (req.url || '').split('?');
+
+        if (url === '/api/sign-oss' && req.method === 'POST') {
+          try {
+            const rawBody = (await readBody(req)).toString('utf8');
+            const multipart = parseMultipartRequest(rawBody);
+            if (multipart) return sendJson(res, 200, await handleMultipart(multipart));
+
+            const { customId, files } = parseSignRequest(rawBody);
+            const body: SignResponseBody = {
+              expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+              uploads: files.map((file, i) => {
+                const objectName = buildObjectName(customId, i, file.contentType);
+                return {
+                  objectName,
+                  uploadUrl: LOCAL_PREFIX + objectName,
+                  publicUrl: LOCAL_PREFIX + objectName,
+                  headers: { 'Content-Type': file.contentType },
+                };
+              }),
+            };
+            return sendJson(res, 200, body);
+          } catch (err: any) {
+            if (err instanceof SignPolicyError) return sendJson(res, 400, { error: err.code, message: err.message });
+            return sendJson(res, 500, { error: 'sign_failed', message: 'sign_failed' });
+          }
+        }
+
+        if (!url.startsWith(LOCAL_PREFIX)) return next();
+
+        const filePath = resolveObjectPath(decodeURIComponent(url.slice(LOCAL_PREFIX.length)));
+        if (!filePath) return sendJson(res, 403, { error: 'forbidden' });
+
+        try {
+          const params = new URLSearchParams(query);
+          const uploadId = params.get('uploadId');
+          if (req.method === 'PUT' && uploadId) {
+            const partNumber = Number(params.get('partNumber'));
+            const partDir = path.join(multipartDir, uploadId);
+            if (!/^[a-f0-9]+$/.test(uploadId) || !Number.isInteger(partNumber) || !fs.existsSync(partDir)) {
+              return sendJson(res, 404, { error: 'no_such_upload' });
+            }
+            const data = await readBody(req);
+            await fs.promises.writeFile(path.join(partDir, String(partNumber)), data);
+            res.statusCode = 200;
+            res.setHeader('ETag', etagOf(data));
+            return res.end();
+          }
+
+          if (req.method === 'PUT') {
+            const data = await readBody(req);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, data);
+            res.statusCode = 200;
+            return res.end();
+          }
+
+          if (req.method === 'GET' || req.method === 'HEAD') {
+            if (!fs.existsSync(filePath)) return sendJson(res, 404, { error: 'not_found' });
+            res.statusCode = 200;
+            res.setHeader('Content-Type', CONTENT_TYPE_BY_EXTENSION[path.extname(filePath)] || 'application/octet-stream');
+            if (req.method === 'HEAD') return res.end();
+            return fs.createReadStream(filePath).on('error', err => sendStorageError(res, err)).pipe(res);
+          }
+        } catch (err) {
+          return sendStorageError(res, err);
+        }
+
+        return next();
+      });
+    },
+  };
+};
@@ -0,0 +1,200 @@
+// 上传签名的共享规则：Vercel 函数 (api/sign-oss.ts) 与本地开发替身 (api/_lib/localOss.ts) 共用，
+// 保证两边对 ID、文件数量、文件类型、对象路径的校验完全一致。
+
+export const GIFT_ID_PATTERN = /^[a-zA-Z0-9-_]+$/;
+export const MAX_FILES_PER_REQUEST = 15;
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+// 大文件分片上传：每个请求最多签多少片、一个对象最多多少片
+export const MAX_PARTS_PER_REQUEST = 20;
+export const MAX_MULTIPART_PARTS = 200;
+const UPLOAD_ID_PATTERN = /^[a-zA-Z0-9._-]+$/;
+
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  // 短视频 / 动图录成的短片
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  // 语音留言 / 寄件人上传的背景音乐
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/webm': 'weba',
+  'audio/ogg': 'ogg',
+  // 口令保护的礼赠：浏览器里加密后的照片密文
+  'application/octet-stream': 'bin',
+};
+
+export interface SignFileRequest {
+  contentType: string;
+}
+
+export interface SignRequestBody {
+  customId: string;
+  files: SignFileRequest[];
+}
+
+export interface SignedUpload {
+  objectName: string;
+  uploadUrl: string;
+  publicUrl: string;
+  headers: Record<string, string>;
+}
+
+export interface SignResponseBody {
+  expiresAt: number;
+  uploads: SignedUpload[];
+}
+
+// 错误码沿用前端 getFriendlyErrorMessage 能识别的关键词
+export class SignPolicyError extends Error {
+  constructor(public code: 'bad_request' | 'validation_failed' | 'too_many_files' | 'unsupported_type', message: string) {
+    super(message);
+    this.name = 'SignPolicyError';
+  }
+}
+
+// 坏 JSON、null、数组都按 400 拒掉，不要落到 500 sign_failed
+const parseBody = (body: unknown): Record<string, unknown> => {
+  let input = body ?? {};
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input || '{}');
+    } catch {
+      throw new SignPolicyError('bad_request', 'bad_request: invalid JSON');
+    }
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new SignPolicyError('bad_request', 'bad_request: body must be an object');
+  }
+  return input as Record<string, unknown>;
+};
+
+const parseCustomId = (value: unknown): string => {
+  const customId = typeof value === 'string' ? value.trim() : '';
+  if (!customId || !GIFT_ID_PATTERN.test(customId)) {
+    throw new SignPolicyError('validation_failed', 'validation_failed: customId');
+  }
+  return customId;
+};
+
+const parseContentType = (value: unknown): string => {
+  const contentType = typeof value === 'string' ? value : '';
+  if (!EXTENSION_BY_CONTENT_TYPE[contentType]) {
+    throw new SignPolicyError('unsupported_type', `unsupported content type: ${contentType}`);
+  }
+  return contentType;
+};
+
+export const parseSignRequest = (body: unknown): SignRequestBody => {
+  const input = parseBody(body) as Partial<SignRequestBody>;
+  const customId = parseCustomId(input.customId);
+  const files = Array.isArray(input.files) ? input.files : [];
+  if (files.length === 0 || files.length > MAX_FILES_PER_REQUEST) {
+    throw new SignPolicyError('too_many_files', `expected 1-${MAX_FILES_PER_REQUEST} files`);
+  }
+  return {
+    customId,
+    files: files.map(f => ({ contentType: parseContentType(f?.contentType) })),
+  };
+};
+
+// ---------------- 分片上传 (大文件 / 弱网断点续传) ----------------
+// 同一个 /api/sign-oss 入口，用 action 区分：初始化 -> 逐片签名 -> 合并
+
+export interface MultipartPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface MultipartSession {
+  objectName: string;
+  uploadId: string;
+  publicUrl: string;
+  contentType: string;
+}
+
+export interface SignedPart {
+  partNumber: number;
+  uploadUrl: string;
+  headers: Record<string, string>;
+}
+
+export interface MultipartPartsResponse {
+  expiresAt: number;
+  parts: SignedPart[];
+}
+
+export interface MultipartCompleteResponse {
+  publicUrl: string;
+}
+
+export type MultipartRequest =
+  | { action: 'multipart-init'; customId: string; contentType: string }
+  | { action: 'multipart-parts'; customId: string; objectName: string; uploadId: string; contentType: string; partNumbers: number[] }
+  | { action: 'multipart-complete'; customId: string; objectName: string; uploadId: string; parts: MultipartPart[] };
+
+const isPartNumber = (n: unknown): n is number =>
+  Number.isInteger(n) && (n as number) >= 1 && (n as number) <= MAX_MULTIPART_PARTS;
+
+const parseMultipartTarget = (input: any, customId: string) => {
+  const objectName = typeof input.objectName === 'string' ? input.objectName : '';
+  const uploadId = typeof input.uploadId === 'string' ? input.uploadId : '';
+  // 只能续传 gifts/<customId>/ 下的对象
+  if (!isGiftObjectName(objectName) || !objectName.startsWith(`gifts/${customId}/`) || !UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new SignPolicyError('validation_failed', 'validation_failed: multipart target');
+  }
+  return { objectName, uploadId };
+};
+
+/** 不带 action (或 action 为 put) 的请求返回 null，按普通 PUT 签名处理 */
+export const parseMultipartRequest = (body: unknown): MultipartRequest | null => {
+  const input = parseBody(body);
+  if (!input.action || input.action === 'put') return null;
+  const customId = parseCustomId(input.customId);
+
+  switch (input.action) {
+    case 'multipart-init':
+      return { action: 'multipart-init', customId, contentType: parseContentType(input.contentType) };
+    case 'multipart-parts': {
+      const partNumbers = Array.isArray(input.partNumbers) ? input.partNumbers : [];
+      if (partNumbers.length === 0 || partNumbers.length > MAX_PARTS_PER_REQUEST || !partNumbers.every(isPartNumber)) {
+        throw new SignPolicyError('too_many_files', `expected 1-${MAX_PARTS_PER_REQUEST} part numbers`);
+      }
+      return {
+        action: 'multipart-parts',
+        customId,
+        ...parseMultipartTarget(input, customId),
+        contentType: parseContentType(input.contentType),
+        partNumbers,
+      };
+    }
+    case 'multipart-complete': {
+      const parts = Array.isArray(input.parts) ? input.parts : [];
+      if (parts.length === 0 || parts.length > MAX_MULTIPART_PARTS
+        || !parts.every((p: any) => isPartNumber(p?.partNumber) && typeof p?.etag === 'string' && p.etag.length > 0)) {
+        throw new SignPolicyError('validation_failed', 'validation_failed: parts');
+      }
+      return {
+        action: 'multipart-complete',
+        customId,
+        ...parseMultipartTarget(input, customId),
+        parts: parts.map((p: any) => ({ partNumber: p.partNumber, etag: p.etag })),
+      };
+    }
+    default:
+      throw new SignPolicyError('validation_failed', `validation_failed: unknown action ${input.action}`);
+  }
+};
+
+// 对象路径由服务端决定，客户端只能写入 gifts/<customId>/ 之下
+export const buildObjectName = (customId: string, index: number, contentType: string): string => {
+  const nonce = Math.random().toString(36).slice(2, 8);
+  return `gifts/${customId}/${Date.now()}-${index}-${nonce}.${EXTENSION_BY_CONTENT_TYPE[contentType]}`;
+};
+
+export const isGiftObjectName = (objectName: string): boolean => {
+  const [root, customId, file, ...rest] = objectName.split('/');
+  return root === 'gifts' && GIFT_ID_PATTERN.test(customId || '') && !!file && rest.length === 0
+    && /^[a-zA-Z0-9._-]+$/.test(file) && !file.startsWith('.');
+};
@@ -0,0 +1,120 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import OSS from 'ali-oss';
+import {
+  MultipartCompleteResponse,
+  MultipartPartsResponse,
+  MultipartRequest,
+  MultipartSession,
+  SIGNED_URL_TTL_SECONDS,
+  SignPolicyError,
+  SignResponseBody,
+  buildObjectName,
+  parseMultipartRequest,
+  parseSignRequest,
+} from './_lib/ossPolicy';
+
+// 阿里云密钥只存在于服务端环境变量 (不带 VITE_ 前缀，不会被打包进前端)
+const createOssClient = () => {
+  const { ALI_REGION, ALI_KEY_ID, ALI_KEY_SECRET, ALI_BUCKET } = process.env;
+  if (!ALI_KEY_ID || !ALI_KEY_SECRET || !ALI_BUCKET) {
+    throw new Error('OSS credentials are not configured');
+  }
+  return new OSS({
+    region: ALI_REGION || 'oss-cn-beijing',
+    accessKeyId: ALI_KEY_ID,
+    accessKeySecret: ALI_KEY_SECRET,
+    bucket: ALI_BUCKET,
+    secure: true,
+  });
+};
+
+const toHttps = (url: string) => (url.startsWith('http://') ? url.replace('http://', 'https://') : url);
+
+const toPublicUrl = (client: OSS, objectName: string) => {
+  const publicBase = process.env.ALI_PUBLIC_BASE_URL;
+  return publicBase ? `${publicBase.replace(/\/$/, '')}/${objectName}` : toHttps(client.generateObjectUrl(objectName));
+};
+
+// 分片上传：初始化拿 uploadId，逐片签 PUT，最后由服务端合并
+// (浏览器读取分片的 ETag 需要 Bucket 的 CORS 暴露 ETag 头)
+const handleMultipart = async (client: OSS, request: MultipartRequest) => {
+  switch (request.action) {
+    case 'multipart-init': {
+      const objectName = buildObjectName(request.customId, 0, request.contentType);
+      const { uploadId } = await client.initMultipartUpload(objectName, { mime: request.contentType });
+      const body: MultipartSession = { objectName, uploadId, publicUrl: toPublicUrl(client, objectName), contentType: request.contentType };
+      return body;
+    }
+    case 'multipart-parts': {
+      const body: MultipartPartsResponse = {
+        expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+        parts: request.partNumbers.map(partNumber => ({
+          partNumber,
+          uploadUrl: toHttps(client.signatureUrl(request.objectName, {
+            method: 'PUT',
+            expires: SIGNED_URL_TTL_SECONDS,
+            'Content-Type': request.contentType,
+            subResource: { partNumber, uploadId: request.uploadId },
+          })),
+          headers: { 'Content-Type': request.contentType },
+        })),
+      };
+      return body;
+    }
+    case 'multipart-complete': {
+      await client.completeMultipartUpload(
+        request.objectName,
+        request.uploadId,
+        request.parts.map(part => ({ number: part.partNumber, etag: part.etag })),
+      );
+      const body: MultipartCompleteResponse = { publicUrl: toPublicUrl(client, request.objectName) };
+      return body;
+    }
+  }
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'method_not_allowed' });
+  }
+
+  try {
+    const multipart = parseMultipartRequest(req.body);
+    if (multipart) {
+      const body = await handleMultipart(createOssClient(), multipart);
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json(body);
+    }
+
+    const { customId, files } = parseSignRequest(req.body);
+    const client = createOssClient();
+
+    const body: SignResponseBody = {
+      expiresAt: Date.now() + SIGNED_URL_TTL_SECONDS * 1000,
+      uploads: files.map((file, i) => {
+        const objectName = buildObjectName(customId, i, file.contentType);
+        const uploadUrl = client.signatureUrl(objectName, {
+          method: 'PUT',
+          expires: SIGNED_URL_TTL_SECONDS,
+          'Content-Type': file.contentType,
+        });
+        return {
+          objectName,
+          uploadUrl: toHttps(uploadUrl),
+          publicUrl: toPublicUrl(client, objectName),
+          headers: { 'Content-Type': file.contentType },
+        };
+      }),
+    };
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(body);
+  } catch (err: any) {
+    if (err instanceof SignPolicyError) {
+      return res.status(400).json({ error: err.code, message: err.message });
+    }
+    console.error('[sign-oss]', err);
+    return res.status(500).json({ error: 'sign_failed', message: 'sign_failed' });
+  }
+}
@@ -2,8 +2,13 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { LAYOUT_STREAMS, createSeededRandom } from '../utils/math';
+import { useDrawFraction } from '../utils/quality';
+import type { AmbientEffect } from '../utils/occasions';
+import { DEFAULT_SCENE_THEME_ID, SceneThemeId, ThemeColors, useThemeColors } from '../utils/themes';
 
-const GoldParticles = () => {
+// color 是主题里正在渐变的颜色对象，直接挂在 uniform 上
+const GoldParticles = ({ color }: { color: THREE.Color }) => {
   const pointsRef = useRef<THREE.Points>(null);
   const count = 2500; 
 
@@ -29,8 +34,8 @@ const GoldParticles = () => {
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uColor: { value: new THREE.Color("#FFD700") } 
-  }), []);
+    uColor: { value: color }
+  }), [color]);
 
   useFrame((state) => {
     if (pointsRef.current && pointsRef.current.material) {
@@ -90,8 +95,29 @@ const GoldParticles = () => {
   );
 };
 
-const SnowParticles = () => {
-    const pointsRef = useRef<THREE.Points>(null);
+// 飘落类的特效 (雪、花瓣、彩纸屑) 共用一套粒子，只换下落速度、大小、形状、颜色和密度，
+// 切换节日时不重建缓冲区
+type FallingEffect = Exclude<AmbientEffect, 'fireworks'>;
+
+interface FallingStyle {
+  fallSpeed: number;
+  size: number;
+  /** 左右飘动的幅度 */
+  sway: number;
+  /** 0 圆点，1 花瓣，2 彩纸 */
+  shape: number;
+  /** 实际绘制的比例：花瓣和彩纸大得多，画一小部分就够了 */
+  density: number;
+  colors: (colors: ThemeColors) => [THREE.Color, THREE.Color, THREE.Color];
+}
+
+const FALLING_STYLES: Record<FallingEffect, FallingStyle> = {
+  snow: { fallSpeed: 1.5, size: 1, sway: 1, shape: 0, density: 1, colors: c => [c.snow, c.snow, c.snow] },
+  petals: { fallSpeed: 0.8, size: 2.2, sway: 2.5, shape: 1, density: 0.12, colors: c => [c.ornaments.blush, c.ornaments.primary, c.ornaments.light] },
+  confetti: { fallSpeed: 1.2, size: 1.6, sway: 1.5, shape: 2, density: 0.2, colors: c => [c.ornaments.metal, c.ornaments.frost, c.ornaments.glow] },
+};
+
+const FallingParticles = ({ drawFraction, effect, colors }: { drawFraction: number; effect: FallingEffect; colors: ThemeColors }) => {
     // Reduced count by 50% from 240,000 to 120,000
     const count = 120000; 
   
@@ -115,21 +141,32 @@ const SnowParticles = () => {
       return { positions, scales, offsets };
     }, []);
   
+    const style = FALLING_STYLES[effect];
     const uniforms = useMemo(() => ({
       uTime: { value: 0 },
-      uColor: { value: new THREE.Color("#FFFFFF") } 
-    }), []);
+      uFallSpeed: { value: 1.5 },
+      uSize: { value: 1 },
+      uSway: { value: 1 },
+      uShape: { value: 0 },
+      uColorA: { value: colors.snow },
+      uColorB: { value: colors.snow },
+      uColorC: { value: colors.snow },
+    }), [colors]);
+
+    const geometryRef = useDrawFraction(count, drawFraction * style.density);
   
     useFrame((state) => {
-      if (pointsRef.current && pointsRef.current.material) {
-          // @ts-ignore
-          pointsRef.current.material.uniforms.uTime.value = state.clock.elapsedTime;
-      }
+      uniforms.uTime.value = state.clock.elapsedTime;
+      uniforms.uFallSpeed.value = style.fallSpeed;
+      uniforms.uSize.value = style.size;
+      uniforms.uSway.value = style.sway;
+      uniforms.uShape.value = style.shape;
+      [uniforms.uColorA.value, uniforms.uColorB.value, uniforms.uColorC.value] = style.colors(colors);
     });
   
     return (
-      <points ref={pointsRef}>
-        <bufferGeometry>
+      <points>
+        <bufferGeometry ref={geometryRef}>
           <bufferAttribute attach="attributes-position" count={count} array={positions} itemSize={3} />
           <bufferAttribute attach="attributes-aScale" count={count} array={scales} itemSize={1} />
           <bufferAttribute attach="attributes-aTimeOffset" count={count} array={offsets} itemSize={1} />
@@ -141,38 +178,67 @@ const SnowParticles = () => {
           uniforms={uniforms}
           vertexShader={`
             uniform float uTime;
+            uniform float uFallSpeed;
+            uniform float uSize;
+            uniform float uSway;
             attribute float aScale;
             attribute float aTimeOffset;
             varying float vAlpha;
+            varying float vTint;
+            varying float vSpin;
             
             void main() {
               vec3 pos = position;
-              // Falling snow looping effect - speed reduced by 50% from 3.0 to 1.5
-              float fallSpeed = 1.5;
+              // Falling looping effect - snow speed reduced by 50% from 3.0 to 1.5
               float volumeHeight = 60.0;
-              pos.y -= mod(uTime * fallSpeed + aTimeOffset * 10.0, volumeHeight);
+              pos.y -= mod(uTime * uFallSpeed + aTimeOffset * 10.0, volumeHeight);
               if (pos.y < -volumeHeight / 2.0) pos.y += volumeHeight;
 
               // Horizontal drift
-              pos.x += sin(uTime * 0.2 + aTimeOffset) * 1.5;
-              pos.z += cos(uTime * 0.15 + aTimeOffset) * 1.5;
+              pos.x += sin(uTime * 0.2 + aTimeOffset) * 1.5 * uSway;
+              pos.z += cos(uTime * 0.15 + aTimeOffset) * 1.5 * uSway;
 
               vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
               gl_Position = projectionMatrix * mvPosition;
               // Gl_PointSize increased by an additional 1.5x from (2.4*aScale + 0.8) to (3.6*aScale + 1.2)
-              gl_PointSize = (3.6 * aScale + 1.2) * (20.0 / -mvPosition.z);
+              gl_PointSize = (3.6 * aScale + 1.2) * uSize * (20.0 / -mvPosition.z);
               vAlpha = (0.2 + 0.5 * aScale);
+              // Which of the three colors, and how fast petals / confetti tumble
+              vTint = fract(aTimeOffset * 7.31);
+              vSpin = uTime * (0.5 + aScale) + aTimeOffset;
             }
           `}
           fragmentShader={`
-            uniform vec3 uColor;
+            uniform vec3 uColorA;
+            uniform vec3 uColorB;
+            uniform vec3 uColorC;
+            uniform float uShape;
             varying float vAlpha;
+            varying float vTint;
+            varying float vSpin;
             void main() {
-              vec2 center = vec2(0.5, 0.5);
-              float dist = distance(gl_PointCoord, center);
-              if (dist > 0.5) discard;
-              float glow = 1.0 - (dist * 2.0);
-              gl_FragColor = vec4(uColor, vAlpha * glow);
+              vec3 color = vTint < 0.34 ? uColorA : (vTint < 0.67 ? uColorB : uColorC);
+              vec2 p = gl_PointCoord - vec2(0.5);
+              if (uShape < 0.5) {
+                float dist = length(p);
+                if (dist > 0.5) discard;
+                float glow = 1.0 - (dist * 2.0);
+                gl_FragColor = vec4(color, vAlpha * glow);
+                return;
+              }
+              // Petals and confetti spin around their centre
+              float c = cos(vSpin);
+              float s = sin(vSpin);
+              p = vec2(c * p.x - s * p.y, s * p.x + c * p.y);
+              if (uShape < 1.5) {
+                float dist = length(vec2(p.x * 2.2, p.y * 1.2));
+                if (dist > 0.5) discard;
+                gl_FragColor = vec4(color, vAlpha * (1.0 - dist * 1.4));
+              } else {
+                if (abs(p.x) > 0.35 || abs(p.y) > 0.15) discard;
+                // Flat paper catching the light as it flips
+                gl_FragColor = vec4(color, vAlpha * (0.4 + 0.6 * abs(cos(vSpin * 2.0))));
+              }
             }
           `}
         />
@@ -180,11 +246,132 @@ const SnowParticles = () => {
     );
 };
 
-export const AmbientParticles: React.FC = () => {
+// 烟花：每一簇在远处的天空里炸开、散落、熄灭，再换个位置重来；全部在着色器里按时间算
+const FIREWORK_BURSTS = 10;
+const FIREWORK_SPARKS = 400;
+
+const Fireworks = ({ drawFraction, layoutSeed, colors }: { drawFraction: number; layoutSeed: number; colors: ThemeColors }) => {
+  const count = FIREWORK_BURSTS * FIREWORK_SPARKS;
+
+  const { directions, bursts, randoms } = useMemo(() => {
+    const directions = new Float32Array(count * 3);
+    const bursts = new Float32Array(count);
+    const randoms = new Float32Array(count);
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.fireworks);
+    for (let i = 0; i < count; i++) {
+      // 均匀分布的方向
+      const y = random() * 2 - 1;
+      const theta = random() * Math.PI * 2;
+      const ring = Math.sqrt(1 - y * y);
+      directions[i * 3] = ring * Math.cos(theta);
+      directions[i * 3 + 1] = y;
+      directions[i * 3 + 2] = ring * Math.sin(theta);
+      // 各簇的火花交错排列，低画质截掉尾部时每一簇都变稀，而不是少掉几簇
+      bursts[i] = i % FIREWORK_BURSTS;
+      randoms[i] = random();
+    }
+    return { directions, bursts, randoms };
+  }, [layoutSeed]);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uColorA: { value: colors.ornaments.glow },
+    uColorB: { value: colors.ornaments.metal },
+    uColorC: { value: colors.ornaments.primary },
+  }), [colors]);
+
+  const geometryRef = useDrawFraction(count, drawFraction);
+
+  useFrame((state) => {
+    uniforms.uTime.value = state.clock.elapsedTime;
+  });
+
+  return (
+    <points frustumCulled={false}>
+      <bufferGeometry key={layoutSeed} ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={count} array={directions} itemSize={3} />
+        <bufferAttribute attach="attributes-aBurst" count={count} array={bursts} itemSize={1} />
+        <bufferAttribute attach="attributes-aRandom" count={count} array={randoms} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial
+        transparent={true}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+        uniforms={uniforms}
+        vertexShader={`
+          uniform float uTime;
+          uniform vec3 uColorA;
+          uniform vec3 uColorB;
+          uniform vec3 uColorC;
+          attribute float aBurst;
+          attribute float aRandom;
+          varying vec3 vColor;
+          varying float vAlpha;
+
+          float hash(float n) { return fract(sin(n * 127.1) * 43758.5453); }
+
+          void main() {
+            // Each burst loops with its own period; every loop gets a new spot and color
+            float period = 3.5 + hash(aBurst) * 2.5;
+            float clock = uTime + hash(aBurst + 0.5) * period;
+            float cycle = floor(clock / period);
+            float t = mod(clock, period);
+            float life = 2.2;
+            float seed = aBurst * 13.7 + cycle * 3.1;
+            vec3 center = vec3(
+              mix(-45.0, 45.0, hash(seed)),
+              mix(18.0, 35.0, hash(seed + 1.0)),
+              mix(-60.0, -35.0, hash(seed + 2.0))
+            );
+            float speed = 9.0 * (0.7 + 0.3 * aRandom);
+            vec3 pos = center + position * speed * (1.0 - exp(-2.5 * t));
+            pos.y -= 1.5 * t * t;
+
+            vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+            gl_Position = projectionMatrix * mvPosition;
+            gl_PointSize = (1.5 + aRandom) * (120.0 / -mvPosition.z);
+
+            float pick = hash(seed + 3.0);
+            vColor = pick < 0.34 ? uColorA : (pick < 0.67 ? uColorB : uColorC);
+            float fade = t < life ? pow(1.0 - t / life, 1.5) : 0.0;
+            vAlpha = fade * (0.6 + 0.4 * sin(uTime * 20.0 + aRandom * 30.0));
+          }
+        `}
+        fragmentShader={`
+          varying vec3 vColor;
+          varying float vAlpha;
+          void main() {
+            float dist = distance(gl_PointCoord, vec2(0.5));
+            if (dist > 0.5 || vAlpha <= 0.0) discard;
+            float glow = pow(1.0 - dist * 2.0, 2.0);
+            // Brighter than 1.0 so the sparks pass the bloom threshold
+            gl_FragColor = vec4(vColor * 2.0, vAlpha * glow);
+          }
+        `}
+      />
+    </points>
+  );
+};
+
+interface AmbientParticlesProps {
+    /** 画质档位：雪花、烟花实际绘制的比例 */
+    particleFraction?: number;
+    /** 节日的环境特效：雪、花瓣、彩纸屑或烟花 */
+    effect?: AmbientEffect;
+    /** 场景主题：光点和雪的颜色 */
+    theme?: SceneThemeId;
+    /** 礼赠的布局种子：寄件人和收礼人看到同样的烟花 */
+    layoutSeed?: number;
+}
+
+export const AmbientParticles: React.FC<AmbientParticlesProps> = ({ particleFraction = 1, effect = 'snow', theme = DEFAULT_SCENE_THEME_ID, layoutSeed = 0 }) => {
+    const themeColors = useThemeColors(theme);
     return (
         <>
-            <GoldParticles />
-            <SnowParticles />
+            <GoldParticles color={themeColors.motes} />
+            {effect === 'fireworks'
+              ? <Fireworks drawFraction={particleFraction} layoutSeed={layoutSeed} colors={themeColors} />
+              : <FallingParticles drawFraction={particleFraction} effect={effect} colors={themeColors} />}
         </>
     );
 };
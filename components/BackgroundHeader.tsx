@@ -1,14 +1,22 @@
 import React, { useState, useEffect } from 'react';
+import { GiftManifest } from '../services/giftManifest';
 
-export const BackgroundHeader: React.FC = () => {
-  // 初始化状态时，直接从 URL 获取 id 参数
-  const [recipientName, setRecipientName] = useState(() => {
-    const params = new URLSearchParams(window.location.search);
-    return params.get('id') || "";
-  });
+interface BackgroundHeaderProps {
+  // 礼赠模式下由 manifest 渲染 (只读)；没有 manifest 时是本地预览，名字可以随手填写
+  manifest?: GiftManifest | null;
+  /** 节日预设的大标题 */
+  title?: string;
+}
 
-  // 标记是否为只读模式（如果有ID，说明是接收者视图）
-  const isRecipientView = !!(new URLSearchParams(window.location.search).get('id'));
+export const BackgroundHeader: React.FC<BackgroundHeaderProps> = ({ manifest, title = 'Merry Christmas' }) => {
+  const [recipientName, setRecipientName] = useState(manifest?.recipientName || "");
+
+  useEffect(() => {
+    if (manifest) setRecipientName(manifest.recipientName);
+  }, [manifest]);
+
+  // 标记是否为只读模式（有 manifest 说明是接收者视图）
+  const isRecipientView = !!manifest;
 
   return (
     <div className="absolute inset-0 flex flex-col items-center pt-8 md:pt-6 pointer-events-none z-50">
@@ -40,7 +48,7 @@ export const BackgroundHeader: React.FC = () => {
                 padding: '0.1em 0',
             }}
         >
-          Merry Christmas
+          {title}
         </h1>
         
         {/* Especially for section */}
@@ -54,8 +62,9 @@ export const BackgroundHeader: React.FC = () => {
                 onChange={(e) => setRecipientName(e.target.value)}
                 placeholder="[Name]"
                 readOnly={isRecipientView} // 如果是专属链接，建议设为只读，防止误触
+                size={Math.max(6, recipientName.length + 1)}
                 className={`
-                  bg-transparent focus:outline-none w-24 md:w-36 transition-colors placeholder-white/30 text-left
+                  bg-transparent focus:outline-none min-w-[6rem] md:min-w-[9rem] max-w-[60vw] transition-colors placeholder-white/30 text-left
                   ${isRecipientView ? 'cursor-default' : 'cursor-text'} 
                 `}
                 style={{ 
@@ -68,6 +77,22 @@ export const BackgroundHeader: React.FC = () => {
                 }}
             />
         </div>
+
+        {/* 寄语与署名 */}
+        {manifest && (manifest.message || manifest.senderName) && (
+          <div className="mt-2 max-w-[80vw] md:max-w-md text-right space-y-1 drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]">
+            {manifest.message && (
+              <p className="text-white/80 text-xs md:text-sm italic tracking-wide font-serif leading-relaxed whitespace-pre-line">
+                {manifest.message}
+              </p>
+            )}
+            {manifest.senderName && (
+              <p className="text-[#FFD700]/80 text-sm md:text-base" style={{ fontFamily: '"Great Vibes", cursive' }}>
+                — {manifest.senderName}
+              </p>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,27 @@
+import React from 'react';
+import { SCENE_ENVIRONMENT_CHOICES, SceneEnvironmentChoice } from '../utils/environments';
+
+interface Props {
+  value: SceneEnvironmentChoice;
+  onChange: (environment: SceneEnvironmentChoice) => void;
+  disabled?: boolean;
+}
+
+// 环境贴图：决定金属装饰、宝石和相框里映出什么；远程的加载不到时会自动换成打包的
+export const EnvironmentField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="space-y-2">
+    <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">环境反射</p>
+    <div className="flex flex-wrap gap-1.5">
+      {SCENE_ENVIRONMENT_CHOICES.map(choice => (
+        <button
+          key={choice.id}
+          onClick={() => onChange(choice.id)}
+          disabled={disabled}
+          className={`px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${choice.id === value ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+        >
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
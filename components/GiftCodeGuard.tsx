@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { supabase } from '../supabaseClient'; // 确保路径正确
+import { getGiftRepository } from '../services/giftBackend';
 
 interface Props {
   onVerified: () => void;
@@ -16,15 +16,8 @@ export const GiftCodeGuard: React.FC<Props> = ({ onVerified }) => {
     setError('');
 
     try {
-      // 调用 Supabase 的 RPC 函数
-      const { data, error: rpcError } = await supabase.rpc('verify_and_use_code', {
-        input_code: code.trim().toUpperCase()
-      });
-
-      if (rpcError) throw rpcError;
-
-      // data 返回的是我们 SQL 里定义的 TABLE (success, message)
-      const result = data[0]; 
+      // 校验并消耗兑换码 (Supabase 的 verify_and_use_code 或本地实现)
+      const result = await getGiftRepository().verifyCode(code);
 
       if (result.success) {
         onVerified();
@@ -0,0 +1,67 @@
+import React from 'react';
+import { GiftDetails, MAX_MESSAGE_LENGTH, MAX_NAME_LENGTH } from '../services/giftManifest';
+
+interface Props {
+  value: GiftDetails;
+  onChange: (value: GiftDetails) => void;
+  disabled?: boolean;
+}
+
+// 收礼人 / 寄件人 / 寄语：与 ID 分开填写，支持空格和中文
+export const GiftDetailsFields: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const update = (patch: Partial<GiftDetails>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="relative group">
+          <input
+            type="text"
+            placeholder=" "
+            value={value.recipientName}
+            maxLength={MAX_NAME_LENGTH}
+            onChange={(e) => update({ recipientName: e.target.value })}
+            disabled={disabled}
+            className="peer w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-3 outline-none focus:border-rose-300 transition-all font-serif-elegant placeholder-transparent tracking-wide disabled:opacity-50"
+          />
+          <label className="absolute left-2 -top-5 text-rose-200/40 text-xs transition-all peer-placeholder-shown:text-base peer-placeholder-shown:top-2 peer-placeholder-shown:text-rose-200/30 peer-focus:-top-5 peer-focus:text-xs peer-focus:text-rose-300 font-handwriting">
+            送给谁
+          </label>
+        </div>
+
+        <div className="relative group">
+          <input
+            type="text"
+            placeholder=" "
+            value={value.senderName}
+            maxLength={MAX_NAME_LENGTH}
+            onChange={(e) => update({ senderName: e.target.value })}
+            disabled={disabled}
+            className="peer w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-3 outline-none focus:border-rose-300 transition-all font-serif-elegant placeholder-transparent tracking-wide disabled:opacity-50"
+          />
+          <label className="absolute left-2 -top-5 text-rose-200/40 text-xs transition-all peer-placeholder-shown:text-base peer-placeholder-shown:top-2 peer-placeholder-shown:text-rose-200/30 peer-focus:-top-5 peer-focus:text-xs peer-focus:text-rose-300 font-handwriting">
+            署名 (选填)
+          </label>
+        </div>
+      </div>
+
+      <div className="relative group">
+        <textarea
+          placeholder=" "
+          rows={2}
+          value={value.message}
+          maxLength={MAX_MESSAGE_LENGTH}
+          onChange={(e) => update({ message: e.target.value })}
+          disabled={disabled}
+          className="peer w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-3 outline-none focus:border-rose-300 transition-all font-handwriting placeholder-transparent tracking-wide resize-none disabled:opacity-50"
+        />
+        <label className="absolute left-2 -top-5 text-rose-200/40 text-xs transition-all peer-placeholder-shown:text-base peer-placeholder-shown:top-2 peer-placeholder-shown:text-rose-200/30 peer-focus:-top-5 peer-focus:text-xs peer-focus:text-rose-300 font-handwriting">
+          写一句祝福 (选填)
+        </label>
+        <span className="absolute right-1 bottom-1 text-[9px] text-rose-200/30 font-serif-elegant">
+          {value.message.length}/{MAX_MESSAGE_LENGTH}
+        </span>
+      </div>
+    </div>
+  );
+};
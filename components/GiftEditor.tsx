@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getGiftRepository } from '../services/giftBackend';
+import { DEFAULT_SCENE_LOOK, GiftDetails, GiftManifest, GiftSceneLook, GiftVoiceNote, MAX_VOICE_NOTE_SECONDS, parseGiftManifest, updateGiftManifest } from '../services/giftManifest';
+import { FileUploadState, uploadGiftPhotos } from '../services/photoUpload';
+import { isUploadCancelled } from '../services/uploadQueue';
+import { buildGiftLink } from '../services/giftLinks';
+import { getFriendlyErrorMessage } from '../utils/friendlyError';
+import { GiftDetailsFields } from './GiftDetailsFields';
+import { GiftFormStyles } from './GiftFormStyles';
+import { UnlockTimeField } from './UnlockTimeField';
+import { SceneLookFields } from './SceneLookFields';
+import { PassphrasePrompt } from './PassphrasePrompt';
+import { EditablePhoto, GiftPhotoList, createEditablePhoto, getPhotoPreviewUrl, releaseEditablePhoto } from './GiftPhotoList';
+import { fetchDecryptedMediaUrl } from '../utils/crypto';
+import {
+  EditableVoiceNote,
+  VoiceNoteRecorder,
+  editableVoiceNoteFrom,
+  getVoiceNotePreviewUrl,
+  releaseEditableVoiceNote,
+  toGiftVoiceNote,
+} from './VoiceNoteRecorder';
+import {
+  EditableMusicTrack,
+  MusicPicker,
+  UploadedMusicTrack,
+  editableMusicFrom,
+  getMusicPreviewUrl,
+  isUploadedMusicTrack,
+  releaseEditableMusic,
+  toGiftMusicTracks,
+} from './MusicPicker';
+
+interface Props {
+  customId: string;
+  ownerToken: string;
+  /** 每次编辑都把草稿交给场景实时预览 (新照片是本地 blob 链接) */
+  onPreviewChange?: (manifest: GiftManifest) => void;
+}
+
+// 寄件人凭私有编辑链接重新打开礼赠：增删照片、调整顺序、修改文字，公开的 ?id= 链接保持不变
+export const GiftEditor: React.FC<Props> = ({ customId, ownerToken, onPreviewChange }) => {
+  const [manifest, setManifest] = useState<GiftManifest | null>(null);
+  const [details, setDetails] = useState<GiftDetails>({ recipientName: '', senderName: '', message: '' });
+  const [photos, setPhotos] = useState<EditablePhoto[]>([]);
+  const [unlockAt, setUnlockAt] = useState<string | null>(null);
+  const [voiceNote, setVoiceNote] = useState<EditableVoiceNote | null>(null);
+  const [music, setMusic] = useState<EditableMusicTrack[]>([]);
+  const [look, setLook] = useState<GiftSceneLook>(DEFAULT_SCENE_LOOK);
+  const [photoKey, setPhotoKey] = useState<CryptoKey | null>(null);
+  const [status, setStatus] = useState<'loading' | 'locked' | 'idle' | 'saving' | 'saved' | 'error'>('loading');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [progress, setProgress] = useState(0);
+  const [uploadStates, setUploadStates] = useState<Record<string, FileUploadState>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const voiceNoteRef = useRef(voiceNote);
+  voiceNoteRef.current = voiceNote;
+  const musicRef = useRef(music);
+  musicRef.current = music;
+  useEffect(() => () => {
+    photosRef.current.forEach(releaseEditablePhoto);
+    releaseEditableVoiceNote(voiceNoteRef.current);
+    releaseEditableMusic(musicRef.current);
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    // 用 owner token 读取：即使礼赠尚未到开启时间，寄件人也能看到照片
+    getGiftRepository().loadGiftForOwner(customId, ownerToken)
+      .then(gift => {
+        if (cancelled) return;
+        const loaded = parseGiftManifest(gift.manifest, gift);
+        setManifest(loaded);
+        setDetails({ recipientName: loaded.recipientName, senderName: loaded.senderName, message: loaded.message });
+        setUnlockAt(loaded.unlockAt);
+        setLook(loaded.scene);
+        // 加密的礼赠：寄件人也要先输入口令才能看到、追加照片
+        if (loaded.encryption) return setStatus('locked');
+        setPhotos(loaded.photos.map(photo => createEditablePhoto(photo.url, {
+          kind: photo.kind,
+          caption: photo.caption,
+          crop: photo.crop,
+          voiceNote: editableVoiceNoteFrom(photo.voiceNote),
+        })));
+        setVoiceNote(editableVoiceNoteFrom(loaded.voiceNote));
+        setMusic(editableMusicFrom(loaded.scene.music));
+        setStatus('idle');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Failed to load gift for editing:', err);
+        setErrorMessage(getFriendlyErrorMessage(err));
+        setStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [customId, ownerToken]);
+
+  const handleUnlock = async (key: CryptoKey) => {
+    if (!manifest) return;
+    setStatus('loading');
+    try {
+      const previews = await Promise.all(manifest.photos.map(photo => fetchDecryptedMediaUrl(photo.url, key, photo.kind)));
+      // 语音留言同样解密一份本地试听
+      const decryptVoiceNote = async (note: GiftVoiceNote | null) =>
+        editableVoiceNoteFrom(note, note ? await fetchDecryptedMediaUrl(note.url, key, 'audio') : undefined);
+      const voicePreviews = await Promise.all(manifest.photos.map(photo => decryptVoiceNote(photo.voiceNote)));
+      setPhotos(manifest.photos.map((photo, i) => createEditablePhoto(photo.url, {
+        kind: photo.kind,
+        previewUrl: previews[i],
+        caption: photo.caption,
+        crop: photo.crop,
+        voiceNote: voicePreviews[i],
+      })));
+      setVoiceNote(await decryptVoiceNote(manifest.voiceNote));
+      // 自己上传的歌也是密文
+      const musicPreviews = await Promise.all(manifest.scene.music.map(track =>
+        track.source === 'upload' ? fetchDecryptedMediaUrl(track.url, key, 'audio') : undefined));
+      setMusic(editableMusicFrom(manifest.scene.music, musicPreviews));
+      setPhotoKey(key);
+      setStatus('idle');
+    } catch (err) {
+      console.error('Failed to decrypt gift photos:', err);
+      setErrorMessage(getFriendlyErrorMessage(err));
+      setStatus('error');
+    }
+  };
+
+  const buildManifest = (
+    base: GiftManifest,
+    photoUrls: string[],
+    resolveVoiceNote: (note: EditableVoiceNote | null) => GiftVoiceNote | null,
+    resolveMusicUrl: (track: UploadedMusicTrack) => string | undefined,
+  ) =>
+    updateGiftManifest(base, {
+      ...details,
+      photos: photos.map((photo, i) => ({
+        url: photoUrls[i],
+        kind: photo.kind,
+        caption: photo.caption,
+        crop: photo.crop,
+        voiceNote: resolveVoiceNote(photo.voiceNote),
+      })),
+      unlockAt,
+      voiceNote: resolveVoiceNote(voiceNote),
+      scene: { ...base.scene, ...look, music: toGiftMusicTracks(music, resolveMusicUrl) },
+    });
+
+  const isUnlocked = !!manifest && (!manifest.encryption || !!photoKey);
+
+  useEffect(() => {
+    // 预览时忽略定时开启，寄件人总能看到成品；加密照片用解密后的本地预览
+    if (manifest && isUnlocked) {
+      const previewManifest = buildManifest(
+        manifest,
+        photos.map(getPhotoPreviewUrl),
+        note => toGiftVoiceNote(note, note ? getVoiceNotePreviewUrl(note) : undefined),
+        getMusicPreviewUrl,
+      );
+      onPreviewChange?.({ ...previewManifest, unlockAt: null, encryption: null });
+    }
+  }, [manifest, isUnlocked, details, photos, unlockAt, voiceNote, music, look, onPreviewChange]);
+
+  const isBusy = status === 'loading' || status === 'saving';
+
+  const save = async () => {
+    if (!manifest) return;
+    if (!details.recipientName.trim()) {
+      setErrorMessage("请填写收礼人的名字");
+      setStatus('error');
+      return;
+    }
+    if (photos.length === 0) {
+      setErrorMessage("至少保留一张照片哦");
+      setStatus('error');
+      return;
+    }
+
+    try {
+      setStatus('saving');
+      setProgress(5);
+      setUploadStates({});
+
+      // 只上传新加入的照片、新录的语音和新选的歌，已上传的沿用原链接
+      const newPhotos = photos.filter(photo => photo.file);
+      const newVoiceNotes = [voiceNote, ...photos.map(photo => photo.voiceNote)]
+        .filter((note): note is EditableVoiceNote => !!note?.file);
+      const newMusic = music.filter(isUploadedMusicTrack).filter(track => track.file);
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const uploadedUrls = await uploadGiftPhotos(customId, [
+        ...newPhotos.map(photo => photo.file!),
+        ...newVoiceNotes.map(note => note.file!),
+        ...newMusic.map(track => track.file!),
+      ], {
+        // 加密的礼赠沿用同一把密钥，新照片同样以密文上传
+        encryptionKey: photoKey ?? undefined,
+        cacheTag: manifest.encryption?.salt,
+        signal: controller.signal,
+        onProgress: ({ overall, files }) => {
+          setProgress(5 + overall * 85);
+          setUploadStates(Object.fromEntries(files.slice(0, newPhotos.length).map((state, i) => [newPhotos[i].key, state])));
+        },
+      });
+      const uploadedByKey = new Map(newPhotos.map((photo, i) => [photo.key, uploadedUrls[i]]));
+      const uploadedVoiceUrls = new Map(newVoiceNotes.map((note, i) => [note, uploadedUrls[newPhotos.length + i]]));
+      const uploadedMusicUrls = new Map(newMusic.map((track, i) => [track, uploadedUrls[newPhotos.length + newVoiceNotes.length + i]]));
+      const photoUrls = photos.map(photo => uploadedByKey.get(photo.key) || photo.url);
+
+      const nextManifest = buildManifest(
+        manifest,
+        photoUrls,
+        note => toGiftVoiceNote(note, note ? uploadedVoiceUrls.get(note) : undefined),
+        track => uploadedMusicUrls.get(track),
+      );
+      await getGiftRepository().updateGift({ customId, ownerToken, manifest: nextManifest });
+
+      // 上传完成后换成远程链接，避免再次保存时重复上传；本地 blob 留作预览
+      const settleVoiceNote = (note: EditableVoiceNote | null): EditableVoiceNote | null => note?.file
+        ? { url: uploadedVoiceUrls.get(note)!, duration: note.duration, previewUrl: note.url }
+        : note;
+      setPhotos(photos.map(photo => {
+        const settled = { ...photo, voiceNote: settleVoiceNote(photo.voiceNote) };
+        return photo.file ? { ...settled, url: uploadedByKey.get(photo.key)!, file: undefined, previewUrl: photo.url } : settled;
+      }));
+      setVoiceNote(settleVoiceNote(voiceNote));
+      setMusic(music.map(track => (isUploadedMusicTrack(track) && track.file
+        ? { source: 'upload', url: uploadedMusicUrls.get(track)!, title: track.title, previewUrl: track.url }
+        : track)));
+      setManifest(nextManifest);
+      setProgress(100);
+      setStatus('saved');
+    } catch (err: any) {
+      if (!isUploadCancelled(err)) console.error('Save Error:', err);
+      setErrorMessage(getFriendlyErrorMessage(err));
+      setStatus('error');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className="fixed top-20 right-6 z-[100] px-4 py-2 rounded-full bg-rose-500/80 text-white text-xs tracking-widest shadow-lg font-serif hover:bg-rose-500"
+      >
+        ✎ 继续编辑
+      </button>
+    );
+  }
+
+  return (
+    <>
+      <GiftFormStyles />
+
+      <div className="fixed inset-y-0 right-0 z-[100] w-full max-w-sm p-4 flex">
+        <div className="bg-black/70 backdrop-blur-2xl rounded-3xl border border-white/20 shadow-2xl p-6 w-full overflow-y-auto space-y-8">
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <h3 className="text-white text-xl font-serif-elegant tracking-widest font-bold">编辑礼赠</h3>
+              <p className="text-rose-200/60 text-xs font-handwriting tracking-wide">链接不变：{buildGiftLink(customId)}</p>
+            </div>
+            <button onClick={() => setCollapsed(true)} className="text-[#FFD700]/60 hover:text-white text-[10px] tracking-[0.3em] font-serif italic whitespace-nowrap">
+              预览 ▸
+            </button>
+          </div>
+
+          {status === 'loading' ? (
+            <p className="text-center text-rose-100/60 font-handwriting animate-pulse">正在取出礼赠...</p>
+          ) : status === 'locked' && manifest?.encryption ? (
+            <PassphrasePrompt encryption={manifest.encryption} recipientName={manifest.recipientName} onUnlock={handleUnlock} />
+          ) : isUnlocked && (
+            <>
+              <GiftDetailsFields value={details} onChange={setDetails} disabled={isBusy} />
+              <GiftPhotoList photos={photos} onChange={setPhotos} disabled={isBusy} uploadStates={status === 'saving' || status === 'error' ? uploadStates : undefined} />
+              <UnlockTimeField value={unlockAt} onChange={setUnlockAt} disabled={isBusy} />
+              <div className="space-y-2">
+                <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">语音留言 (可选，{MAX_VOICE_NOTE_SECONDS} 秒以内)</p>
+                <VoiceNoteRecorder value={voiceNote} onChange={setVoiceNote} maxSeconds={MAX_VOICE_NOTE_SECONDS} disabled={isBusy} />
+              </div>
+              <MusicPicker value={music} onChange={setMusic} disabled={isBusy} />
+              <SceneLookFields value={look} onChange={setLook} disabled={isBusy} />
+            </>
+          )}
+
+          <div>
+            {status === 'saving' && (
+              <div className="w-full h-1 bg-rose-900/30 mb-4 rounded-full overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-rose-400 to-purple-400 transition-all duration-500" style={{ width: `${progress}%` }} />
+              </div>
+            )}
+
+            <button
+              onClick={save}
+              disabled={isBusy || !manifest}
+              className="w-full py-3.5 rounded-lg text-white font-medium text-sm tracking-[0.2em] transition-all duration-500 font-serif-elegant bg-gradient-to-r from-rose-500/80 to-purple-600/80 hover:from-rose-500 hover:to-purple-600 disabled:opacity-40 disabled:cursor-wait"
+            >
+              {status === 'saving' ? <span className="animate-pulse">保存中...</span> : '保存修改'}
+            </button>
+
+            {status === 'saving' && (
+              <button onClick={() => abortRef.current?.abort()} className="w-full mt-3 text-rose-200/50 hover:text-rose-100 text-xs tracking-widest font-handwriting transition-colors">
+                取消上传
+              </button>
+            )}
+
+            {status === 'saved' && (
+              <p className="mt-4 text-rose-100/80 text-xs text-center font-handwriting tracking-wide">已保存，TA 再次打开链接就能看到新的礼赠</p>
+            )}
+            {status === 'error' && (
+              <p className="mt-4 text-red-300 text-xs text-center font-light animate-shake font-handwriting tracking-wide">{errorMessage}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+// 礼赠表单 (生成器 / 编辑器) 共用的字体与动画
+export const GiftFormStyles: React.FC = () => (
+  <style>
+    {`
+      .font-serif-elegant { font-family: "Songti SC", "STSong", "SimSun", "Noto Serif SC", serif; }
+      .font-handwriting { font-family: "STKaiti", "KaiTi", "KaiTi_GB2312", "FangSong", "Kaiti SC", cursive; }
+      
+      @keyframes shine {
+        from { transform: translateX(-100%) skewX(-15deg); }
+        to { transform: translateX(200%) skewX(-15deg); }
+      }
+      .animate-shine { animation: shine 3s infinite; }
+      
+      @keyframes shake {
+        0%, 100% { transform: translateX(0); }
+        25% { transform: translateX(-4px); }
+        75% { transform: translateX(4px); }
+      }
+      .animate-shake { animation: shake 0.4s ease-in-out; }
+      
+      .cursor-wait { cursor: wait; }
+    `}
+  </style>
+);
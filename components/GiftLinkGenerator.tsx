@@ -1,92 +1,82 @@
-import React, { useState } from 'react';
-import OSS from 'ali-oss';
+import React, { useEffect, useRef, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { createClient } from '@supabase/supabase-js';
-import imageCompression from 'browser-image-compression';
-
-// --- 初始化 Supabase ---
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-// --- 错误信息翻译官 ---
-const getFriendlyErrorMessage = (error: any): string => {
-  const msg = (error.message || error.toString()).toLowerCase();
-
-  // 1. 唯一性冲突 (ID 被占用)
-  if (msg.includes('duplicate key') || msg.includes('unique constraint') || msg.includes('id_exists')) {
-    return "哎呀，这个定制的id已经被别人抢先使用了，换一个更有创意的吧！";
-  }
-
-  // 2. 违反字符格式
-  if (msg.includes('violates check constraint') || msg.includes('validation_failed')) {
-    return "ID 格式不太对哦，只能包含字母、数字、横线(-) 或 下划线(_)";
-  }
-
-  // 3. 网络或连接问题
-  if (msg.includes('network') || msg.includes('failed to fetch') || msg.includes('connection')) {
-    return "网络信号去流浪了，请检查网络后重试";
-  }
-
-  // 4. 超时
-  if (msg.includes('timeout')) {
-    return "上传请求超时，可能是图片太大了，请重试";
-  }
-
-  // 5. RPC 自定义报错 (假设后端抛出 'Invalid Code')
-  if (msg.includes('invalid code') || msg.includes('code_error')) {
-    return "流光暗号似乎不正确，请检查是否输入有误";
-  }
-
-  // 6. 如果已经是中文 (即前端自己 throw 的 Error)，直接返回
-  if (/[\u4e00-\u9fa5]/.test(error.message)) {
-    return error.message;
-  }
-
-  // 7. 兜底未知错误
-  return "生成过程中遇到了一点小插曲，请稍后再试";
-};
+import { FileUploadState, uploadGiftPhotos } from '../services/photoUpload';
+import { isUploadCancelled } from '../services/uploadQueue';
+import { getGiftRepository } from '../services/giftBackend';
+import { DEFAULT_SCENE_OPTIONS, GiftDetails, GiftSceneLook, MAX_MANIFEST_CLIPS, MAX_MANIFEST_PHOTOS, MAX_VOICE_NOTE_SECONDS, createGiftManifest } from '../services/giftManifest';
+import { GiftDetailsFields } from './GiftDetailsFields';
+import { UnlockTimeField } from './UnlockTimeField';
+import { SceneLookFields } from './SceneLookFields';
+import { MIN_PASSPHRASE_LENGTH, PassphraseField } from './PassphraseField';
+import { createPhotoEncryption } from '../utils/crypto';
+import { PHOTO_ACCEPT, describeRejectedMedia, normalizeMediaFiles } from '../utils/imageNormalize';
+import { getFriendlyErrorMessage } from '../utils/friendlyError';
+import { GiftFormStyles } from './GiftFormStyles';
+import { EditablePhoto, GiftPhotoList, createEditablePhoto, releaseEditablePhoto } from './GiftPhotoList';
+import { buildEditLink, buildGiftLink } from '../services/giftLinks';
+import { EditableVoiceNote, VoiceNoteRecorder, releaseEditableVoiceNote, toGiftVoiceNote } from './VoiceNoteRecorder';
+import { EditableMusicTrack, MusicPicker, isUploadedMusicTrack, releaseEditableMusic, toGiftMusicTracks } from './MusicPicker';
 
 interface Props {
   onSuccess?: (id: string) => void;
+  /** 本地预览正在用的外观 (布局种子、照片挂法、树的轮廓)，生成的礼赠沿用它，收礼人看到同样的树 */
+  sceneLook?: GiftSceneLook;
+  onSceneLookChange?: (look: GiftSceneLook) => void;
 }
 
-export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
-  const [files, setFiles] = useState<File[]>([]);
+export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess, sceneLook, onSceneLookChange }) => {
+  const [photos, setPhotos] = useState<EditablePhoto[]>([]);
   const [giftCode, setGiftCode] = useState('');
   const [customId, setCustomId] = useState('');
+  const [details, setDetails] = useState<GiftDetails>({ recipientName: '', senderName: '', message: '' });
+  const [unlockAt, setUnlockAt] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState<string | null>(null);
+  const [voiceNote, setVoiceNote] = useState<EditableVoiceNote | null>(null);
+  const [music, setMusic] = useState<EditableMusicTrack[]>(DEFAULT_SCENE_OPTIONS.music);
   const [status, setStatus] = useState<'idle' | 'checking' | 'uploading' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
   const [generatedLink, setGeneratedLink] = useState('');
+  const [editLink, setEditLink] = useState('');
   const [uploadProgress, setUploadProgress] = useState(0);
-
-  // --- OSS client 初始化 ---
-  const client = new OSS({
-    region: import.meta.env.VITE_ALI_REGION || 'oss-cn-beijing',
-    accessKeyId: import.meta.env.VITE_ALI_KEY_ID || '',
-    accessKeySecret: import.meta.env.VITE_ALI_KEY_SECRET || '',
-    bucket: import.meta.env.VITE_ALI_BUCKET || '',
-    secure: true,
-  });
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const [uploadStates, setUploadStates] = useState<Record<string, FileUploadState>>({});
+  const [isProcessingPhotos, setIsProcessingPhotos] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // 同一口令重复提交时沿用同一把密钥，已上传的密文才能被复用
+  const encryptionRef = useRef<{ passphrase: string; encryption: Awaited<ReturnType<typeof createPhotoEncryption>> } | null>(null);
+
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const voiceNoteRef = useRef(voiceNote);
+  voiceNoteRef.current = voiceNote;
+  const musicRef = useRef(music);
+  musicRef.current = music;
+  useEffect(() => () => {
+    photosRef.current.forEach(releaseEditablePhoto);
+    releaseEditableVoiceNote(voiceNoteRef.current);
+    releaseEditableMusic(musicRef.current);
+    abortRef.current?.abort();
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      if (e.target.files.length > 15) {
-        alert("为了保证体验，最多只能上传 15 张照片哦");
+      if (e.target.files.length > MAX_MANIFEST_PHOTOS) {
+        alert(`为了保证体验，最多只能上传 ${MAX_MANIFEST_PHOTOS} 张照片哦`);
         return;
       }
-      setFiles(Array.from(e.target.files));
+      const selected = Array.from(e.target.files);
+      e.target.value = '';
+      // HEIC 转码、EXIF 方向摆正、视频录成短片；识别不了的文件提示用户，而不是让它在树上悄悄消失
+      setIsProcessingPhotos(true);
+      const result = await normalizeMediaFiles(selected, { maxClips: MAX_MANIFEST_CLIPS });
+      setIsProcessingPhotos(false);
+      const notice = describeRejectedMedia(result, MAX_MANIFEST_CLIPS);
+      if (notice) alert(notice);
+      setPhotos(result.files.map(file => createEditablePhoto(file)));
       setStatus('idle');
       setErrorMessage('');
     }
   };
 
-  const compressImage = async (file: File) => {
-    const options = { maxSizeMB: 0.8, maxWidthOrHeight: 1920, useWebWorker: true, fileType: 'image/jpeg' };
-    try { return await imageCompression(file, options); } 
-    catch (error) { return file; }
-  };
-
   const generateGift = async () => {
     // 1. 基础前端验证
     if (!giftCode.trim()) {
@@ -100,27 +90,34 @@ export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
       setStatus('error');
       return;
     }
-    if (files.length === 0) {
+    if (!details.recipientName.trim()) {
+      setErrorMessage("请填写收礼人的名字");
+      setStatus('error');
+      return;
+    }
+    if (photos.length === 0) {
       setErrorMessage("请挑选几张珍藏的照片");
       setStatus('error');
       return;
     }
+    if (unlockAt && new Date(unlockAt).getTime() <= Date.now()) {
+      setErrorMessage("开启时间需要晚于现在哦");
+      setStatus('error');
+      return;
+    }
+    if (passphrase !== null && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setErrorMessage(`口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字`);
+      setStatus('error');
+      return;
+    }
 
     try {
       // 2.【新增步骤】预校验 ID 是否可用 (为了节省 OSS 流量和用户时间)
       setStatus('checking'); // 新增一个检查状态
       
-      // 注意：这里假设你的表名是 'gifts'，请根据实际表名修改
-      // 只要查询有没有这个 ID 即可，不需要查其他数据
-      const { data: existingData, error: checkError } = await supabase
-        .from('gifts') 
-        .select('id')
-        .eq('custom_id', customId) // 假设数据库字段是 custom_id，如果是 id 请修改
-        .maybeSingle();
-
-      if (checkError) throw checkError; // 抛出网络或数据库连接错误
+      const isAvailable = await getGiftRepository().isIdAvailable(customId);
 
-      if (existingData) {
+      if (!isAvailable) {
         // 手动抛出一个包含特定关键词的错误，让翻译官处理
         throw new Error('id_exists');
       }
@@ -128,88 +125,97 @@ export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
       // 3. ID 可用，开始上传 OSS
       setStatus('uploading');
       setUploadProgress(5);
+      setUploadStates({});
 
-      const uploadPromises = files.map(async (originalFile, i) => {
-        const compressedFile = await compressImage(originalFile);
-        const extension = 'jpg';
-        const objectName = `gifts/${customId}/${Date.now()}-${i}.${extension}`;
-        const result = await client.put(objectName, compressedFile);
-        
-        setUploadProgress(prev => {
-           // 进度条平滑处理，最多走到 80%，剩下 20% 给数据库写入
-           return Math.min(prev + (75 / files.length), 80);
-        });
-        
-        let url = result.url;
-        if (url.startsWith('http://')) { url = url.replace('http://', 'https://'); }
-        return url; 
+      // 设置了口令：照片在浏览器里加密后再上传，口令本身不离开本机
+      if (passphrase && encryptionRef.current?.passphrase !== passphrase) {
+        encryptionRef.current = { passphrase, encryption: await createPhotoEncryption(passphrase) };
+      }
+      const encryption = passphrase ? encryptionRef.current!.encryption : null;
+
+      // 语音留言 (整份礼赠的 + 每张照片的) 和自己上传的歌跟在照片后面一起排队上传
+      const voiceNotes = [voiceNote, ...photos.map(photo => photo.voiceNote)]
+        .filter((note): note is EditableVoiceNote => !!note?.file);
+      const musicFiles = music.filter(isUploadedMusicTrack).filter(track => track.file);
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const uploadedUrls = await uploadGiftPhotos(customId, [
+        ...photos.map(photo => photo.file!),
+        ...voiceNotes.map(note => note.file!),
+        ...musicFiles.map(track => track.file!),
+      ], {
+        encryptionKey: encryption?.key,
+        cacheTag: encryption?.params.salt,
+        signal: controller.signal,
+        onProgress: ({ overall, files }) => {
+          // 照片上传占 5%-90%，剩下的留给数据库写入
+          setUploadProgress(5 + overall * 85);
+          setUploadStates(Object.fromEntries(files.slice(0, photos.length).map((state, i) => [photos[i].key, state])));
+        },
       });
-
-      const photoUrls = await Promise.all(uploadPromises);
-
-      // 4. 调用 RPC 写入数据库
-      const { data, error: rpcError } = await supabase.rpc('create_gift_with_code', {
-        input_code: giftCode.trim().toUpperCase(),
-        input_custom_id: customId,
-        input_photo_urls: photoUrls
+      const photoUrls = uploadedUrls.slice(0, photos.length);
+      const voiceUrls = new Map(voiceNotes.map((note, i) => [note, uploadedUrls[photos.length + i]]));
+      const uploadedVoiceNote = (note: EditableVoiceNote | null) => toGiftVoiceNote(note, note ? voiceUrls.get(note) : undefined);
+      const musicUrls = new Map(musicFiles.map((track, i) => [track, uploadedUrls[photos.length + voiceNotes.length + i]]));
+
+      // 4. 消耗兑换码并写入礼赠 (暗号错误时抛出 GiftRepositoryError，交给翻译官)
+      const { ownerToken } = await getGiftRepository().createGift({
+        code: giftCode,
+        customId,
+        manifest: createGiftManifest({
+          ...details,
+          photos: photos.map((photo, i) => ({
+            url: photoUrls[i],
+            kind: photo.kind,
+            caption: photo.caption,
+            crop: photo.crop,
+            voiceNote: uploadedVoiceNote(photo.voiceNote),
+          })),
+          unlockAt,
+          encryption: encryption?.params ?? null,
+          voiceNote: uploadedVoiceNote(voiceNote),
+          // 没有预览外观时用默认值，布局种子交给 createGiftManifest 随机生成
+          scene: {
+            ...sceneLook,
+            music: toGiftMusicTracks(music, track => musicUrls.get(track)),
+          },
+        }),
       });
 
-      if (rpcError) throw rpcError;
-
-      const result = data; //有些 supabase 版本返回 data 是对象，有些是数组 data[0]，请根据实际情况调整
-      // 如果 RPC 返回结构是数组: const result = data[0];
-      
-      // 兼容性处理：如果 result 是数组取第一个，如果是对象直接用
-      const resultObj = Array.isArray(result) ? result[0] : result;
-
-      if (resultObj && !resultObj.success) {
-        throw new Error(resultObj.message || "暗号似乎不正确，请检查后重试");
-      }
-
       // 5. 完成
       setUploadProgress(100);
-      const link = `${window.location.origin}?id=${customId}`;
-      setGeneratedLink(link);
+      setGeneratedLink(buildGiftLink(customId));
+      setEditLink(buildEditLink(customId, ownerToken));
       setStatus('success');
       onSuccess?.(customId);
 
     } catch (err: any) {
-      console.error('Process Error:', err);
+      if (!isUploadCancelled(err)) console.error('Process Error:', err);
       // 调用翻译官
       const friendlyMsg = getFriendlyErrorMessage(err);
       setErrorMessage(friendlyMsg);
       setStatus('error');
+    } finally {
+      abortRef.current = null;
     }
   };
 
+  const cancelUpload = () => abortRef.current?.abort();
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(generatedLink);
     alert("美好已准备就绪，复制链接发送给 TA 吧"); 
   };
 
+  const copyEditLink = () => {
+    navigator.clipboard.writeText(editLink);
+    alert("编辑链接已复制，请自己妥善保存，不要发给 TA");
+  };
+
   return (
     <>
-      <style>
-        {`
-          .font-serif-elegant { font-family: "Songti SC", "STSong", "SimSun", "Noto Serif SC", serif; }
-          .font-handwriting { font-family: "STKaiti", "KaiTi", "KaiTi_GB2312", "FangSong", "Kaiti SC", cursive; }
-          
-          @keyframes shine {
-            from { transform: translateX(-100%) skewX(-15deg); }
-            to { transform: translateX(200%) skewX(-15deg); }
-          }
-          .animate-shine { animation: shine 3s infinite; }
-          
-          @keyframes shake {
-            0%, 100% { transform: translateX(0); }
-            25% { transform: translateX(-4px); }
-            75% { transform: translateX(4px); }
-          }
-          .animate-shake { animation: shake 0.4s ease-in-out; }
-          
-          .cursor-wait { cursor: wait; }
-        `}
-      </style>
+      <GiftFormStyles />
 
       <div className="w-full max-w-md mx-auto mt-10 relative z-50 px-2">
         {/* 背景光晕装饰 */}
@@ -260,13 +266,31 @@ export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
                         <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" viewBox="0 0 16 16"><path d="M4 1.5H3a2 2 0 0 0-2 2V14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V3.5a2 2 0 0 0-2-2h-1v1h1a1 1 0 0 1 1 1V14a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1V3.5a1 1 0 0 1 1-1h1v-1z"/><path d="M9.5 1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-3a.5.5 0 0 1-.5-.5v-1a.5.5 0 0 1 .5-.5h3zm-3-1A1.5 1.5 0 0 0 5 1.5v1A1.5 1.5 0 0 0 6.5 4h3A1.5 1.5 0 0 0 11 2.5v-1A1.5 1.5 0 0 0 9.5 0h-3z"/></svg>
                       </span>
                   </div>
+
+                  {passphrase && (
+                    <p className="text-rose-200/60 text-[10px] font-handwriting tracking-wide">🔒 照片已加密，记得把口令另外告诉 TA</p>
+                  )}
+
+                  {/* 寄件人私有的编辑链接 */}
+                  {editLink && (
+                    <div 
+                      onClick={copyEditLink}
+                      className="group border border-dashed border-[#FFD700]/30 rounded-xl p-4 flex items-center gap-3 cursor-pointer hover:bg-[#FFD700]/5 transition-all active:scale-[0.98]"
+                    >
+                        <div className="flex-1 text-left overflow-hidden">
+                          <p className="text-[#FFD700]/60 text-[10px] uppercase tracking-widest mb-1 font-sans">编辑链接 · 仅自己保存</p>
+                          <p className="text-rose-100/60 text-[10px] font-handwriting tracking-wide">之后可凭此链接修改文字、增删或调整照片，请勿分享给他人</p>
+                        </div>
+                        <span className="text-[#FFD700]/60 group-hover:text-[#FFD700] transition-colors text-sm">✎</span>
+                    </div>
+                  )}
               </div>
             </div>
           ) : (
             /* --- 上传表单 --- */
             <div className="space-y-8 px-2">
               <div className="text-center space-y-2">
-                  <h3 className="text-white text-2xl font-serif-elegant tracking-widest font-bold">定制圣诞礼赠</h3>
+                  <h3 className="text-white text-2xl font-serif-elegant tracking-widest font-bold">定制专属礼赠</h3>
                   <p className="text-rose-200/60 text-base font-handwriting tracking-wide">纯享版：去除水印，专属链接即点即用</p>
               </div>
 
@@ -296,41 +320,87 @@ export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
                   className="peer w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-3 outline-none focus:border-rose-300 transition-all font-serif-elegant placeholder-transparent tracking-wide disabled:opacity-50"
                 />
                 <label className="absolute left-2 -top-5 text-rose-200/40 text-xs transition-all peer-placeholder-shown:text-base peer-placeholder-shown:top-2 peer-placeholder-shown:text-rose-200/30 peer-focus:-top-5 peer-focus:text-xs peer-focus:text-rose-300 font-handwriting">
-                  请输入要定制的id (例如：Xyza)
+                  自定义链接 id (例如：Xyza)
                 </label>
               </div>
 
-              {/* 3. 上传区域 */}
-              <div className="group relative">
-                <div className={`
-                    relative border border-dashed rounded-xl h-36 flex flex-col items-center justify-center transition-all duration-300 overflow-hidden
-                    ${files.length > 0 ? 'border-rose-400/50 bg-rose-500/10' : 'border-rose-200/20 hover:border-rose-300/40 hover:bg-white/5'}
-                `}>
-                    <input 
-                        type="file" 
-                        multiple 
-                        accept="image/*"
-                        onChange={handleFileChange}
-                        disabled={status === 'uploading' || status === 'checking'}
-                        className="absolute inset-0 opacity-0 cursor-pointer z-10 disabled:cursor-not-allowed"
-                    />
-                    
-                    {files.length > 0 ? (
-                        <div className="text-center animate-in zoom-in duration-300">
-                             <div className="text-2xl mb-1">📸</div>
-                             <p className="text-rose-100 font-serif-elegant text-lg">{files.length} 张照片</p>
-                             <p className="text-rose-300/50 text-xs mt-1 font-handwriting">已准备好上传</p>
-                        </div>
-                    ) : (
-                        <div className="text-center group-hover:scale-105 transition-transform duration-300">
-                            <div className="text-rose-200/40 text-2xl mb-2">✦</div>
-                            <p className="text-rose-100/70 text-lg font-handwriting tracking-wider">点击选择照片</p>
-                            <p className="text-rose-200/30 text-[10px] mt-1 font-serif-elegant">至多上传15张</p>
-                        </div>
-                    )}
-                </div>
+              {/* 收礼人 / 署名 / 寄语 */}
+              <GiftDetailsFields
+                value={details}
+                onChange={setDetails}
+                disabled={status === 'uploading' || status === 'checking'}
+              />
+
+              {/* 语音留言 */}
+              <div className="space-y-2">
+                <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">语音留言 (可选，{MAX_VOICE_NOTE_SECONDS} 秒以内，树亮起后 TA 可以点开听)</p>
+                <VoiceNoteRecorder
+                  value={voiceNote}
+                  onChange={setVoiceNote}
+                  maxSeconds={MAX_VOICE_NOTE_SECONDS}
+                  disabled={status === 'uploading' || status === 'checking'}
+                />
               </div>
 
+              {/* 背景音乐 */}
+              <MusicPicker
+                value={music}
+                onChange={setMusic}
+                disabled={status === 'uploading' || status === 'checking'}
+              />
+
+              {/* 树的轮廓、照片挂法和布局 */}
+              {sceneLook && onSceneLookChange && (
+                <SceneLookFields
+                  value={sceneLook}
+                  onChange={onSceneLookChange}
+                  disabled={status === 'uploading' || status === 'checking'}
+                />
+              )}
+
+              {/* 定时开启 */}
+              <UnlockTimeField
+                value={unlockAt}
+                onChange={setUnlockAt}
+                disabled={status === 'uploading' || status === 'checking'}
+              />
+
+              {/* 口令保护 */}
+              <PassphraseField
+                value={passphrase}
+                onChange={setPassphrase}
+                disabled={status === 'uploading' || status === 'checking'}
+              />
+
+              {/* 3. 上传区域：选好照片后可以调整顺序、给每张写题字 */}
+              {photos.length > 0 ? (
+                <GiftPhotoList
+                  photos={photos}
+                  onChange={setPhotos}
+                  disabled={status === 'uploading' || status === 'checking'}
+                  uploadStates={status === 'uploading' || status === 'error' ? uploadStates : undefined}
+                />
+              ) : (
+                <div className="group relative">
+                  <div className="relative border border-dashed rounded-xl h-36 flex flex-col items-center justify-center transition-all duration-300 overflow-hidden border-rose-200/20 hover:border-rose-300/40 hover:bg-white/5">
+                      <input 
+                          type="file" 
+                          multiple 
+                          accept={PHOTO_ACCEPT}
+                          onChange={handleFileChange}
+                          disabled={status === 'uploading' || status === 'checking' || isProcessingPhotos}
+                          className="absolute inset-0 opacity-0 cursor-pointer z-10 disabled:cursor-not-allowed"
+                      />
+
+                      <div className="text-center group-hover:scale-105 transition-transform duration-300">
+                          <div className="text-rose-200/40 text-2xl mb-2">✦</div>
+                          <p className="text-rose-100/70 text-lg font-handwriting tracking-wider">{isProcessingPhotos ? '正在处理照片...' : '点击选择照片或短视频'}</p>
+                          <p className="text-rose-200/30 text-[10px] mt-1 font-serif-elegant">至多上传{MAX_MANIFEST_PHOTOS}张，可为每张写一句题字</p>
+                      </div>
+                  </div>
+                </div>
+              )}
+
               {/* 4. 按钮与进度 */}
               <div className="pt-2">
                 {(status === 'uploading' || status === 'checking') && (
@@ -364,6 +434,15 @@ export const GiftLinkGenerator: React.FC<Props> = ({ onSuccess }) => {
                       '确认生成'
                   )}
                 </button>
+
+                {status === 'uploading' && (
+                  <button
+                    onClick={cancelUpload}
+                    className="w-full mt-3 text-rose-200/50 hover:text-rose-100 text-xs tracking-widest font-handwriting transition-colors"
+                  >
+                    取消上传
+                  </button>
+                )}
                 
                 {status === 'error' && (
                   <p className="mt-4 text-red-300 text-xs text-center font-light animate-shake font-handwriting tracking-wide">
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { MAX_CAPTION_LENGTH, MAX_MANIFEST_CLIPS, MAX_MANIFEST_PHOTOS, MAX_PHOTO_VOICE_NOTE_SECONDS } from '../services/giftManifest';
+import type { FileUploadState } from '../services/photoUpload';
+import { PHOTO_ACCEPT, describeRejectedMedia, normalizeMediaFiles } from '../utils/imageNormalize';
+import type { PhotoCrop } from '../utils/photoCrop';
+import { MediaKind, getMediaKind } from '../utils/videoClip';
+import { CroppedPhoto, PhotoCropEditor } from './PhotoCropEditor';
+import { EditableVoiceNote, VoiceNoteRecorder, releaseEditableVoiceNote } from './VoiceNoteRecorder';
+
+// 可编辑的照片条目：已上传的照片只有 url；新加入的照片带着 file，url 是本地 blob 预览
+// kind 为 video 的条目是录好的短片，预览和树上都按视频播放
+// 口令保护的礼赠：url 指向密文，previewUrl 是解密后的本地 blob
+export interface EditablePhoto {
+  key: string;
+  url: string;
+  file?: File;
+  kind: MediaKind;
+  previewUrl?: string;
+  caption: string;
+  crop: PhotoCrop | null;
+  /** 聚焦这张照片时播放的语音 */
+  voiceNote: EditableVoiceNote | null;
+}
+
+let photoKeySeed = 0;
+export const createEditablePhoto = (
+  source: string | File,
+  extra: Partial<Pick<EditablePhoto, 'kind' | 'previewUrl' | 'caption' | 'crop' | 'voiceNote'>> = {},
+): EditablePhoto => ({
+  key: `photo-${++photoKeySeed}`,
+  url: typeof source === 'string' ? source : URL.createObjectURL(source),
+  file: typeof source === 'string' ? undefined : source,
+  kind: typeof source === 'string' ? extra.kind || 'image' : getMediaKind(source),
+  previewUrl: extra.previewUrl,
+  caption: extra.caption || '',
+  crop: extra.crop || null,
+  voiceNote: extra.voiceNote || null,
+});
+
+export const releaseEditablePhoto = (photo: EditablePhoto) => {
+  if (photo.file) URL.revokeObjectURL(photo.url);
+  if (photo.previewUrl) URL.revokeObjectURL(photo.previewUrl);
+  releaseEditableVoiceNote(photo.voiceNote);
+};
+
+export const getPhotoPreviewUrl = (photo: EditablePhoto) => photo.previewUrl || photo.url;
+
+interface Props {
+  photos: EditablePhoto[];
+  onChange: (photos: EditablePhoto[]) => void;
+  disabled?: boolean;
+  /** 上传中每张照片的进度，按 EditablePhoto.key 索引 */
+  uploadStates?: Record<string, FileUploadState>;
+}
+
+const UPLOAD_LABELS: Partial<Record<FileUploadState['status'], string>> = {
+  preparing: '压缩中',
+  retrying: '重试中',
+  failed: '上传失败',
+};
+
+const UploadBadge: React.FC<{ state: FileUploadState }> = ({ state }) => {
+  const fraction = state.status === 'done' ? 1 : state.total > 0 ? state.loaded / state.total : 0;
+  const label = state.reused ? '已复用' : UPLOAD_LABELS[state.status];
+  return (
+    <div className="absolute inset-x-1 bottom-5 space-y-0.5 pointer-events-none">
+      {label && <p className={`text-[9px] text-center ${state.status === 'failed' ? 'text-red-300' : 'text-white/80'}`}>{label}</p>}
+      <div className="h-0.5 bg-black/40 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${state.status === 'failed' ? 'bg-red-400' : 'bg-gradient-to-r from-rose-400 to-purple-400'}`}
+          style={{ width: `${Math.round(fraction * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+// 照片墙：增加、删除、调整顺序和构图，每张照片下方可以写一句题字、配一段语音
+export const GiftPhotoList: React.FC<Props> = ({ photos, onChange, disabled, uploadStates }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [croppingKey, setCroppingKey] = useState<string | null>(null);
+  const croppingPhoto = photos.find(photo => photo.key === croppingKey);
+  const remaining = MAX_MANIFEST_PHOTOS - photos.length;
+
+  const handleAdd = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (files.length > remaining) {
+      alert(`为了保证体验，最多只能上传 ${MAX_MANIFEST_PHOTOS} 张照片哦`);
+    }
+    // HEIC 转码、EXIF 方向摆正、视频录成短片；识别不了的文件提示用户
+    setIsProcessing(true);
+    const clipCount = photos.filter(photo => photo.kind === 'video').length;
+    const result = await normalizeMediaFiles(files.slice(0, remaining), { maxClips: MAX_MANIFEST_CLIPS - clipCount });
+    setIsProcessing(false);
+    const notice = describeRejectedMedia(result, MAX_MANIFEST_CLIPS);
+    if (notice) alert(notice);
+    onChange([...photos, ...result.files.map(file => createEditablePhoto(file))]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+    const next = [...photos];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const setCaption = (index: number, caption: string) =>
+    onChange(photos.map((photo, i) => (i === index ? { ...photo, caption } : photo)));
+
+  const setVoiceNote = (key: string, voiceNote: EditableVoiceNote | null) =>
+    onChange(photos.map(photo => (photo.key === key ? { ...photo, voiceNote } : photo)));
+
+  const setCrop = (key: string, crop: PhotoCrop) => {
+    onChange(photos.map(photo => (photo.key === key ? { ...photo, crop } : photo)));
+    setCroppingKey(null);
+  };
+
+  const remove = (index: number) => {
+    releaseEditablePhoto(photos[index]);
+    onChange(photos.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {photos.map((photo, i) => (
+        <div key={photo.key} className="space-y-1">
+          <div className="relative aspect-[3/4] rounded-lg overflow-hidden border border-rose-200/20 bg-black/30 group">
+            <CroppedPhoto src={getPhotoPreviewUrl(photo)} kind={photo.kind} crop={photo.crop} />
+            <span className="absolute top-1 left-1 text-[9px] text-white/80 bg-black/50 rounded px-1 font-serif-elegant">{photo.kind === 'video' ? `▶ ${i + 1}` : i + 1}</span>
+            {photo.file && <span className="absolute top-1 right-6 text-[9px] text-[#FFD700] bg-black/50 rounded px-1">新</span>}
+            {uploadStates?.[photo.key] && uploadStates[photo.key].status !== 'pending' && <UploadBadge state={uploadStates[photo.key]} />}
+            <button
+              onClick={() => remove(i)}
+              disabled={disabled}
+              className="absolute top-1 right-1 w-4 h-4 rounded-full bg-black/60 text-white/80 text-[9px] leading-none hover:bg-rose-500 disabled:opacity-30"
+            >
+              ✕
+            </button>
+            <div className="absolute bottom-0 inset-x-0 flex justify-between bg-gradient-to-t from-black/70 to-transparent px-1 pb-0.5">
+              <button onClick={() => move(i, -1)} disabled={disabled || i === 0} className="text-white/80 text-xs disabled:opacity-20">◀</button>
+              <button onClick={() => setCroppingKey(photo.key)} disabled={disabled} title="调整构图" className="text-white/80 text-[10px] disabled:opacity-20">✂</button>
+              <button onClick={() => move(i, 1)} disabled={disabled || i === photos.length - 1} className="text-white/80 text-xs disabled:opacity-20">▶</button>
+            </div>
+          </div>
+          <input
+            type="text"
+            placeholder="写一句题字"
+            value={photo.caption}
+            maxLength={MAX_CAPTION_LENGTH}
+            onChange={(e) => setCaption(i, e.target.value)}
+            disabled={disabled}
+            className="w-full bg-transparent border-b border-rose-200/10 text-rose-50 text-[10px] px-1 py-0.5 outline-none focus:border-rose-300 font-handwriting placeholder:text-rose-200/30 disabled:opacity-50"
+          />
+          <VoiceNoteRecorder
+            compact
+            value={photo.voiceNote}
+            onChange={(note) => setVoiceNote(photo.key, note)}
+            maxSeconds={MAX_PHOTO_VOICE_NOTE_SECONDS}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      {remaining > 0 && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isProcessing}
+          className="aspect-[3/4] rounded-lg border border-dashed border-rose-200/30 text-rose-100/60 hover:bg-white/5 transition-colors flex flex-col items-center justify-center gap-1 disabled:opacity-40"
+        >
+          <span className="text-xl">{isProcessing ? '…' : '＋'}</span>
+          <span className="text-[10px] font-handwriting">{isProcessing ? '正在处理照片' : `还可添加 ${remaining} 张`}</span>
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" multiple accept={PHOTO_ACCEPT} onChange={handleAdd} className="hidden" />
+
+      {croppingPhoto && (
+        <PhotoCropEditor
+          src={getPhotoPreviewUrl(croppingPhoto)}
+          kind={croppingPhoto.kind}
+          crop={croppingPhoto.crop}
+          onConfirm={(crop) => setCrop(croppingPhoto.key, crop)}
+          onCancel={() => setCroppingKey(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,34 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import React, { useRef, useMemo, useCallback } from 'react';
+import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types';
+import { LAYOUT_STREAMS, createSeededRandom } from '../utils/math';
+import { Formation, TREE_FORMATION, flushMorph, sampleFormationPoints, useFormationMorph } from '../utils/formations';
+import { DEFAULT_SCENE_THEME_ID, SceneThemeId, useThemeColors } from '../utils/themes';
+import { DEFAULT_TREE_SHAPE_ID, TreeShapeId, getTreeShape, treeEnvelopeAt, treeYAt } from '../utils/treeShapes';
 
 const COUNT = 2000;
+const SPRING_STRENGTH = 0.01;
+const FRICTION = 0.92;
+// Steady-state offset of the old per-particle tangential push (0.0005 / SPRING_STRENGTH)
+const SPIN_OFFSET = 0.05;
 
 interface GoldDustProps {
   treeState: TreeState;
+  // What the particles gather into; around text and shapes the dust forms a loose halo
+  formation?: Formation;
+  // Scene theme; the dust color fades when it changes
+  theme?: SceneThemeId;
+  // Tree silhouette the dust cone hugs
+  treeShape?: TreeShapeId;
+  // Gift layout seed, so the sender and recipient see the same dust
+  layoutSeed?: number;
 }
 
-export const GoldDust: React.FC<GoldDustProps> = ({ treeState }) => {
+export const GoldDust: React.FC<GoldDustProps> = ({ treeState, formation = TREE_FORMATION, theme = DEFAULT_SCENE_THEME_ID, treeShape = DEFAULT_TREE_SHAPE_ID, layoutSeed = 0 }) => {
   const pointsRef = useRef<THREE.Points>(null);
-  const progressRef = useRef(0);
+  const materialRef = useRef<THREE.PointsMaterial>(null);
+  const themeColors = useThemeColors(theme);
 
   const glowTexture = useMemo(() => {
     const canvas = document.createElement('canvas');
@@ -35,103 +52,101 @@ export const GoldDust: React.FC<GoldDustProps> = ({ treeState }) => {
   const data = useMemo(() => {
     const chaos = new Float32Array(COUNT * 3);
     const target = new Float32Array(COUNT * 3);
-    const current = new Float32Array(COUNT * 3);
-    const velocities = new Float32Array(COUNT * 3);
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.goldDust);
+    const shape = getTreeShape(treeShape);
     
     for (let i = 0; i < COUNT; i++) {
       // Larger chaos spread
-      chaos[i * 3] = (Math.random() - 0.5) * 40;
-      chaos[i * 3 + 1] = (Math.random() - 0.5) * 40;
-      chaos[i * 3 + 2] = (Math.random() - 0.5) * 25;
+      chaos[i * 3] = (random() - 0.5) * 40;
+      chaos[i * 3 + 1] = (random() - 0.5) * 40;
+      chaos[i * 3 + 2] = (random() - 0.5) * 25;
+
+      // Target cone slightly wider than the tree silhouette
+      const relH = random();
+      const radius = treeEnvelopeAt(shape, relH) * 1.05 + 1.0;
+      const angle = (relH - 0.5) * shape.height * 2 + (i % 2 === 0 ? 0 : Math.PI);
 
-      // Larger target cone
-      const h = (Math.random() - 0.5) * 20; // Height spread +/- 10
-      const relH = (h + 10) / 20; 
-      // Base radius ~10, Top ~1
-      const radius = (1 - relH) * 9.5 + 1.0; 
-      const angle = h * 2 + (i % 2 === 0 ? 0 : Math.PI); 
-      
       target[i * 3] = Math.cos(angle) * radius;
-      target[i * 3 + 1] = h + 5; // Lift up to center on tree center (approx y=5)
+      target[i * 3 + 1] = treeYAt(shape, relH);
       target[i * 3 + 2] = Math.sin(angle) * radius;
-
-      current[i * 3] = chaos[i * 3];
-      current[i * 3 + 1] = chaos[i * 3 + 1];
-      current[i * 3 + 2] = chaos[i * 3 + 2];
-    }
-    return { chaos, target, current, velocities };
-  }, []);
-
-  useFrame((state, delta) => {
-    if (!pointsRef.current) return;
-
-    const targetP = treeState === TreeState.FORMED ? 1 : 0;
-    progressRef.current = THREE.MathUtils.lerp(progressRef.current, targetP, delta * 3.0);
-    const p = progressRef.current;
-    
-    const positionsAttribute = pointsRef.current.geometry.attributes.position;
-    
-    for (let i = 0; i < COUNT; i++) {
-      const idx = i * 3;
-      
-      const homeX = data.chaos[idx] * (1 - p) + data.target[idx] * p;
-      const homeY = data.chaos[idx + 1] * (1 - p) + data.target[idx + 1] * p;
-      const homeZ = data.chaos[idx + 2] * (1 - p) + data.target[idx + 2] * p;
-
-      let px = positionsAttribute.getX(i);
-      let py = positionsAttribute.getY(i);
-      let pz = positionsAttribute.getZ(i);
-
-      // Physics - Very loose springs for slow, floating dust
-      const springStr = 0.01; 
-      data.velocities[idx] += (homeX - px) * springStr;
-      data.velocities[idx + 1] += (homeY - py) * springStr;
-      data.velocities[idx + 2] += (homeZ - pz) * springStr;
-
-      if (p > 0.8) {
-        // Microscopic spiral spin
-        const angle = Math.atan2(pz, px);
-        const tangX = -Math.sin(angle);
-        const tangZ = Math.cos(angle);
-        
-        data.velocities[idx] += tangX * 0.0005;
-        data.velocities[idx + 2] += tangZ * 0.0005;
-      }
-
-      // High friction for suspended feel
-      data.velocities[idx] *= 0.92;
-      data.velocities[idx + 1] *= 0.92;
-      data.velocities[idx + 2] *= 0.92;
-
-      px += data.velocities[idx];
-      py += data.velocities[idx + 1];
-      pz += data.velocities[idx + 2];
-
-      positionsAttribute.setXYZ(i, px, py, pz);
     }
-
-    positionsAttribute.needsUpdate = true;
+    return { chaos, target };
+  }, [treeShape, layoutSeed]);
+
+  const shapeTarget = useMemo(() => formation.kind === 'tree'
+    ? null
+    : sampleFormationPoints(formation, COUNT, createSeededRandom(layoutSeed, LAYOUT_STREAMS.goldDust), { scale: 1.15, depth: 4 }),
+  [formation, layoutSeed]);
+  const morph = useFormationMorph(treeState === TreeState.FORMED ? shapeTarget ?? data.target : data.chaos, data.chaos);
+
+  // Every particle follows the same damped spring towards its target, so the
+  // spring is solved once on the CPU (as morph.progress) and the per-particle mix runs in the shader.
+  const spring = useRef({ morphVelocity: 0, spin: 0, spinVelocity: 0 });
+  const uniforms = useMemo(() => ({
+    uMorph: { value: 0 },
+    uSpin: { value: 0 },
+  }), []);
+
+  const handleBeforeCompile = useCallback((shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('void main() {', `
+        attribute vec3 aFrom;
+        uniform float uMorph;
+        uniform float uSpin;
+        void main() {`)
+      .replace('#include <begin_vertex>', `
+        vec3 transformed = mix( aFrom, position, uMorph );
+        // Microscopic spiral spin: a tiny tangential offset once the tree has formed
+        float spinAngle = atan( transformed.z, transformed.x );
+        transformed.xz += vec2( -sin( spinAngle ), cos( spinAngle ) ) * ${SPIN_OFFSET.toFixed(3)} * uSpin;`);
+  }, [uniforms]);
+
+  useFrame(() => {
+    // Retargeting resets morph.progress to 0; the spring carries it back to 1
+    flushMorph(morph, pointsRef.current?.geometry);
+
+    // Physics - Very loose springs for slow, floating dust, with high friction for a suspended feel
+    const s = spring.current;
+    s.morphVelocity = (s.morphVelocity + (1 - morph.progress) * SPRING_STRENGTH) * FRICTION;
+    morph.progress += s.morphVelocity;
+    const formed = treeState === TreeState.FORMED && morph.progress > 0.8;
+    s.spinVelocity = (s.spinVelocity + ((formed ? 1 : 0) - s.spin) * SPRING_STRENGTH) * FRICTION;
+    s.spin += s.spinVelocity;
+
+    uniforms.uMorph.value = morph.progress;
+    materialRef.current?.color.copy(themeColors.dust);
+    uniforms.uSpin.value = s.spin;
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
+    // position holds the current target, aFrom where the particles set off from
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry key={`${treeShape}-${layoutSeed}`}>
         <bufferAttribute
           attach="attributes-position"
           count={COUNT}
-          array={data.current}
+          array={morph.to}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-aFrom"
+          count={COUNT}
+          array={morph.from}
           itemSize={3}
         />
       </bufferGeometry>
       <pointsMaterial
+        ref={materialRef}
         map={glowTexture}
         size={0.25} 
-        color="#FFD700"
+        color={themeColors.dust}
         transparent={true}
         opacity={0.9}
         sizeAttenuation={true}
         blending={THREE.AdditiveBlending}
         depthWrite={false}
+        onBeforeCompile={handleBeforeCompile}
       />
     </points>
   );
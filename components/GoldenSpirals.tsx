@@ -2,15 +2,29 @@ import React, { useMemo, useRef, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types';
-import { randomPointInSphere } from '../utils/math';
+import { LAYOUT_STREAMS, createSeededRandom, randomPointInSphere } from '../utils/math';
+import { readMusicBands } from '../utils/musicAnalyser';
+import { Formation, TREE_FORMATION, flushMorph, sampleFormationPoints, settleFacing, useFormationMorph } from '../utils/formations';
+import { DEFAULT_SCENE_THEME_ID, SceneThemeId, useThemeColors } from '../utils/themes';
+import { DEFAULT_TREE_SHAPE_ID, TreeShapeId, getTreeShape, spiralAngleAt, treeEnvelopeAt, treeYAt } from '../utils/treeShapes';
 
 interface GoldenSpiralsProps {
   treeState: TreeState;
+  // What the particles gather into; outside the tree the strands trace the outline
+  formation?: Formation;
+  // Scene theme; the strand color fades when it changes
+  theme?: SceneThemeId;
+  // Tree silhouette the strands wrap around
+  treeShape?: TreeShapeId;
+  // Gift layout seed, so the sender and recipient see the same strands
+  layoutSeed?: number;
 }
 
-// Adjusted to fit the larger tree (Radius 9.0)
-const BASE_RADIUS = 9.5; 
-const TOP_RADIUS = 0.5;
+// Strands run from just above the tree bottom to just below the tip (normalized height),
+// floating this far outside the silhouette
+const SPIRAL_BOTTOM = 0.016;
+const SPIRAL_TOP = 0.963;
+const SPIRAL_CLEARANCE = 0.5;
 // For 2 strands, fewer loops looks more elegant/classic
 const LOOPS = 3.5; 
 const STRANDS = 2; // Reverted to 2 strands as requested
@@ -19,11 +33,10 @@ const PARTICLES_PER_STRAND = 2000;
 const TOTAL_PARTICLES = STRANDS * PARTICLES_PER_STRAND;
 const CHAOS_RADIUS = 18; 
 
-export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
+export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState, formation = TREE_FORMATION, theme = DEFAULT_SCENE_THEME_ID, treeShape = DEFAULT_TREE_SHAPE_ID, layoutSeed = 0 }) => {
   const pointsRef = useRef<THREE.Points>(null);
   // We use a ref for the shader material to update uniforms
   const shaderMaterialRef = useRef<THREE.ShaderMaterial>(null);
-  const progressRef = useRef(0);
 
   // Generate the glowing texture
   const glowTexture = useMemo(() => {
@@ -49,8 +62,9 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
   const data = useMemo(() => {
     const chaos = new Float32Array(TOTAL_PARTICLES * 3);
     const target = new Float32Array(TOTAL_PARTICLES * 3);
-    const current = new Float32Array(TOTAL_PARTICLES * 3);
     const phases = new Float32Array(TOTAL_PARTICLES); // For individual twinkling
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.spirals);
+    const shape = getTreeShape(treeShape);
     
     for (let s = 0; s < STRANDS; s++) {
         const strandOffset = (Math.PI * 2 * s) / STRANDS; 
@@ -58,19 +72,20 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
         for (let i = 0; i < PARTICLES_PER_STRAND; i++) {
             // --- Target Calculation (Spiral) ---
             const t = i / PARTICLES_PER_STRAND;
-            // Spans roughly from tree bottom (-3.6) to top (15)
-            const y = -3.5 + t * 18.0; 
-            const currentRadius = THREE.MathUtils.lerp(BASE_RADIUS, TOP_RADIUS, t);
-            const angle = t * Math.PI * 2 * LOOPS + strandOffset;
+            const h = THREE.MathUtils.lerp(SPIRAL_BOTTOM, SPIRAL_TOP, t);
+            const y = treeYAt(shape, h);
+            const currentRadius = treeEnvelopeAt(shape, h) + SPIRAL_CLEARANCE;
+            // On the spiral tree the strands follow the needle band (and the gap opposite it)
+            const angle = (shape.spiralTurns > 0 ? spiralAngleAt(shape, h) : t * Math.PI * 2 * LOOPS) + strandOffset;
 
             const x = Math.cos(angle) * currentRadius;
             const z = Math.sin(angle) * currentRadius;
 
             // Jitter
             const jitterAmt = 0.2;
-            const jx = (Math.random() - 0.5) * jitterAmt;
-            const jy = (Math.random() - 0.5) * jitterAmt;
-            const jz = (Math.random() - 0.5) * jitterAmt;
+            const jx = (random() - 0.5) * jitterAmt;
+            const jy = (random() - 0.5) * jitterAmt;
+            const jz = (random() - 0.5) * jitterAmt;
 
             const idx = (s * PARTICLES_PER_STRAND + i) * 3;
             target[idx] = x + jx;
@@ -78,59 +93,59 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
             target[idx + 2] = z + jz;
 
             // --- Chaos Calculation (Sphere) ---
-            const cPos = randomPointInSphere(CHAOS_RADIUS);
+            const cPos = randomPointInSphere(CHAOS_RADIUS, random);
             chaos[idx] = cPos.x;
             chaos[idx + 1] = cPos.y;
             chaos[idx + 2] = cPos.z;
 
-            // Initial Position (Chaos)
-            current[idx] = chaos[idx];
-            current[idx + 1] = chaos[idx + 1];
-            current[idx + 2] = chaos[idx + 2];
-
             // Random phase 0 to 2PI for twinkling
-            phases[s * PARTICLES_PER_STRAND + i] = Math.random() * Math.PI * 2;
+            phases[s * PARTICLES_PER_STRAND + i] = random() * Math.PI * 2;
         }
     }
-    return { chaos, target, current, phases };
-  }, []);
+    return { chaos, target, phases };
+  }, [treeShape, layoutSeed]);
 
+  const shapeTarget = useMemo(() => formation.kind === 'tree'
+    ? null
+    : sampleFormationPoints(formation, TOTAL_PARTICLES, createSeededRandom(layoutSeed, LAYOUT_STREAMS.spirals), { outline: true, depth: 0.4 }),
+  [formation, layoutSeed]);
+  const morph = useFormationMorph(treeState === TreeState.FORMED ? shapeTarget ?? data.target : data.chaos, data.chaos);
+
+  const themeColors = useThemeColors(theme);
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uTexture: { value: glowTexture },
-    uColor: { value: new THREE.Color("#FFD700") },
-    uGlobalOpacity: { value: 0.0 }
-  }), [glowTexture]);
+    uColor: { value: themeColors.spirals },
+    uGlobalOpacity: { value: 0.0 },
+    uMorph: { value: 0.0 },
+    // Treble energy from the playing music, brightens the twinkle
+    uMusic: { value: 0.0 }
+  }), [glowTexture, themeColors]);
 
   useFrame((state, delta) => {
     if (!pointsRef.current || !shaderMaterialRef.current) return;
 
     // 0. Update Time for Shader (Twinkling)
     shaderMaterialRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+    shaderMaterialRef.current.uniforms.uMusic.value = readMusicBands().treble;
 
     // 1. Transition Progress
-    const targetP = treeState === TreeState.FORMED ? 1 : 0;
-    progressRef.current = THREE.MathUtils.lerp(progressRef.current, targetP, delta * 2.5);
-    const p = progressRef.current;
-    const invP = 1 - p;
-
-    // 2. Interpolate Positions (CPU)
-    const positions = pointsRef.current.geometry.attributes.position;
-    for (let i = 0; i < TOTAL_PARTICLES; i++) {
-        const idx = i * 3;
-        const x = data.chaos[idx] * invP + data.target[idx] * p;
-        const y = data.chaos[idx + 1] * invP + data.target[idx + 1] * p;
-        const z = data.chaos[idx + 2] * invP + data.target[idx + 2] * p;
-        positions.setXYZ(i, x, y, z);
+    // aFrom -> position interpolation happens in the vertex shader; buffers only upload when the target changes
+    flushMorph(morph, pointsRef.current.geometry);
+    morph.progress = THREE.MathUtils.lerp(morph.progress, 1, delta * 2.5);
+    shaderMaterialRef.current.uniforms.uMorph.value = morph.progress;
+
+    // 2. Rotation & Animation
+    // Text and shapes face the camera, only the tree keeps turning
+    if (treeState === TreeState.FORMED && formation.kind !== 'tree') {
+        pointsRef.current.rotation.y = settleFacing(pointsRef.current.rotation.y, delta * 2.0);
+    } else {
+        pointsRef.current.rotation.y += delta * 0.1;
     }
-    positions.needsUpdate = true;
-
-    // 3. Rotation & Animation
-    pointsRef.current.rotation.y += delta * 0.1;
     // Gentle bobbing
     pointsRef.current.position.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.2;
 
-    // 4. Opacity Transition via Uniform
+    // 3. Opacity Transition via Uniform
     // When chaotic, hide slightly; when formed, full brightness
     const targetOpacity = treeState === TreeState.FORMED ? 1.0 : 0.0; 
     shaderMaterialRef.current.uniforms.uGlobalOpacity.value = THREE.MathUtils.lerp(
@@ -141,12 +156,19 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
+    // position holds the current target, aFrom where the particles set off from
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry key={`${treeShape}-${layoutSeed}`}>
         <bufferAttribute 
             attach="attributes-position" 
             count={TOTAL_PARTICLES} 
-            array={data.current} 
+            array={morph.to} 
+            itemSize={3} 
+        />
+        <bufferAttribute 
+            attach="attributes-aFrom" 
+            count={TOTAL_PARTICLES} 
+            array={morph.from} 
             itemSize={3} 
         />
         <bufferAttribute 
@@ -164,11 +186,15 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
         blending={THREE.AdditiveBlending}
         vertexShader={`
           uniform float uTime;
+          uniform float uMusic;
+          uniform float uMorph;
           attribute float aPhase;
+          attribute vec3 aFrom;
           varying float vAlpha;
           
           void main() {
-            vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+            vec3 pos = mix(aFrom, position, uMorph);
+            vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
             gl_Position = projectionMatrix * mvPosition;
             
             // Size attenuation
@@ -184,6 +210,8 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
 
             // Increased base brightness from 0.3 to 0.6
             vAlpha = 0.6 + 0.4 * blink;
+            // Music: the lit LEDs flare brighter on the treble
+            vAlpha *= 1.0 + uMusic * 1.2 * blink;
           }
         `}
         fragmentShader={`
@@ -2,16 +2,26 @@ import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TreeState } from '../types';
+import { LAYOUT_STREAMS, createSeededRandom } from '../utils/math';
+import { readMusicBands } from '../utils/musicAnalyser';
+import { useDrawFraction } from '../utils/quality';
+import { DEFAULT_SCENE_THEME_ID, SceneThemeId, useThemeColors } from '../utils/themes';
 
 interface GroundRipplesProps {
   treeState: TreeState;
+  // Scene theme; the ripple colors fade when it changes
+  theme?: SceneThemeId;
+  // Gift layout seed, so the sender and recipient see the same ripples
+  layoutSeed?: number;
+  // Quality tier: fraction of the points actually drawn
+  particleFraction?: number;
 }
 
 // Reduced count by 20% (450,000 * 0.8 = 360,000)
 const COUNT = 360000; 
 const RADIUS = 58; 
 
-export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
+export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState, theme = DEFAULT_SCENE_THEME_ID, layoutSeed = 0, particleFraction = 1 }) => {
   const pointsRef = useRef<THREE.Points>(null);
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
   const opacityRef = useRef(0);
@@ -19,10 +29,11 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
   const data = useMemo(() => {
     const positions = new Float32Array(COUNT * 3);
     const randoms = new Float32Array(COUNT);
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.ripples);
 
     for (let i = 0; i < COUNT; i++) {
-      const r = Math.sqrt(Math.random()) * RADIUS; 
-      const theta = Math.random() * Math.PI * 2;
+      const r = Math.sqrt(random()) * RADIUS; 
+      const theta = random() * Math.PI * 2;
       
       const x = r * Math.cos(theta);
       const z = r * Math.sin(theta);
@@ -32,18 +43,22 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
       positions[i * 3 + 1] = y;
       positions[i * 3 + 2] = z;
 
-      randoms[i] = Math.random();
+      randoms[i] = random();
     }
     return { positions, randoms };
-  }, []);
+  }, [layoutSeed]);
 
+  const themeColors = useThemeColors(theme);
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uGlobalOpacity: { value: 0 },
-    uColorDeep: { value: new THREE.Color("#444444") }, 
-    // Reduced high brightness by 20% (#FFFFFF -> #CCCCCC)
-    uColorHigh: { value: new THREE.Color("#CCCCCC") },    
-  }), []);
+    uColorDeep: { value: themeColors.ripplesDeep },
+    uColorHigh: { value: themeColors.ripplesHigh },
+    // Bass energy from the playing music, swells the waves
+    uBass: { value: 0 },
+  }), [themeColors]);
+
+  const geometryRef = useDrawFraction(COUNT, particleFraction);
 
   useFrame((state, delta) => {
     if (shaderRef.current) {
@@ -52,6 +67,7 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
       const targetOpacity = treeState === TreeState.FORMED ? 1.0 : 0.0;
       opacityRef.current = THREE.MathUtils.lerp(opacityRef.current, targetOpacity, delta * 2.5);
       shaderRef.current.uniforms.uGlobalOpacity.value = opacityRef.current;
+      shaderRef.current.uniforms.uBass.value = readMusicBands().bass;
       
       if (pointsRef.current) {
           pointsRef.current.rotation.y = -state.clock.elapsedTime * 0.012;
@@ -62,7 +78,7 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
   return (
     <group position={[0, -5.5, 0]} rotation={[20 * (Math.PI / 180), 0, 0]}>
         <points ref={pointsRef}>
-        <bufferGeometry>
+        <bufferGeometry key={layoutSeed} ref={geometryRef}>
             <bufferAttribute attach="attributes-position" count={COUNT} array={data.positions} itemSize={3} />
             <bufferAttribute attach="attributes-aRandom" count={COUNT} array={data.randoms} itemSize={1} />
         </bufferGeometry>
@@ -75,6 +91,7 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
             vertexShader={`
             uniform float uTime;
             uniform float uGlobalOpacity;
+            uniform float uBass;
             attribute float aRandom;
             
             varying float vAlpha;
@@ -99,7 +116,7 @@ export const GroundRipples: React.FC<GroundRipplesProps> = ({ treeState }) => {
                 float noise = sin(r * 0.7 + uTime * 0.25) * sin(angle * 4.0);
                 
                 float height = wave + noise * 0.25; 
-                pos.y += height * 0.8;
+                pos.y += height * 0.8 * (1.0 + uBass * 1.2);
 
                 vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
                 gl_Position = projectionMatrix * mvPosition;
@@ -7,6 +7,8 @@ interface HandControllerProps {
   onZoomChange: (factor: number) => void;
   onRotateChange: (velocity: number) => void;
   onPhotoFocusChange: (isFocused: boolean) => void;
+  // ✌️ switches to the next formation (tree, text, heart, star)
+  onFormationCycle?: () => void;
 }
 
 // --- Configuration ---
@@ -16,12 +18,14 @@ const DETECTION_INTERVAL = 25; // Faster detection for better responsiveness
 const ROTATION_SENSITIVITY = 12.0; 
 const INERTIA_DECAY = 0.90;      
 const ZOOM_SENSITIVITY = 6.0;
+// Pose detection flickers through UNKNOWN, so one ✌️ must not switch twice
+const FORMATION_CYCLE_COOLDOWN = 1500;
 
 // 🟢 阿里云 OSS 资源根目录
 const OSS_BASE = "https://walabox-assets.oss-cn-beijing.aliyuncs.com/";
 
 type HandMode = 'IDLE' | 'NAVIGATION' | 'SELECTION';
-type Pose = 'OPEN' | 'FIST' | 'PINCH_3_OPEN' | 'POINTING' | 'UNKNOWN';
+type Pose = 'OPEN' | 'FIST' | 'PINCH_3_OPEN' | 'POINTING' | 'VICTORY' | 'UNKNOWN';
 
 export const HandController: React.FC<HandControllerProps> = (props) => {
   const { onStateChange, onZoomChange, onRotateChange, onPhotoFocusChange } = props;
@@ -48,6 +52,9 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
   // Zoom State
   const currentZoomFactor = useRef(0.5); 
 
+  // Formation State
+  const lastFormationCycleAt = useRef(0);
+
   useEffect(() => {
     let isActive = true;
     let stream: MediaStream | null = null;
@@ -195,12 +202,18 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
           return 'POINTING';
       }
 
-      // 3. FIST (Aggregate)
+      // 3. VICTORY (Next formation)
+      // Index and middle extended, ring and pinky curled
+      if (indexOut && midOut && ringCurled && pinkyCurled) {
+          return 'VICTORY';
+      }
+
+      // 4. FIST (Aggregate)
       if (indexCurled && midCurled && ringCurled && pinkyCurled) {
           return 'FIST'; 
       }
 
-      // 4. OPEN (Disperse)
+      // 5. OPEN (Disperse)
       if (indexOut && midOut && ringOut && pinkyOut) {
           return 'OPEN';
       }
@@ -260,7 +273,7 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
   };
 
   const processState = (pose: Pose, landmarks: NormalizedLandmark[], scale: number, ctx: CanvasRenderingContext2D) => {
-    const { onStateChange, onPhotoFocusChange, onRotateChange, onZoomChange } = propsRef.current;
+    const { onStateChange, onPhotoFocusChange, onRotateChange, onZoomChange, onFormationCycle } = propsRef.current;
     
     // 1. NAVIGATION (Pinch)
     if (pose === 'PINCH_3_OPEN') {
@@ -303,7 +316,23 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
         return;
     }
     
-    // 3. FIST = AGGREGATE (FORM TREE)
+    // 3. VICTORY = NEXT FORMATION (fires once when the pose starts)
+    if (pose === 'VICTORY') {
+        const now = performance.now();
+        if (previousPose.current !== 'VICTORY' && now - lastFormationCycleAt.current > FORMATION_CYCLE_COOLDOWN) {
+            lastFormationCycleAt.current = now;
+            onFormationCycle?.();
+        }
+        onPhotoFocusChange(false);
+        currentMode.current = 'IDLE';
+
+        lastHandCentroid.current = null;
+        lastHandScale.current = null;
+        previousPose.current = pose;
+        return;
+    }
+
+    // 4. FIST = AGGREGATE (FORM TREE)
     if (pose === 'FIST') {
         onStateChange(TreeState.FORMED);
         onPhotoFocusChange(false); // Stop selecting if forming
@@ -315,7 +344,7 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
         return;
     } 
     
-    // 4. OPEN = DISPERSE (CHAOS)
+    // 5. OPEN = DISPERSE (CHAOS)
     if (pose === 'OPEN') {
         onStateChange(TreeState.CHAOS);
         onPhotoFocusChange(false); // Stop selecting if dispersing
@@ -327,7 +356,7 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
         return;
     }
 
-    // 5. IDLE/UNKNOWN
+    // 6. IDLE/UNKNOWN
     // If we were selecting but lost the pose, stop selecting (fluidity)
     if (currentMode.current === 'SELECTION') {
         onPhotoFocusChange(false);
@@ -0,0 +1,26 @@
+import React from 'react';
+import { createLayoutSeed } from '../services/giftManifest';
+
+interface Props {
+  /** 礼赠的布局种子：决定针叶、装饰和照片挂在树上的位置 */
+  value: number;
+  onChange: (seed: number) => void;
+  disabled?: boolean;
+}
+
+// 换一个种子，背后的预览立刻按新布局重新摆放；收礼人看到的就是保存时的这一种
+export const LayoutSeedField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="flex items-center justify-between gap-3">
+    <div className="space-y-0.5">
+      <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">树的布局</p>
+      <p className="text-rose-200/40 text-[10px] font-handwriting tracking-wide">照片的位置和预览里一模一样 · #{value.toString(36).toUpperCase()}</p>
+    </div>
+    <button
+      onClick={() => onChange(createLayoutSeed())}
+      disabled={disabled}
+      className="px-3 py-1.5 rounded-full border border-rose-200/20 text-rose-100/80 text-xs font-handwriting hover:bg-white/5 disabled:opacity-30 whitespace-nowrap"
+    >
+      🎲 换一种
+    </button>
+  </div>
+);
@@ -1,174 +1,66 @@
 import React, { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { randomPointInSphere } from '../utils/math';
+import { TreePhoto, TreeState } from '../types';
+import { LAYOUT_STREAMS, createSeededRandom, randomPointInSphere } from '../utils/math';
+import { fetchDecryptedMediaUrl } from '../utils/crypto';
+import { PhotoCrop, getCoverCrop } from '../utils/photoCrop';
+import { duckMusic } from '../utils/musicBus';
+import { useDrawFraction } from '../utils/quality';
+import { DEFAULT_PHOTO_PLACEMENT, PhotoPlacement, placePhotos } from '../utils/photoPlacement';
+import { Formation, TREE_FORMATION, flushMorph, sampleFormationPoints, settleFacing, useFormationMorph } from '../utils/formations';
+import { DEFAULT_OCCASION_ID, getOccasion } from '../utils/occasions';
+import { DEFAULT_SCENE_THEME_ID, OrnamentColorRole, SceneThemeId, useThemeColors } from '../utils/themes';
+import { DEFAULT_TREE_TOPPER_ID, TreeTopperId } from '../utils/toppers';
+import { DEFAULT_TREE_SHAPE_ID, TreeShapeId, getTopperPlacement, getTreeShape, pointOnTree, randomPointInTree } from '../utils/treeShapes';
+import { ORNAMENT_TYPES, OrnamentMotion, pickOrnamentType } from './ornaments/registry';
+import { TOPPER_COMPONENTS } from './toppers';
+import { playVoiceNote } from '../utils/voicePlayback';
 
 interface LuxuryTreeProps {
   treeState: TreeState;
   extraRotationVelocity?: React.MutableRefObject<number>;
-  userTextureUrls: string[]; // 传入的可能是 blob: 链接，也可能是 https:// 链接
+  photos: TreePhoto[]; // url 可能是 blob: 链接，也可能是 https:// 链接；caption 写在相框下方
+  photoKey?: CryptoKey | null; // 口令保护的礼赠：远程链接是密文，先解密成 blob 再加载
   isPhotoFocused: boolean;
   zoomFactor: number;
+  /** 照片的挂法和每张挂几次 */
+  photoPlacement?: PhotoPlacement;
+  /** 成形时拼出的造型：树、文字、爱心或星星 */
+  formation?: Formation;
+  /** 场景主题：针叶和装饰的配色，切换时渐变 */
+  theme?: SceneThemeId;
+  /** 树的轮廓，针叶、装饰、照片和树顶装饰都按它摆 */
+  treeShape?: TreeShapeId;
+  /** 树顶装饰：成形为树时放在树尖上 */
+  topper?: TreeTopperId;
+  /** 节日的装饰组合 (注册表里的 id) */
+  ornamentTypes?: readonly string[];
+  /** 礼赠里保存的布局种子：同一个种子总是生成同样的树和同样的照片位置 */
+  layoutSeed?: number;
+  /** 画质档位：针叶实际绘制的比例、装饰球的几何细分 */
+  particleFraction?: number;
+  ornamentSegments?: number;
 }
 
 // ---------------- 常量定义 ----------------
 const NEEDLE_COUNT = 220000;
 const ORNAMENT_COUNT = 650;
-const TREE_HEIGHT = 19.0;
-const TREE_RADIUS = 9.0;
 const CHAOS_RADIUS = 18;
-const TREE_TIERS = 9;
-const TREE_TOP_Y = 0.8 * TREE_HEIGHT;
 const MAX_USER_PHOTOS = 15; // 限制最大照片数量
+// 拍立得下方留白 (题字条) 的位置，相框与聚焦时的大图共用
+const CAPTION_STRIP_W = 1.0;
+const CAPTION_STRIP_H = 0.2;
+const CAPTION_STRIP_Y = -0.696;
+// 相框的基础粗糙度，主题的材质参数乘在上面
+const FRAME_ROUGHNESS = 0.15;
 
-enum OrnamentType {
-  SPHERE = 0,
-  BOX = 1,
-  GEM = 2,
-  USER = 3,
-  HEPTAGRAM = 4
-}
-
-// ---------------- 辅助函数 (保持不变) ----------------
-const createHammeredBumpMap = () => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 1024; canvas.height = 1024;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
-  ctx.fillStyle = '#808080';
-  ctx.fillRect(0, 0, 1024, 1024);
-  for (let i = 0; i < 2000; i++) {
-    const x = Math.random() * 1024;
-    const y = Math.random() * 1024;
-    const r = Math.random() * 20 + 5;
-    const g = ctx.createRadialGradient(x, y, 0, x, y, r);
-    g.addColorStop(0, 'rgba(255, 255, 255, 0.3)');
-    g.addColorStop(1, 'rgba(128, 128, 128, 0)');
-    ctx.fillStyle = g;
-    ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2); ctx.fill();
-  }
-  const tex = new THREE.CanvasTexture(canvas);
-  tex.wrapS = THREE.RepeatWrapping;
-  tex.wrapT = THREE.RepeatWrapping;
-  return tex;
-};
-
-const createGiftWrapBumpMap = () => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 1024; canvas.height = 1024;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
-  ctx.fillStyle = '#808080';
-  ctx.fillRect(0, 0, 1024, 1024);
-  const imgData = ctx.getImageData(0, 0, 1024, 1024);
-  const data = imgData.data;
-  for (let i = 0; i < data.length; i += 4) {
-    const noise = (Math.random() - 0.5) * 20;
-    data[i] = Math.max(0, Math.min(255, 128 + noise));
-    data[i + 1] = Math.max(0, Math.min(255, 128 + noise));
-    data[i + 2] = Math.max(0, Math.min(255, 128 + noise));
-  }
-  ctx.putImageData(imgData, 0, 0);
-  ctx.fillStyle = '#FFFFFF';
-  const ribbonWidth = 150;
-  ctx.fillRect(512 - ribbonWidth / 2, 0, ribbonWidth, 1024);
-  ctx.fillRect(0, 512 - ribbonWidth / 2, 1024, ribbonWidth);
-  const tex = new THREE.CanvasTexture(canvas);
-  return tex;
-};
-
-const createVelvetBumpMap = () => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 512; canvas.height = 512;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
-  const imgData = ctx.createImageData(512, 512);
-  for (let i = 0; i < imgData.data.length; i += 4) {
-    const val = Math.random() * 255;
-    imgData.data[i] = val;
-    imgData.data[i + 1] = val;
-    imgData.data[i + 2] = val;
-    imgData.data[i + 3] = 255;
-  }
-  ctx.putImageData(imgData, 0, 0);
-  const tex = new THREE.CanvasTexture(canvas);
-  tex.wrapS = THREE.RepeatWrapping;
-  tex.wrapT = THREE.RepeatWrapping;
-  tex.repeat.set(4, 4);
-  return tex;
-};
-
-const createGoldLeafMap = () => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 512; canvas.height = 512;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
-  ctx.fillStyle = '#FFFFFF';
-  ctx.fillRect(0, 0, 512, 512);
-  ctx.strokeStyle = '#000000';
-  ctx.lineWidth = 1;
-  for (let i = 0; i < 1000; i++) {
-    const x = Math.random() * 512;
-    const y = Math.random() * 512;
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    ctx.lineTo(x + (Math.random() - 0.5) * 20, y + (Math.random() - 0.5) * 20);
-    ctx.stroke();
-  }
-  const tex = new THREE.CanvasTexture(canvas);
-  return tex;
-};
-
-const SantaHat = () => {
-  const velvetMap = useMemo(() => createVelvetBumpMap(), []);
-  const whiteTrimMap = useMemo(() => createVelvetBumpMap(), []);
-  const redFabricMat = useMemo(() => new THREE.MeshStandardMaterial({
-    color: "#D40000",
-    roughness: 0.9,
-    bumpMap: velvetMap,
-    bumpScale: 0.05,
-  }), [velvetMap]);
-  const whiteFabricMat = useMemo(() => new THREE.MeshStandardMaterial({
-    color: "#ffffff",
-    roughness: 1.0,
-    bumpMap: whiteTrimMap,
-    bumpScale: 0.1,
-  }), [whiteTrimMap]);
-  return (
-    <group position={[0, TREE_TOP_Y + 0.4, 0]} rotation={[0.1, 0, 0.1]} scale={[2.5, 2.5, 2.5]}>
-      <mesh position={[0, 0, 0]} material={whiteFabricMat}>
-        <torusGeometry args={[0.5, 0.2, 16, 32]} />
-      </mesh>
-      <mesh position={[0, 0.8, 0]} material={redFabricMat}>
-        <coneGeometry args={[0.45, 1.8, 64]} />
-      </mesh>
-      <mesh position={[0, 1.7, 0]} material={whiteFabricMat}>
-        <sphereGeometry args={[0.22, 32, 32]} />
-      </mesh>
-    </group>
-  );
-};
+const DEFAULT_ORNAMENT_TYPES = getOccasion(DEFAULT_OCCASION_ID).ornaments;
 
-const createHeptagramShape = () => {
-  const shape = new THREE.Shape();
-  const points = 7;
-  const outerRadiusBase = 1.0;
-  const innerRadiusBase = 0.5;
-  for (let i = 0; i < points * 2; i++) {
-    const angle = (i / (points * 2)) * Math.PI * 2;
-    const isTip = i % 2 === 0;
-    const variance = Math.sin(i * 123.45) * 0.15;
-    const r = isTip ? outerRadiusBase + variance : innerRadiusBase + variance * 0.5;
-    const x = Math.cos(angle) * r;
-    const y = Math.sin(angle) * r;
-    if (i === 0) shape.moveTo(x, y);
-    else shape.lineTo(x, y);
-  }
-  shape.closePath();
-  return shape;
-};
+// 挂照片的拍立得不在注册表里：每张照片一个 instancedMesh，typeIndex 记为 -1
+const PHOTO_ORNAMENT = -1;
 
+// ---------------- 辅助函数 (保持不变) ----------------
 const createPolaroidGeometry = () => {
   // Increased thickness slightly for better "luster" reflection
   const cardW = 1.25; const cardH = 1.65; const cardD = 0.08;
@@ -186,7 +78,12 @@ const createPolaroidGeometry = () => {
   back.translate(0, 0.1, -cardD / 2 - 0.01);
   const backNonIndexed = back.toNonIndexed();
 
-  const totalCount = boxNonIndexed.attributes.position.count + frontNonIndexed.attributes.position.count + backNonIndexed.attributes.position.count;
+  // Caption strip under the image (front only)
+  const strip = new THREE.PlaneGeometry(CAPTION_STRIP_W, CAPTION_STRIP_H);
+  strip.translate(0, CAPTION_STRIP_Y, cardD / 2 + 0.01);
+  const stripNonIndexed = strip.toNonIndexed();
+
+  const totalCount = boxNonIndexed.attributes.position.count + frontNonIndexed.attributes.position.count + backNonIndexed.attributes.position.count + stripNonIndexed.attributes.position.count;
   const positions = new Float32Array(totalCount * 3);
   const normals = new Float32Array(totalCount * 3);
   const finalUVs = new Float32Array(totalCount * 2);
@@ -207,6 +104,12 @@ const createPolaroidGeometry = () => {
   positions.set(backNonIndexed.attributes.position.array, vOffset * 3);
   normals.set(backNonIndexed.attributes.normal.array, vOffset * 3);
   finalUVs.set(backNonIndexed.attributes.uv.array, vOffset * 2);
+  vOffset += backNonIndexed.attributes.position.count;
+
+  // Material 2: The Caption strip
+  positions.set(stripNonIndexed.attributes.position.array, vOffset * 3);
+  normals.set(stripNonIndexed.attributes.normal.array, vOffset * 3);
+  finalUVs.set(stripNonIndexed.attributes.uv.array, vOffset * 2);
 
   const geo = new THREE.BufferGeometry();
   geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
@@ -214,94 +117,151 @@ const createPolaroidGeometry = () => {
   geo.setAttribute('uv', new THREE.BufferAttribute(finalUVs, 2));
   geo.addGroup(0, boxNonIndexed.attributes.position.count, 0);
   geo.addGroup(boxNonIndexed.attributes.position.count, frontNonIndexed.attributes.position.count + backNonIndexed.attributes.position.count, 1);
+  geo.addGroup(vOffset, stripNonIndexed.attributes.position.count, 2);
   return geo;
 };
 
-const randomPointInPineTree = (height: number, maxRadius: number, tiers: number): THREE.Vector3 => {
-  const normalizedH = Math.random();
-  const y = (normalizedH - 0.2) * height;
-  const overallTaper = 1 - normalizedH;
-  const tierPos = normalizedH * tiers;
-  const tierProgress = tierPos % 1;
-  const tierFlare = (1 - tierProgress);
-  const currentMaxRadius = maxRadius * (overallTaper * 0.7 + tierFlare * 0.3 * overallTaper);
-  const r = Math.sqrt(Math.random()) * currentMaxRadius;
-  const angle = Math.random() * Math.PI * 2;
-  const x = Math.cos(angle) * r;
-  const z = Math.sin(angle) * r;
-  return new THREE.Vector3(x, y, z);
+// 题字条：米白纸面 + 手写体，文字过长时自动缩小字号
+const createCaptionTexture = (text: string, width = 512) => {
+  const height = Math.round(width * CAPTION_STRIP_H / CAPTION_STRIP_W);
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#FBF6EA';
+  ctx.fillRect(0, 0, width, height);
+  let fontSize = height * 0.62;
+  const setFont = () => { ctx.font = `${fontSize}px "Great Vibes", "STKaiti", "KaiTi", "Kaiti SC", cursive`; };
+  setFont();
+  while (fontSize > height * 0.3 && ctx.measureText(text).width > width * 0.9) { fontSize *= 0.9; setFont(); }
+  ctx.fillStyle = '#3B2A1A';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, width / 2, height / 2, width * 0.94);
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  tex.anisotropy = 4;
+  return tex;
 };
 
-const applyCoverFor34 = (tex: THREE.Texture) => {
-  const frameAspect = 3 / 4;
-  const img = tex.image as HTMLImageElement;
-  const imgW = img?.width || 1;
-  const imgH = img?.height || 1;
-  const imgAspect = imgW / imgH;
+// 把裁剪框 (原点在左上) 换算成纹理的 repeat/offset (uv 原点在左下)；没有裁剪框时居中裁成 3:4
+const applyCropFor34 = (tex: THREE.Texture, crop?: PhotoCrop | null) => {
+  const media = tex.image as HTMLImageElement | HTMLVideoElement;
+  const imgW = (media instanceof HTMLVideoElement ? media.videoWidth : media?.width) || 1;
+  const imgH = (media instanceof HTMLVideoElement ? media.videoHeight : media?.height) || 1;
+  const { x, y, width, height } = crop || getCoverCrop(imgW / imgH);
   tex.wrapS = THREE.ClampToEdgeWrapping;
   tex.wrapT = THREE.ClampToEdgeWrapping;
-  tex.center.set(0.5, 0.5);
-  if (imgAspect > frameAspect) {
-    const rx = frameAspect / imgAspect;
-    tex.repeat.set(rx, 1);
-    tex.offset.set((1 - rx) * 0.5, 0);
-  } else {
-    const ry = imgAspect / frameAspect;
-    tex.repeat.set(1, ry);
-    tex.offset.set(0, (1 - ry) * 0.5);
-  }
-  tex.needsUpdate = true;
+  tex.center.set(0, 0);
+  tex.repeat.set(width, height);
+  tex.offset.set(x, 1 - y - height);
 };
 
 // ---------------- 主组件 ----------------
-export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotationVelocity, userTextureUrls, isPhotoFocused, zoomFactor }) => {
+export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotationVelocity, photos, photoKey, isPhotoFocused, zoomFactor, photoPlacement = DEFAULT_PHOTO_PLACEMENT, formation = TREE_FORMATION, theme = DEFAULT_SCENE_THEME_ID, treeShape = DEFAULT_TREE_SHAPE_ID, topper = DEFAULT_TREE_TOPPER_ID, ornamentTypes = DEFAULT_ORNAMENT_TYPES, layoutSeed = 0, particleFraction = 1, ornamentSegments = 64 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const needlesRef = useRef<THREE.Points>(null);
   const needlesMaterialRef = useRef<THREE.ShaderMaterial>(null);
   const focusedGroupRef = useRef<THREE.Group>(null);
   const [activeTexture, setActiveTexture] = useState<THREE.Texture | null>(null);
+  const [activeCaption, setActiveCaption] = useState('');
+  const [activeVoiceNote, setActiveVoiceNote] = useState('');
   const { camera } = useThree();
-  const sphereMeshRef = useRef<THREE.InstancedMesh>(null);
-  const boxMeshRef = useRef<THREE.InstancedMesh>(null);
-  const gemMeshRef = useRef<THREE.InstancedMesh>(null);
+  // 下标和 ORNAMENT_TYPES 对应
+  const ornamentMeshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
   const userMeshRefs = useRef<THREE.InstancedMesh[]>([]);
-  const heptagramMeshRef = useRef<THREE.InstancedMesh>(null);
-  const [loadedTextures, setLoadedTextures] = useState<THREE.Texture[]>([]);
+  // 加载成功的纹理，photoIndex 指回 photos 里的原始位置 (用来取题字)
+  const [loadedPhotos, setLoadedPhotos] = useState<{ texture: THREE.Texture; photoIndex: number }[]>([]);
+  const loadedTextures = useMemo(() => loadedPhotos.map(photo => photo.texture), [loadedPhotos]);
+  // 编辑器里每增删一张照片都会整批重新加载，换下来的纹理随即释放
+  useEffect(() => () => loadedTextures.forEach(texture => texture.dispose()), [loadedTextures]);
+
+  // 只在链接变化时重新加载纹理；编辑题字不会触发重新下载
+  const urlKey = (photos || []).slice(0, MAX_USER_PHOTOS).map(photo => photo.url).join('\n');
+  // 题字可能带换行，和裁剪框一样用 JSON 做 key，不能按换行拼接再拆开
+  const captionKey = JSON.stringify((photos || []).slice(0, MAX_USER_PHOTOS).map(photo => photo.caption || ''));
+  const voiceKey = JSON.stringify((photos || []).slice(0, MAX_USER_PHOTOS).map(photo => photo.voiceNote?.url || ''));
+  const kindKey = (photos || []).slice(0, MAX_USER_PHOTOS).map(photo => photo.kind || 'image').join('\n');
+  const cropKey = JSON.stringify((photos || []).slice(0, MAX_USER_PHOTOS).map(photo => photo.crop || null));
 
   // ---------------- 修改后的纹理加载逻辑 ----------------
   // 这个 useEffect 能够同时处理：本地blob预览 和 远程OSS链接
   useEffect(() => {
     // 1. 如果没有 URL，清空纹理
-    if (!userTextureUrls || userTextureUrls.length === 0) {
-      setLoadedTextures([]);
+    if (!urlKey) {
+      setLoadedPhotos([]);
       return;
     }
 
     // 2. 截取前 15 张
-    const limitedUrls = userTextureUrls.slice(0, MAX_USER_PHOTOS);
+    const limitedUrls = urlKey.split('\n');
+    const kinds = kindKey.split('\n');
 
     const loader = new THREE.TextureLoader();
     // 关键：允许加载跨域图片 (对OSS必须，对本地blob无影响)
     loader.setCrossOrigin('anonymous');
 
     let cancelled = false;
+    // 短片的 <video> 和解密出来的 blob 要一直留着播放，换一批照片时再释放
+    const videos: HTMLVideoElement[] = [];
+    const videoBlobUrls: string[] = [];
 
     // 3. 构建加载队列
-    const loadPromises = limitedUrls.map((url) => {
+    const loadPromises = limitedUrls.map(async (url, photoIndex) => {
+      // 【关键判断】：区分本地预览和远程分享
+      // 如果是本地 Blob (预览模式)，千万不能加 ?t=...，否则会破坏 Blob 链接
+      const isLocalPreview = url.startsWith('blob:');
+
+      // 加密的远程照片：先下载解密成本地 blob，加载完成后立即释放
+      let decryptedUrl: string | null = null;
+      if (photoKey && !isLocalPreview) {
+        try {
+          decryptedUrl = await fetchDecryptedMediaUrl(url, photoKey, kinds[photoIndex] === 'video' ? 'video' : 'image');
+        } catch (err) {
+          console.warn(`[Texture Error] Failed to decrypt: ${url}`, err);
+          return null;
+        }
+        // 解密期间已经换了一批照片：cleanup 跑过了，这里自己释放
+        if (cancelled) {
+          URL.revokeObjectURL(decryptedUrl);
+          return null;
+        }
+      }
+
       return new Promise<THREE.Texture | null>((resolve) => {
         
-        let loadUrl = url;
-        
-        // 【关键判断】：区分本地预览和远程分享
-        // 如果是本地 Blob (预览模式)，千万不能加 ?t=...，否则会破坏 Blob 链接
-        const isLocalPreview = url.startsWith('blob:');
+        let loadUrl = decryptedUrl || url;
 
-        if (!isLocalPreview) {
+        if (!isLocalPreview && !decryptedUrl) {
           // 如果是远程链接 (分享模式)，为了解决 CORS 缓存问题，我们追加时间戳
           const separator = url.includes('?') ? '&' : '?';
           loadUrl = `${url}${separator}t=${new Date().getTime()}`;
         }
 
+        // 短片：静音循环播放的 VideoTexture，聚焦时再打开声音
+        if (kinds[photoIndex] === 'video') {
+          if (decryptedUrl) videoBlobUrls.push(decryptedUrl);
+          const video = document.createElement('video');
+          video.crossOrigin = 'anonymous';
+          video.muted = true;
+          video.loop = true;
+          video.playsInline = true;
+          video.preload = 'auto';
+          video.onloadeddata = () => {
+            video.play().catch(() => {});
+            const tex = new THREE.VideoTexture(video);
+            tex.colorSpace = THREE.SRGBColorSpace;
+            resolve(tex);
+          };
+          video.onerror = () => {
+            console.warn(`[Texture Error] Failed to load video: ${loadUrl}`);
+            resolve(null);
+          };
+          video.src = loadUrl;
+          videos.push(video);
+          return;
+        }
+
         // 开始加载
         loader.load(
           loadUrl,
@@ -310,12 +270,14 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
             tex.minFilter = THREE.LinearMipMapLinearFilter;
             tex.magFilter = THREE.LinearFilter;
             tex.generateMipmaps = true;
+            if (decryptedUrl) URL.revokeObjectURL(decryptedUrl);
             resolve(tex);
           },
           undefined,
           (err) => {
             // 如果是 404，通常意味着传入的 url 只是文件名而不是完整链接
             console.warn(`[Texture Error] Failed to load: ${loadUrl}`, err);
+            if (decryptedUrl) URL.revokeObjectURL(decryptedUrl);
             resolve(null);
           }
         );
@@ -324,25 +286,26 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
 
     // 4. 并行加载并过滤
     Promise.all(loadPromises).then((results) => {
-      if (cancelled) return;
-      // 过滤掉 null
-      const successfulTextures = results.filter((tex): tex is THREE.Texture => tex !== null);
-      if (successfulTextures.length > 0) {
-        console.log(`Loaded ${successfulTextures.length} / ${limitedUrls.length} images.`);
+      if (cancelled) {
+        results.forEach(texture => texture?.dispose());
+        return;
       }
-      setLoadedTextures(successfulTextures);
+      // 过滤掉 null
+      const successfulPhotos = results
+        .map((texture, photoIndex) => ({ texture, photoIndex }))
+        .filter((photo): photo is { texture: THREE.Texture; photoIndex: number } => photo.texture !== null);
+      setLoadedPhotos(successfulPhotos);
     });
 
     return () => {
       cancelled = true;
+      videos.forEach(video => { video.pause(); video.removeAttribute('src'); video.load(); });
+      videoBlobUrls.forEach(url => URL.revokeObjectURL(url));
     };
-  }, [userTextureUrls]);
+  }, [urlKey, kindKey, photoKey]);
 
 
   // ---------------- 材质与资源 (保持不变) ----------------
-  const sphereBumpMap = useMemo(() => createHammeredBumpMap(), []);
-  const boxBumpMap = useMemo(() => createGiftWrapBumpMap(), []);
-  const starBumpMap = useMemo(() => createGoldLeafMap(), []);
   const particleTexture = useMemo(() => {
     const canvas = document.createElement('canvas');
     canvas.width = 64; canvas.height = 64;
@@ -357,41 +320,75 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
     return tex;
   }, []);
 
-  const polaroidBaseMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
-    color: "#FFD700",
-    metalness: 1.0,
-    roughness: 0.15,
-    clearcoat: 1.0,
-    clearcoatRoughness: 0.1,
-    envMapIntensity: 3.5,
-    reflectivity: 1.0
-  }), []);
-
-  const focusedFrameMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
-    color: "#FFD700",
-    metalness: 1.0,
-    roughness: 0.15,
-    clearcoat: 1.0,
-    clearcoatRoughness: 0.1,
-    envMapIntensity: 3.5,
-    transparent: true,
-    opacity: 1,
-    depthTest: false,
-    depthWrite: false,
-  }), []);
-
-  const photoMaterials = useMemo(() => loadedTextures.map(tex => {
-    const frameAspect = 3 / 4; const img = tex.image as HTMLImageElement;
-    const imgW = img?.width || 1; const imgH = img?.height || 1;
-    const imgAspect = imgW / imgH;
-    tex.center.set(0.5, 0.5); tex.wrapS = THREE.ClampToEdgeWrapping; tex.wrapT = THREE.ClampToEdgeWrapping;
-    if (imgAspect > frameAspect) tex.repeat.set(frameAspect / imgAspect, 1);
-    else tex.repeat.set(1, imgAspect / frameAspect);
+  // 相框的金属色直接引用正在渐变的主题颜色，和装饰球一样跟着主题走
+  const themeColors = useThemeColors(theme);
+  const polaroidBaseMaterial = useMemo(() => {
+    const material = new THREE.MeshPhysicalMaterial({
+      metalness: 1.0,
+      roughness: FRAME_ROUGHNESS,
+      clearcoat: 1.0,
+      clearcoatRoughness: 0.1,
+      envMapIntensity: 3.5,
+      reflectivity: 1.0
+    });
+    material.color = themeColors.ornaments.metal;
+    return material;
+  }, [themeColors]);
+
+  const focusedFrameMaterial = useMemo(() => {
+    const material = new THREE.MeshPhysicalMaterial({
+      metalness: 1.0,
+      roughness: FRAME_ROUGHNESS,
+      clearcoat: 1.0,
+      clearcoatRoughness: 0.1,
+      envMapIntensity: 3.5,
+      transparent: true,
+      opacity: 1,
+      depthTest: false,
+      depthWrite: false,
+    });
+    material.color = themeColors.ornaments.metal;
+    return material;
+  }, [themeColors]);
+
+  // 调整构图只改 repeat/offset，不会重新加载纹理
+  const crops = useMemo(() => JSON.parse(cropKey) as (PhotoCrop | null)[], [cropKey]);
+  const photoMaterials = useMemo(() => loadedPhotos.map(({ texture: tex, photoIndex }) => {
+    applyCropFor34(tex, crops[photoIndex]);
     return new THREE.MeshStandardMaterial({
       map: tex, metalness: 0.1, roughness: 0.6, color: '#ffffff', side: THREE.DoubleSide,
       emissive: '#000000', emissiveMap: tex, emissiveIntensity: 0.4, toneMapped: false
     });
-  }), [loadedTextures]);
+  }), [loadedPhotos, crops]);
+  // 每次调整构图都会换一批材质：释放旧材质，纹理还在用，不释放
+  useEffect(() => () => photoMaterials.forEach(material => material.dispose()), [photoMaterials]);
+
+  // 没有题字的照片，留白处沿用相框材质
+  const captions = useMemo(() => JSON.parse(captionKey) as string[], [captionKey]);
+  const voiceNotes = useMemo(() => JSON.parse(voiceKey) as string[], [voiceKey]);
+  const captionMaterials = useMemo(() => loadedPhotos.map(({ photoIndex }) => {
+    const caption = captions[photoIndex];
+    const tex = caption ? createCaptionTexture(caption) : null;
+    if (!tex) return polaroidBaseMaterial;
+    return new THREE.MeshStandardMaterial({ map: tex, metalness: 0.0, roughness: 0.9, emissive: '#ffffff', emissiveMap: tex, emissiveIntensity: 0.25, toneMapped: false });
+  }), [loadedPhotos, captions, polaroidBaseMaterial]);
+  // 编辑题字时每敲一个字都会重建，旧的题字纹理和材质随即释放 (相框材质是共用的，不释放)
+  useEffect(() => () => captionMaterials.forEach(material => {
+    if (material === polaroidBaseMaterial) return;
+    (material as THREE.MeshStandardMaterial).map?.dispose();
+    material.dispose();
+  }), [captionMaterials, polaroidBaseMaterial]);
+
+  // 聚焦时的大图用更高分辨率的题字
+  const activeCaptionMaterial = useMemo(() => {
+    const tex = activeCaption ? createCaptionTexture(activeCaption, 1024) : null;
+    if (!tex) return null;
+    return new THREE.MeshBasicMaterial({ map: tex, transparent: true, opacity: 1, depthTest: false, depthWrite: false, toneMapped: false });
+  }, [activeCaption]);
+  useEffect(() => () => {
+    activeCaptionMaterial?.map?.dispose();
+    activeCaptionMaterial?.dispose();
+  }, [activeCaptionMaterial]);
 
   const activeMaterial = useMemo(() => {
     if (!activeTexture) return null;
@@ -400,42 +397,27 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
       transparent: true, opacity: 1, depthTest: false, depthWrite: false, toneMapped: false,
     });
   }, [activeTexture]);
-
-  const heptagramMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-    color: "#FFD700", metalness: 1.0, roughness: 0.3, bumpMap: starBumpMap, bumpScale: 0.02,
-    emissive: "#FF6600", emissiveIntensity: 1.0, toneMapped: false, envMapIntensity: 2.0
-  }), [starBumpMap]);
-
-  const sphereMaterial = useMemo(() => {
-    return new THREE.MeshPhysicalMaterial({
-      metalness: 1.0,
-      roughness: 0.12,
-      clearcoat: 1.0,
-      clearcoatRoughness: 0.05,
-      bumpMap: sphereBumpMap,
-      bumpScale: 0.03,
-      envMapIntensity: 2.5,
-      emissive: "#000000",
-      emissiveIntensity: 0.0
-    });
-  }, [sphereBumpMap]);
-
-  const boxMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-    metalness: 0.1, roughness: 0.4, bumpMap: boxBumpMap, bumpScale: 0.05, envMapIntensity: 0.8
-  }), [boxBumpMap]);
-
-  const gemMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
-    color: "#FFFFFF", metalness: 0.1, roughness: 0.0, transmission: 0.6, thickness: 1.0,
-    envMapIntensity: 3.0, emissive: "#FFFFFF", emissiveIntensity: 0.2, toneMapped: false
-  }), []);
+  // 大图用的是克隆出来的纹理，换一张或取消聚焦时连同材质一起释放 (原纹理还挂在树上)
+  useEffect(() => () => {
+    activeMaterial?.map?.dispose();
+    activeMaterial?.dispose();
+  }, [activeMaterial]);
+
+  const ornamentMaterials = useMemo(() => ORNAMENT_TYPES.map(type => type.createMaterial()), []);
+  // 材质自己的粗糙度和辉光，主题的材质参数乘在它们上面
+  const ornamentMaterialBases = useMemo(() => ornamentMaterials.map(material => {
+    const standard = material as THREE.MeshStandardMaterial;
+    return { roughness: standard.roughness, emissiveIntensity: standard.emissiveIntensity };
+  }), [ornamentMaterials]);
+  // 画质档位变化时按新的细分重建，旧的几何体随即释放
+  const ornamentGeometries = useMemo(() => ORNAMENT_TYPES.map(type => type.createGeometry(ornamentSegments)), [ornamentSegments]);
+  useEffect(() => () => ornamentGeometries.forEach(geometry => geometry.dispose()), [ornamentGeometries]);
 
   const polaroidGeometry = useMemo(() => createPolaroidGeometry(), []);
 
-  const heptagramGeometry = useMemo(() => {
-    const shape = createHeptagramShape();
-    const extrudeSettings = { depth: 0.2, bevelEnabled: true, bevelThickness: 0.05, bevelSize: 0.05, bevelSegments: 4 };
-    return new THREE.ExtrudeGeometry(shape, extrudeSettings);
-  }, []);
+  const shape = getTreeShape(treeShape);
+  const topperPlacement = getTopperPlacement(shape);
+  const Topper = TOPPER_COMPONENTS[topper];
 
   const velocity = useRef(0);
   const [activeFocusIndex, setActiveFocusIndex] = useState<number>(-1);
@@ -445,109 +427,156 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
   const needleData = useMemo(() => {
     const chaos = new Float32Array(NEEDLE_COUNT * 3);
     const target = new Float32Array(NEEDLE_COUNT * 3);
-    const colors = new Float32Array(NEEDLE_COUNT * 3);
+    // 每根针叶只记用主题里的第几种绿 (0-2) 和明暗偏移，颜色本身在着色器里按主题取
+    const shades = new Float32Array(NEEDLE_COUNT * 2);
     const randoms = new Float32Array(NEEDLE_COUNT);
-    const c1 = new THREE.Color("#4ade80"); const c2 = new THREE.Color("#22c55e"); const c3 = new THREE.Color("#15803d");
-    const tmp = new THREE.Color();
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.needles);
     for (let i = 0; i < NEEDLE_COUNT; i++) {
-      const tPos = randomPointInPineTree(TREE_HEIGHT, TREE_RADIUS, TREE_TIERS);
+      const tPos = randomPointInTree(shape, random);
       target[i * 3] = tPos.x; target[i * 3 + 1] = tPos.y; target[i * 3 + 2] = tPos.z;
-      const cPos = randomPointInSphere(CHAOS_RADIUS);
+      const cPos = randomPointInSphere(CHAOS_RADIUS, random);
       chaos[i * 3] = cPos.x; chaos[i * 3 + 1] = cPos.y; chaos[i * 3 + 2] = cPos.z;
-      const r = Math.random();
-      if (r < 0.33) tmp.copy(c1); else if (r < 0.66) tmp.copy(c2); else tmp.copy(c3);
-      tmp.offsetHSL(0, 0.05, (Math.random() - 0.5) * 0.1);
-      colors[i * 3] = tmp.r; colors[i * 3 + 1] = tmp.g; colors[i * 3 + 2] = tmp.b;
-      randoms[i] = Math.random();
+      const r = random();
+      shades[i * 2] = r < 0.33 ? 0 : r < 0.66 ? 1 : 2;
+      shades[i * 2 + 1] = (random() - 0.5) * 0.3;
+      randoms[i] = random();
     }
-    return { chaos, target, colors, randoms };
-  }, []);
+    return { chaos, target, shades, randoms };
+  }, [treeShape, layoutSeed]);
 
-  const { ornamentData, counts, userCounts } = useMemo(() => {
+  // 编辑器预览每次都会生成新的 manifest 对象，按字段做依赖
+  const { strategy: placementStrategy, copies: placementCopies } = photoPlacement;
+  const { ornamentData, ornamentChaos, ornamentTarget, counts, userCounts } = useMemo(() => {
     const data = [];
-    const bColors = [new THREE.Color("#8B0000"), new THREE.Color("#FFFFFF"), new THREE.Color("#D4AF37")];
-    const gColors = [new THREE.Color("#FFFFFF"), new THREE.Color("#E0FFFF")];
-    let sCount = 0, bCount = 0, gCount = 0, hCount = 0;
+    const chaos = new Float32Array(ORNAMENT_COUNT * 3);
+    const target = new Float32Array(ORNAMENT_COUNT * 3);
+    const typeCounts = ORNAMENT_TYPES.map(() => 0);
     const uCounts = new Array(Math.max(1, loadedTextures.length)).fill(0);
-
-    const goldColor = new THREE.Color("#FFD700");
-    const redColor = new THREE.Color("#D40000");
+    // 照片数相同时，寄件人预览和收礼人看到的照片挂在同样的位置
+    const random = createSeededRandom(layoutSeed, LAYOUT_STREAMS.ornaments);
+    // 前 slots.length 个装饰换成照片，挂在挂法给出的位置 (树的外沿)；其余按注册表的权重挑选
+    const slots = placePhotos(loadedTextures.length, { strategy: placementStrategy, copies: placementCopies }, { tiers: shape.tiers, random });
 
     for (let i = 0; i < ORNAMENT_COUNT; i++) {
-      let tPos = randomPointInPineTree(TREE_HEIGHT, TREE_RADIUS * 0.95, TREE_TIERS);
-      const cPos = randomPointInSphere(CHAOS_RADIUS * 0.975);
-      let type = OrnamentType.SPHERE;
-      const rand = Math.random(); let textureIndex = -1;
-
-      // 如果有加载成功的图片，则有机会生成相片
-      if (loadedTextures.length > 0 && rand > 0.85) {
-        type = OrnamentType.USER;
-        textureIndex = Math.floor(Math.random() * loadedTextures.length);
-        uCounts[textureIndex]++;
+      const slot = slots[i];
+      let tPos = slot
+        ? pointOnTree(shape, slot.height, slot.angle, 0.9)
+        : randomPointInTree(shape, random, 0.95);
+      const cPos = randomPointInSphere(CHAOS_RADIUS * 0.975, random);
+      let typeIndex = PHOTO_ORNAMENT; let textureIndex = -1; let localIndex: number;
+
+      if (slot) {
+        textureIndex = slot.photoIndex;
+        localIndex = uCounts[textureIndex]++;
       } else {
-        if (rand < 0.15) { type = OrnamentType.HEPTAGRAM; hCount++; }
-        else if (rand < 0.50) { type = OrnamentType.SPHERE; sCount++; }
-        else if (rand < 0.75) { type = OrnamentType.BOX; bCount++; }
-        else { type = OrnamentType.GEM; gCount++; }
+        typeIndex = pickOrnamentType(random(), ornamentTypes);
+        localIndex = typeCounts[typeIndex]++;
       }
 
-      let color = new THREE.Color();
-      let scale = new THREE.Vector3(1, 1, 1);
-      const baseScale = 0.45 + Math.random() * 0.35;
-
-      if (type === OrnamentType.SPHERE) {
-        color.copy((sCount % 2 === 0) ? goldColor : redColor);
-        scale.setScalar(baseScale);
-      }
-      else if (type === OrnamentType.BOX) { color = bColors[Math.floor(Math.random() * bColors.length)]; scale.set(baseScale * 0.8, baseScale * 0.8, baseScale * 0.8); }
-      else if (type === OrnamentType.GEM) { color = gColors[Math.floor(Math.random() * gColors.length)]; scale.setScalar(baseScale * 0.8); }
-      else if (type === OrnamentType.USER) { scale.setScalar(baseScale * 1.5); }
-      else if (type === OrnamentType.HEPTAGRAM) { color = new THREE.Color("#CFB53B"); scale.setScalar(baseScale * 0.9); }
-
-      let localIndex = 0;
-      if (type === OrnamentType.SPHERE) localIndex = sCount - 1; if (type === OrnamentType.BOX) localIndex = bCount - 1;
-      if (type === OrnamentType.GEM) localIndex = gCount - 1; if (type === OrnamentType.USER) localIndex = uCounts[textureIndex] - 1;
-      if (type === OrnamentType.HEPTAGRAM) localIndex = hCount - 1;
-
-      let rotAxis = new THREE.Vector3(Math.random(), Math.random(), Math.random()).normalize();
-      let rotSpeed = (Math.random() - 0.5) * 2.0;
-      if (type === OrnamentType.HEPTAGRAM) { rotSpeed = 0; rotAxis = new THREE.Vector3(0, 1, 0); }
-      let alwaysVisible = Math.random() > 0.6; if (type === OrnamentType.USER) alwaysVisible = true;
-      data.push({ id: i, tPos, cPos, type, color: color.clone(), scale, textureIndex, localIndex, phase: Math.random() * Math.PI * 2, rotSpeed, rotationAxis: rotAxis, alwaysVisible });
+      const type = typeIndex === PHOTO_ORNAMENT ? null : ORNAMENT_TYPES[typeIndex];
+      const baseScale = 0.45 + random() * 0.35;
+      const scale = new THREE.Vector3().setScalar(baseScale * (type ? type.scale : 1.5));
+      const color: OrnamentColorRole | null = type?.pickColor?.(localIndex, random) ?? null;
+      const motion: OrnamentMotion | null = type ? type.motion : null;
+
+      let rotAxis = new THREE.Vector3(random(), random(), random()).normalize();
+      let rotSpeed = (random() - 0.5) * 2.0;
+      if (motion === 'face-out') { rotSpeed = 0; rotAxis = new THREE.Vector3(0, 1, 0); }
+      let alwaysVisible = random() > 0.6; if (typeIndex === PHOTO_ORNAMENT) alwaysVisible = true;
+      tPos.toArray(target, i * 3); cPos.toArray(chaos, i * 3);
+      data.push({ id: i, tPos, typeIndex, motion, color, scale, textureIndex, localIndex, phase: random() * Math.PI * 2, rotSpeed, rotationAxis: rotAxis, alwaysVisible });
     }
-    return { ornamentData: data, counts: { sphere: sCount, box: bCount, gem: gCount, heptagram: hCount }, userCounts: uCounts };
-  }, [loadedTextures.length]);
+    return { ornamentData: data, ornamentChaos: chaos, ornamentTarget: target, counts: typeCounts, userCounts: uCounts };
+  }, [loadedTextures.length, treeShape, layoutSeed, placementStrategy, placementCopies, ornamentTypes]);
+
+  // 换造型 (散开、树、文字、爱心……) 时针叶和装饰从当前位置插值到新目标
+  const shapeTargets = useMemo(() => formation.kind === 'tree' ? null : {
+    needles: sampleFormationPoints(formation, NEEDLE_COUNT, createSeededRandom(layoutSeed, LAYOUT_STREAMS.needles)),
+    ornaments: sampleFormationPoints(formation, ORNAMENT_COUNT, createSeededRandom(layoutSeed, LAYOUT_STREAMS.ornaments), { depth: 1.5 }),
+  }, [formation, layoutSeed]);
+  const isScattered = treeState === TreeState.CHAOS;
+  const needleMorph = useFormationMorph(isScattered ? needleData.chaos : shapeTargets?.needles ?? needleData.target, needleData.chaos);
+  const ornamentMorph = useFormationMorph(isScattered ? ornamentChaos : shapeTargets?.ornaments ?? ornamentTarget, ornamentChaos);
 
   useEffect(() => {
     if (activeFocusIndex !== -1 && loadedTextures.length > 0) {
       const targetOrn = ornamentData.find(o => o.id === activeFocusIndex);
-      if (targetOrn && targetOrn.type === OrnamentType.USER) {
-        const srcTex = loadedTextures[targetOrn.textureIndex];
-        const focusTex = srcTex.clone(); applyCoverFor34(focusTex);
-        setActiveTexture(focusTex); return;
+      if (targetOrn && targetOrn.typeIndex === PHOTO_ORNAMENT) {
+        const { texture: srcTex, photoIndex } = loadedPhotos[targetOrn.textureIndex];
+        const focusTex = srcTex.clone(); applyCropFor34(focusTex, crops[photoIndex]); focusTex.needsUpdate = true;
+        setActiveTexture(focusTex); setActiveCaption(captions[photoIndex] || ''); setActiveVoiceNote(voiceNotes[photoIndex] || ''); return;
       }
     }
-    setActiveTexture(null);
-  }, [activeFocusIndex, loadedTextures, ornamentData]);
+    setActiveTexture(null); setActiveCaption(''); setActiveVoiceNote('');
+  }, [activeFocusIndex, loadedPhotos, captions, crops, voiceNotes, ornamentData]);
+
+  // 聚焦的是短片时从头带声音播放，离开聚焦后恢复静音；照片配了语音时让给语音
+  useEffect(() => {
+    const video = activeTexture?.image;
+    if (!(video instanceof HTMLVideoElement) || activeVoiceNote) return;
+    video.currentTime = 0;
+    video.muted = false;
+    const releaseDuck = duckMusic();
+    video.play().catch(() => {
+      // 浏览器不允许带声音播放时保持静音
+      video.muted = true;
+      releaseDuck();
+      video.play().catch(() => {});
+    });
+    return () => { video.muted = true; releaseDuck(); };
+  }, [activeTexture, activeVoiceNote]);
+
+  // 聚焦到配了语音的照片时播放，移开视线就停
+  useEffect(() => {
+    if (!activeVoiceNote) return;
+    const playback = playVoiceNote(activeVoiceNote, photoKey);
+    return () => playback.stop();
+  }, [activeVoiceNote, photoKey]);
+
+  const needlesGeometryRef = useDrawFraction(NEEDLE_COUNT, particleFraction);
 
   const currentProgress = useRef(0); const focusProgress = useRef(0);
   const dummyObj = useMemo(() => new THREE.Object3D(), []); const vec3 = useMemo(() => new THREE.Vector3(), []);
-  const needleUniforms = useMemo(() => ({ uTime: { value: 0 }, uTexture: { value: particleTexture }, uProgress: { value: 0 }, uZoom: { value: 0 } }), [particleTexture]);
+  // 针叶颜色直接引用正在渐变的主题颜色
+  const needleUniforms = useMemo(() => ({
+    uTime: { value: 0 }, uTexture: { value: particleTexture }, uProgress: { value: 0 }, uMorph: { value: 0 }, uZoom: { value: 0 },
+    uNeedleA: { value: themeColors.needles[0] }, uNeedleB: { value: themeColors.needles[1] }, uNeedleC: { value: themeColors.needles[2] },
+  }), [particleTexture, themeColors]);
 
   // ---------------- 动画帧逻辑 (保持不变) ----------------
   useFrame((state, delta) => {
     if (!groupRef.current) return;
     const time = state.clock.elapsedTime;
     if (needlesMaterialRef.current) { needleUniforms.uTime.value = time; needleUniforms.uProgress.value = currentProgress.current; needleUniforms.uZoom.value = zoomFactor; }
-    if (heptagramMaterial) { heptagramMaterial.emissiveIntensity = 2.5 + Math.sin(time * 3.0) * 1.5; }
+    const { roughnessScale, glowScale } = themeColors.materials;
+    polaroidBaseMaterial.roughness = FRAME_ROUGHNESS * roughnessScale;
+    focusedFrameMaterial.roughness = FRAME_ROUGHNESS * roughnessScale;
+    ORNAMENT_TYPES.forEach((type, i) => {
+      const material = ornamentMaterials[i] as THREE.MeshStandardMaterial;
+      const base = ornamentMaterialBases[i];
+      material.roughness = Math.min(1, base.roughness * roughnessScale);
+      // 有动画的材质每帧自己重设辉光，没有的从基础值算起，倍数才不会越乘越大
+      if (type.animateMaterial) type.animateMaterial(material, time);
+      else material.emissiveIntensity = base.emissiveIntensity;
+      material.emissiveIntensity *= glowScale;
+      if (!type.themeColors) return;
+      if (type.themeColors.color) material.color.copy(themeColors.ornaments[type.themeColors.color]);
+      if (type.themeColors.emissive) material.emissive.copy(themeColors.ornaments[type.themeColors.emissive]);
+    });
+
+    flushMorph(needleMorph, needlesRef.current?.geometry);
+    needleMorph.progress = THREE.MathUtils.lerp(needleMorph.progress, 1, delta * 4.0);
+    ornamentMorph.progress = THREE.MathUtils.lerp(ornamentMorph.progress, 1, delta * 4.0);
+    needleUniforms.uMorph.value = needleMorph.progress;
+    const { from: oFrom, to: oTo, progress: m } = ornamentMorph;
 
     if (isPhotoFocused && !prevFocusState.current) {
       const worldRot = groupRef.current.rotation.y;
       let minDist = Infinity; let nearestId = -1;
       ornamentData.forEach(orn => {
-        if (orn.type !== OrnamentType.USER) return;
-        const p = currentProgress.current; const invP = 1 - p;
-        const bx = orn.cPos.x * invP + orn.tPos.x * p; const by = orn.cPos.y * invP + orn.tPos.y * p; const bz = orn.cPos.z * invP + orn.tPos.z * p;
+        if (orn.typeIndex !== PHOTO_ORNAMENT) return;
+        const i3 = orn.id * 3;
+        const bx = oFrom[i3] + (oTo[i3] - oFrom[i3]) * m; const by = oFrom[i3 + 1] + (oTo[i3 + 1] - oFrom[i3 + 1]) * m; const bz = oFrom[i3 + 2] + (oTo[i3 + 2] - oFrom[i3 + 2]) * m;
         const wx = bx * Math.cos(worldRot) + bz * Math.sin(worldRot); const wy = by; const wz = -bx * Math.sin(worldRot) + bz * Math.cos(worldRot);
         const d = (wx - camera.position.x) ** 2 + (wy - camera.position.y) ** 2 + (wz - camera.position.z) ** 2;
         if (d < minDist) { minDist = d; nearestId = orn.id; }
@@ -558,25 +587,16 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
 
     const targetProgress = treeState === TreeState.FORMED ? 1 : 0;
     currentProgress.current = THREE.MathUtils.lerp(currentProgress.current, targetProgress, delta * 4.0);
-    const p = currentProgress.current; const invP = 1 - p;
-
-    if (needlesRef.current) {
-      const pos = needlesRef.current.geometry.attributes.position;
-      const waveAmp = (p > 0.1) ? 0.05 * p : 0;
-      for (let i = 0; i < NEEDLE_COUNT; i++) {
-        let x = needleData.chaos[i * 3] * invP + needleData.target[i * 3] * p; let y = needleData.chaos[i * 3 + 1] * invP + needleData.target[i * 3 + 1] * p; let z = needleData.chaos[i * 3 + 2] * invP + needleData.target[i * 3 + 2] * p;
-        if (waveAmp > 0) { const ph = needleData.target[i * 3] * 0.5; x += Math.sin(time * 1.5 + ph) * waveAmp; z += Math.sin(time * 1.5 * 1.2 + ph) * waveAmp; }
-        pos.setXYZ(i, x, y, z);
-      }
-      pos.needsUpdate = true;
-    }
+    const p = currentProgress.current;
+    needleUniforms.uProgress.value = p;
 
     focusProgress.current = THREE.MathUtils.lerp(focusProgress.current, isPhotoFocused ? 1 : 0, delta * 5.0);
     const fp = focusProgress.current; const globalScale = THREE.MathUtils.lerp(1.0, 0.72, p);
 
     ornamentData.forEach((orn) => {
-      let x = orn.cPos.x * invP + orn.tPos.x * p; let y = orn.cPos.y * invP + orn.tPos.y * p; let z = orn.cPos.z * invP + orn.tPos.z * p;
-      const isFixed = (orn.type === OrnamentType.HEPTAGRAM);
+      const i3 = orn.id * 3;
+      let x = oFrom[i3] + (oTo[i3] - oFrom[i3]) * m; let y = oFrom[i3 + 1] + (oTo[i3 + 1] - oFrom[i3 + 1]) * m; let z = oFrom[i3 + 2] + (oTo[i3 + 2] - oFrom[i3 + 2]) * m;
+      const isFixed = (orn.motion === 'face-out');
       if (p > 0.1) { const w = 0.05 * p; const ph = orn.tPos.x * 0.5 + orn.tPos.y * 0.5; x += Math.sin(time * 1.5 + ph) * w; y += Math.cos(time * 1.5 * 0.8 + ph) * w * 0.5; z += Math.sin(time * 1.5 * 1.2 + ph) * w; }
       if (p > 0.5 && !isFixed) y += Math.sin(time + orn.phase) * 0.05;
       const isTarget = (orn.id === activeFocusIndex);
@@ -598,66 +618,73 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
       } else {
         dummyObj.position.set(x, y, z);
         if (isFixed) { dummyObj.lookAt(0, y, 0); dummyObj.rotateY(Math.PI); dummyObj.rotateZ(orn.phase); }
-        else if (orn.type === OrnamentType.USER) { dummyObj.rotation.y = time * 0.2 + orn.phase; dummyObj.rotation.x = Math.sin(time * 0.5 + orn.phase) * 0.1; }
+        else if (orn.typeIndex === PHOTO_ORNAMENT) { dummyObj.rotation.y = time * 0.2 + orn.phase; dummyObj.rotation.x = Math.sin(time * 0.5 + orn.phase) * 0.1; }
+        else if (orn.motion === 'swing') { dummyObj.rotation.set(0, orn.phase, Math.sin(time * 2.0 + orn.phase) * 0.25); }
         else { dummyObj.rotateOnAxis(orn.rotationAxis, time * orn.rotSpeed + orn.phase); }
         dummyObj.scale.copy(treeScaleVec);
       }
       dummyObj.updateMatrix();
 
-      if (orn.type === OrnamentType.SPHERE && sphereMeshRef.current) {
-        sphereMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
-        sphereMeshRef.current.setColorAt(orn.localIndex, orn.color);
+      if (orn.typeIndex === PHOTO_ORNAMENT) {
+        if (userMeshRefs.current[orn.textureIndex]) userMeshRefs.current[orn.textureIndex].setMatrixAt(orn.localIndex, dummyObj.matrix);
+      } else {
+        const mesh = ornamentMeshRefs.current[orn.typeIndex];
+        if (mesh) { mesh.setMatrixAt(orn.localIndex, dummyObj.matrix); if (orn.color) mesh.setColorAt(orn.localIndex, themeColors.ornaments[orn.color]); }
       }
-      else if (orn.type === OrnamentType.BOX && boxMeshRef.current) { boxMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix); boxMeshRef.current.setColorAt(orn.localIndex, orn.color); }
-      else if (orn.type === OrnamentType.GEM && gemMeshRef.current) { gemMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix); gemMeshRef.current.setColorAt(orn.localIndex, orn.color); }
-      else if (orn.type === OrnamentType.HEPTAGRAM && heptagramMeshRef.current) { heptagramMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix); }
-      else if (orn.type === OrnamentType.USER && userMeshRefs.current[orn.textureIndex]) { userMeshRefs.current[orn.textureIndex].setMatrixAt(orn.localIndex, dummyObj.matrix); }
     });
 
-    if (sphereMeshRef.current) {
-      sphereMeshRef.current.instanceMatrix.needsUpdate = true;
-      if (sphereMeshRef.current.instanceColor) sphereMeshRef.current.instanceColor.needsUpdate = true;
-    }
-    if (boxMeshRef.current) { boxMeshRef.current.instanceMatrix.needsUpdate = true; if (boxMeshRef.current.instanceColor) boxMeshRef.current.instanceColor.needsUpdate = true; }
-    if (gemMeshRef.current) { gemMeshRef.current.instanceMatrix.needsUpdate = true; if (gemMeshRef.current.instanceColor) gemMeshRef.current.instanceColor.needsUpdate = true; }
-    if (heptagramMeshRef.current) heptagramMeshRef.current.instanceMatrix.needsUpdate = true;
+    ornamentMeshRefs.current.forEach(mesh => {
+      if (!mesh) return;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
     userMeshRefs.current.forEach(mesh => { if (mesh) mesh.instanceMatrix.needsUpdate = true; });
 
     if (extraRotationVelocity && !isPhotoFocused) { velocity.current += extraRotationVelocity.current * 0.15; extraRotationVelocity.current = 0; }
     velocity.current *= 0.85;
-    if (treeState === TreeState.FORMED && Math.abs(velocity.current) < 0.001 && !isPhotoFocused) velocity.current += (0.00005 - velocity.current) * 0.01;
+    const isShaped = treeState === TreeState.FORMED && formation.kind !== 'tree';
+    if (treeState === TreeState.FORMED && !isShaped && Math.abs(velocity.current) < 0.001 && !isPhotoFocused) velocity.current += (0.00005 - velocity.current) * 0.01;
     groupRef.current.rotation.y += velocity.current;
+    // 文字和图形要正对镜头，手势转开之后慢慢转回来
+    if (isShaped) groupRef.current.rotation.y = settleFacing(groupRef.current.rotation.y, delta * 2.0);
   });
 
   return (
     <group ref={groupRef}>
-      {treeState === TreeState.FORMED && <SantaHat />}
-      <points ref={needlesRef}>
-        <bufferGeometry>
-          <bufferAttribute attach="attributes-position" count={NEEDLE_COUNT} array={needleData.chaos} itemSize={3} />
-          <bufferAttribute attach="attributes-color" count={NEEDLE_COUNT} array={needleData.colors} itemSize={3} />
+      {treeState === TreeState.FORMED && formation.kind === 'tree' && (
+        <group position={[0, topperPlacement.y, 0]} scale={topperPlacement.scale}>
+          <Topper colors={themeColors} />
+        </group>
+      )}
+      {/* 针叶的聚散和摆动都在顶点着色器里插值：aFrom 是起点，position 是当前造型的终点，按 uMorph 混合，只在换造型时上传一次缓冲区；换了布局种子时按 key 重建几何体 */}
+      <points ref={needlesRef} frustumCulled={false}>
+        <bufferGeometry key={`${treeShape}-${layoutSeed}`} ref={needlesGeometryRef}>
+          <bufferAttribute attach="attributes-position" count={NEEDLE_COUNT} array={needleMorph.to} itemSize={3} />
+          <bufferAttribute attach="attributes-aFrom" count={NEEDLE_COUNT} array={needleMorph.from} itemSize={3} />
+          <bufferAttribute attach="attributes-aShade" count={NEEDLE_COUNT} array={needleData.shades} itemSize={2} />
           <bufferAttribute attach="attributes-aRandom" count={NEEDLE_COUNT} array={needleData.randoms} itemSize={1} />
         </bufferGeometry>
         <shaderMaterial ref={needlesMaterialRef} transparent={true} depthWrite={false} blending={THREE.NormalBlending} uniforms={needleUniforms}
-          vertexShader={`uniform float uTime; uniform float uProgress; uniform float uZoom; attribute vec3 color; attribute float aRandom; varying vec3 vColor; varying float vSparkle;
+          vertexShader={`uniform float uTime; uniform float uProgress; uniform float uMorph; uniform float uZoom; uniform vec3 uNeedleA; uniform vec3 uNeedleB; uniform vec3 uNeedleC; attribute vec2 aShade; attribute vec3 aFrom; attribute float aRandom; varying vec3 vColor; varying float vSparkle;
                 void main() {
                     if (aRandom > (0.4 + uZoom * 0.6)) { gl_Position = vec4(0.0, 0.0, 2.0, 1.0); gl_PointSize = 0.0; return; }
-                    vec4 mvPos = modelViewMatrix * vec4(position, 1.0); gl_Position = projectionMatrix * mvPos;
+                    vec3 pos = mix(aFrom, position, uMorph);
+                    float waveAmp = uProgress > 0.1 ? 0.05 * uProgress : 0.0; float ph = position.x * 0.5;
+                    pos.x += sin(uTime * 1.5 + ph) * waveAmp; pos.z += sin(uTime * 1.5 * 1.2 + ph) * waveAmp;
+                    vec4 mvPos = modelViewMatrix * vec4(pos, 1.0); gl_Position = projectionMatrix * mvPos;
                     gl_PointSize = mix(0.5, 1.0, uProgress) * 0.12 * (1.0 + uZoom * 0.6) * (200.0 / -mvPos.z);
-                    vColor = color; float sh = sin(uTime * 3.0 + aRandom * 20.0); vSparkle = pow(max(0.0, sh), 4.0);
+                    vColor = (aShade.x < 0.5 ? uNeedleA : aShade.x < 1.5 ? uNeedleB : uNeedleC) * (1.0 + aShade.y); float sh = sin(uTime * 3.0 + aRandom * 20.0); vSparkle = pow(max(0.0, sh), 4.0);
                 }`}
           fragmentShader={`uniform sampler2D uTexture; varying vec3 vColor; varying float vSparkle;
                 void main() { vec4 tex = texture2D(uTexture, gl_PointCoord); if (tex.a < 0.5) discard;
                     gl_FragColor = vec4(mix(vColor, vec3(1.0, 1.0, 0.8), vSparkle * 0.6), 0.9);
                 }`} />
       </points>
-      <instancedMesh ref={sphereMeshRef} args={[undefined, undefined, counts.sphere]}><sphereGeometry args={[1, 64, 64]} /><primitive object={sphereMaterial} attach="material" /></instancedMesh>
-      <instancedMesh ref={boxMeshRef} args={[undefined, undefined, counts.box]}><boxGeometry args={[1, 1, 1]} /><primitive object={boxMaterial} attach="material" /></instancedMesh>
-      <instancedMesh ref={gemMeshRef} args={[undefined, undefined, counts.gem]}><octahedronGeometry args={[1, 0]} /><primitive object={gemMaterial} attach="material" /></instancedMesh>
-      <instancedMesh ref={heptagramMeshRef} args={[undefined, undefined, counts.heptagram]} geometry={heptagramGeometry} material={heptagramMaterial} />
+      {/* 每种注册的装饰一个 instancedMesh */}
+      {ORNAMENT_TYPES.map((type, i) => (<instancedMesh key={type.id} ref={el => { ornamentMeshRefs.current[i] = el; }} args={[undefined, undefined, counts[i]]} geometry={ornamentGeometries[i]} material={ornamentMaterials[i]} />))}
       {/* 渲染拍立得相框，基于实际加载成功的图片数量 */}
-      {loadedTextures.map((tex, i) => (<instancedMesh key={i} ref={el => { if (el) userMeshRefs.current[i] = el; }} args={[undefined, undefined, userCounts[i]]} geometry={polaroidGeometry} material={[polaroidBaseMaterial, photoMaterials[i]]} />))}
-      {activeTexture && activeMaterial && (<group ref={focusedGroupRef} scale={[0, 0, 0]}><mesh material={focusedFrameMaterial} renderOrder={9997}><boxGeometry args={[1.25, 1.65, 0.08]} /></mesh><mesh position={[0, 0.1, 0.06]} renderOrder={9998}><planeGeometry args={[1.0, 1.333]} /><meshBasicMaterial color="black" side={THREE.DoubleSide} transparent opacity={1} depthTest={false} depthWrite={false} /></mesh><mesh material={activeMaterial} position={[0, 0.1, 0.08]} renderOrder={9999}><planeGeometry args={[1.0, 1.333]} /></mesh></group>)}
+      {loadedTextures.map((tex, i) => (<instancedMesh key={i} ref={el => { if (el) userMeshRefs.current[i] = el; }} args={[undefined, undefined, userCounts[i]]} geometry={polaroidGeometry} material={[polaroidBaseMaterial, photoMaterials[i], captionMaterials[i]]} />))}
+      {activeTexture && activeMaterial && (<group ref={focusedGroupRef} scale={[0, 0, 0]}><mesh material={focusedFrameMaterial} renderOrder={9997}><boxGeometry args={[1.25, 1.65, 0.08]} /></mesh><mesh position={[0, 0.1, 0.06]} renderOrder={9998}><planeGeometry args={[1.0, 1.333]} /><meshBasicMaterial color="black" side={THREE.DoubleSide} transparent opacity={1} depthTest={false} depthWrite={false} /></mesh><mesh material={activeMaterial} position={[0, 0.1, 0.08]} renderOrder={9999}><planeGeometry args={[1.0, 1.333]} /></mesh>{activeCaptionMaterial && (<mesh material={activeCaptionMaterial} position={[0, CAPTION_STRIP_Y, 0.08]} renderOrder={9999}><planeGeometry args={[CAPTION_STRIP_W, CAPTION_STRIP_H]} /></mesh>)}</group>)}
     </group>
   );
 };
\ No newline at end of file
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GiftMusicTrack, MAX_PLAYLIST_TRACKS, MAX_TRACK_TITLE_LENGTH } from '../services/giftManifest';
+import { MUSIC_LIBRARY, resolveMusicTrackUrl } from '../services/musicLibrary';
+import { VoicePlayback, playVoiceNote } from '../utils/voicePlayback';
+
+// 寄件人上传的歌上限，OSS 分片上传能续传，但收礼人要完整下载一遍
+const MAX_MUSIC_FILE_BYTES = 10 * 1024 * 1024;
+// 浏览器报的类型不统一 (m4a 常被报成 audio/x-m4a)，统一成签名接口认识的类型
+const MUSIC_CONTENT_TYPES: Record<string, string> = {
+  'audio/mpeg': 'audio/mpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/mp4': 'audio/mp4',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+};
+const MUSIC_ACCEPT = '.mp3,.m4a,audio/mpeg,audio/mp4,audio/x-m4a';
+
+// 可编辑的歌单：和 EditableVoiceNote 一样，新选的歌带着 file，url 是本地 blob；
+// 口令保护的礼赠里 url 指向密文，previewUrl 是解密后的本地 blob
+export type EditableMusicTrack =
+  | { source: 'library'; id: string }
+  | { source: 'upload'; url: string; title: string; file?: File; previewUrl?: string };
+
+export type UploadedMusicTrack = Extract<EditableMusicTrack, { source: 'upload' }>;
+
+export const isUploadedMusicTrack = (track: EditableMusicTrack): track is UploadedMusicTrack => track.source === 'upload';
+
+/** 统一类型、检查大小；不支持的文件返回提示文字 */
+export const prepareMusicFile = (file: File): File | string => {
+  const type = MUSIC_CONTENT_TYPES[file.type] || (/\.mp3$/i.test(file.name) ? 'audio/mpeg' : /\.m4a$/i.test(file.name) ? 'audio/mp4' : '');
+  if (!type) return '暂时只支持 MP3 / M4A 格式的歌曲';
+  if (file.size > MAX_MUSIC_FILE_BYTES) return `歌曲文件请控制在 ${MAX_MUSIC_FILE_BYTES / 1024 / 1024}MB 以内`;
+  return file.type === type ? file : new File([file], file.name, { type, lastModified: file.lastModified });
+};
+
+export const createUploadedMusicTrack = (file: File): EditableMusicTrack => ({
+  source: 'upload',
+  url: URL.createObjectURL(file),
+  title: file.name.replace(/\.[^.]+$/, '').slice(0, MAX_TRACK_TITLE_LENGTH),
+  file,
+});
+
+export const editableMusicFrom = (tracks: GiftMusicTrack[], previewUrls: (string | undefined)[] = []): EditableMusicTrack[] =>
+  tracks.map((track, i) => (track.source === 'upload' ? { ...track, previewUrl: previewUrls[i] } : track));
+
+export const releaseEditableMusic = (tracks: EditableMusicTrack[]) => tracks.forEach(track => {
+  if (!isUploadedMusicTrack(track)) return;
+  if (track.file) URL.revokeObjectURL(track.url);
+  if (track.previewUrl) URL.revokeObjectURL(track.previewUrl);
+});
+
+export const getMusicPreviewUrl = (track: UploadedMusicTrack) => track.previewUrl || track.url;
+
+/** 写进 manifest 的歌单：新选的歌换成 resolveUrl 给出的链接 (上传后的地址或本地预览) */
+export const toGiftMusicTracks = (tracks: EditableMusicTrack[], resolveUrl: (track: UploadedMusicTrack) => string | undefined): GiftMusicTrack[] =>
+  tracks.map(track => (isUploadedMusicTrack(track)
+    ? { source: 'upload', url: resolveUrl(track) || track.url, title: track.title }
+    : track));
+
+interface Props {
+  value: EditableMusicTrack[];
+  onChange: (tracks: EditableMusicTrack[]) => void;
+  disabled?: boolean;
+}
+
+// 背景音乐：从曲库里挑几首 (按点选顺序循环)，也可以上传一首自己的歌
+export const MusicPicker: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const playbackRef = useRef<VoicePlayback | null>(null);
+  // 八音盒曲目要先合成，期间又点了别的曲目时丢掉旧的结果
+  const previewTokenRef = useRef(0);
+  const uploaded = value.find(isUploadedMusicTrack);
+
+  useEffect(() => () => playbackRef.current?.stop(), []);
+
+  const stopPreview = () => {
+    previewTokenRef.current += 1;
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPreviewing(null);
+  };
+
+  const togglePreview = async (previewKey: string, track: EditableMusicTrack) => {
+    const wasPreviewing = previewing === previewKey;
+    stopPreview();
+    if (wasPreviewing) return;
+    setPreviewing(previewKey);
+    const token = previewTokenRef.current;
+    const url = isUploadedMusicTrack(track)
+      ? getMusicPreviewUrl(track)
+      : await resolveMusicTrackUrl(track, { preferBundled: true }).catch(() => null);
+    if (token !== previewTokenRef.current) return;
+    if (!url) return setPreviewing(null);
+    const playback = playVoiceNote(url);
+    playbackRef.current = playback;
+    playback.finished.then(() => {
+      if (playbackRef.current !== playback) return;
+      playbackRef.current = null;
+      setPreviewing(null);
+    });
+  };
+
+  const toggleLibraryTrack = (id: string) => {
+    const selected = value.some(track => track.source === 'library' && track.id === id);
+    if (selected) return onChange(value.filter(track => !(track.source === 'library' && track.id === id)));
+    if (value.length >= MAX_PLAYLIST_TRACKS) return alert(`歌单最多 ${MAX_PLAYLIST_TRACKS} 首哦`);
+    onChange([...value, { source: 'library', id }]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const prepared = prepareMusicFile(file);
+    if (typeof prepared === 'string') return alert(prepared);
+    if (!uploaded && value.length >= MAX_PLAYLIST_TRACKS) return alert(`歌单最多 ${MAX_PLAYLIST_TRACKS} 首哦`);
+    stopPreview();
+    // 只保留一首自己上传的歌：替换时沿用原来在歌单里的位置
+    const track = createUploadedMusicTrack(prepared);
+    if (uploaded) releaseEditableMusic([uploaded]);
+    onChange(uploaded ? value.map(item => (item === uploaded ? track : item)) : [...value, track]);
+  };
+
+  const removeUploaded = () => {
+    if (!uploaded) return;
+    stopPreview();
+    releaseEditableMusic([uploaded]);
+    onChange(value.filter(track => track !== uploaded));
+  };
+
+  const buttonClass = 'px-3 py-1.5 rounded-full border border-rose-200/20 text-rose-100/80 text-xs font-handwriting hover:bg-white/5 disabled:opacity-30';
+  const orderBadge = (track: EditableMusicTrack) => value.indexOf(track) + 1;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">背景音乐 (可多选，按点选顺序循环播放)</p>
+
+      <div className="space-y-1.5">
+        {MUSIC_LIBRARY.map(libraryTrack => {
+          const selected = value.find(track => track.source === 'library' && track.id === libraryTrack.id);
+          return (
+            <div key={libraryTrack.id} className="flex items-center gap-2">
+              <button
+                onClick={() => toggleLibraryTrack(libraryTrack.id)}
+                disabled={disabled}
+                className={`flex-1 flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-handwriting text-left transition-colors disabled:opacity-30 ${selected ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+              >
+                <span className="w-4 text-center opacity-70">{selected ? orderBadge(selected) : '+'}</span>
+                <span className="truncate">{libraryTrack.title}</span>
+              </button>
+              <button onClick={() => togglePreview(libraryTrack.id, { source: 'library', id: libraryTrack.id })} className={buttonClass}>
+                {previewing === libraryTrack.id ? '❚❚' : '▶'}
+              </button>
+            </div>
+          );
+        })}
+
+        {uploaded && (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 px-3 py-1.5 rounded-full border border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10 text-xs font-handwriting">
+              <span className="w-4 text-center opacity-70">{orderBadge(uploaded)}</span>
+              <span className="truncate">♪ {uploaded.title || '我的歌'}</span>
+            </div>
+            <button onClick={() => togglePreview('upload', uploaded)} className={buttonClass}>
+              {previewing === 'upload' ? '❚❚' : '▶'}
+            </button>
+            <button onClick={removeUploaded} disabled={disabled} className={buttonClass}>✕</button>
+          </div>
+        )}
+      </div>
+
+      <label className={`inline-block cursor-pointer ${buttonClass} ${disabled ? 'opacity-30 pointer-events-none' : ''}`}>
+        ⤒ {uploaded ? '换一首自己的歌' : '上传自己的歌'} (MP3 / M4A，{MAX_MUSIC_FILE_BYTES / 1024 / 1024}MB 以内)
+        <input type="file" accept={MUSIC_ACCEPT} onChange={handleFileChange} disabled={disabled} className="hidden" />
+      </label>
+
+      {value.length === 0 && (
+        <p className="text-rose-200/40 text-[10px] font-handwriting tracking-wide">一首都不选，打开礼赠时就没有背景音乐</p>
+      )}
+    </div>
+  );
+};
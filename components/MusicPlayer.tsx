@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_SCENE_OPTIONS, GiftMusicTrack } from '../services/giftManifest';
+import { findLibraryTrack, getBundledFallbackUrl, getMusicTrackTitle, resolveMusicTrackUrl } from '../services/musicLibrary';
+import { fadeVolume, subscribeMusicDuck } from '../utils/musicBus';
+import {
+  MAX_SENSITIVITY,
+  MIN_SENSITIVITY,
+  attachMusicAnalyser,
+  getAudioReactiveSettings,
+  isMusicAnalyserSupported,
+  setAudioReactiveSettings,
+  subscribeAudioReactiveSettings,
+} from '../utils/musicAnalyser';
+
+const MUSIC_VOLUME = 0.5;
+// 语音留言、带声音的短片播放时背景音乐压到这个音量
+const DUCKED_MUSIC_VOLUME = 0.08;
+
+interface MusicPlayerProps {
+  /** 礼赠的歌单；不传时 (本地预览) 播放默认曲目 */
+  tracks?: GiftMusicTrack[];
+  /** 口令保护的礼赠：寄件人上传的歌是密文，拿到密钥前先跳过 */
+  encrypted?: boolean;
+  photoKey?: CryptoKey | null;
+  /** 本地预览：录好的曲子用随站点打包的那份 */
+  preferBundled?: boolean;
+  /** 打开礼赠时自动播放；被浏览器拦下时提示轻触开启 */
+  autoPlay?: boolean;
+  buttonStyle?: React.CSSProperties;
+}
+
+const isPlayable = (track: GiftMusicTrack, encrypted: boolean, photoKey: CryptoKey | null) =>
+  track.source === 'library' ? !!findLibraryTrack(track.id) : !encrypted || !!photoKey;
+
+// 右上角的音乐开关：按歌单顺序循环播放，单曲时直接 loop
+export const MusicPlayer: React.FC<MusicPlayerProps> = ({
+  tracks = DEFAULT_SCENE_OPTIONS.music,
+  encrypted = false,
+  photoKey = null,
+  preferBundled = false,
+  autoPlay = false,
+  buttonStyle,
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [index, setIndex] = useState(0);
+  const [src, setSrc] = useState<string | null>(null);
+  const [wantsPlay, setWantsPlay] = useState(false);
+  const [needsTap, setNeedsTap] = useState(false);
+  const [reactive, setReactive] = useState(getAudioReactiveSettings);
+  // 当前曲子分析不了 (不支持 Web Audio 或接入失败) 时不显示律动设置，免得看起来开着却没效果
+  const [analysable, setAnalysable] = useState(isMusicAnalyserSupported);
+  const [showSettings, setShowSettings] = useState(false);
+  // 连续失败的曲目数，整张歌单都放不了时停下，而不是一直切歌
+  const failuresRef = useRef(0);
+
+  // 编辑器预览每次都会生成新的数组，用内容做依赖
+  const playlistKey = JSON.stringify(tracks.filter(track => isPlayable(track, encrypted, photoKey)));
+  const playlist = useMemo<GiftMusicTrack[]>(() => JSON.parse(playlistKey), [playlistKey]);
+  const current = playlist.length > 0 ? playlist[index % playlist.length] : null;
+
+  useEffect(() => {
+    setIndex(0);
+    failuresRef.current = 0;
+  }, [playlistKey]);
+
+  useEffect(() => {
+    if (autoPlay) setWantsPlay(true);
+  }, [autoPlay]);
+
+  const skip = () => {
+    failuresRef.current += 1;
+    if (playlist.length > 1 && failuresRef.current < playlist.length) {
+      setIndex(i => (i + 1) % playlist.length);
+    } else {
+      setSrc(null);
+      setWantsPlay(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!current) {
+      setSrc(null);
+      return;
+    }
+    let cancelled = false;
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    resolveMusicTrackUrl(current, { preferBundled: preferBundled || offline, key: photoKey })
+      .then(url => {
+        if (cancelled) return;
+        if (url) setSrc(url);
+        else skip();
+      })
+      .catch(err => {
+        console.warn(`[Music] Failed to prepare "${getMusicTrackTitle(current)}"`, err);
+        if (!cancelled) skip();
+      });
+    return () => { cancelled = true; };
+  }, [current, preferBundled, photoKey]);
+
+  const handlePlayError = (err: any) => {
+    if (err?.name === 'NotAllowedError') setNeedsTap(true);
+    else if (err?.name !== 'AbortError') console.warn('[Music] Play failed:', err);
+  };
+
+  const attachAnalyser = () => {
+    if (audioRef.current && getAudioReactiveSettings().enabled) setAnalysable(attachMusicAnalyser(audioRef.current));
+  };
+
+  // 在点击事件里同步调用 play()，iOS 才认作用户手势 (AudioContext 也在这里恢复)
+  const startPlayback = () => {
+    setWantsPlay(true);
+    setNeedsTap(false);
+    const audio = audioRef.current;
+    if (audio?.src) audio.play().catch(handlePlayError);
+    attachAnalyser();
+  };
+
+  useEffect(() => subscribeAudioReactiveSettings((next) => {
+    setReactive(next);
+    if (next.enabled && audioRef.current && !audioRef.current.paused) setAnalysable(attachMusicAnalyser(audioRef.current));
+  }), []);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !src) return;
+    if (wantsPlay) audio.play().then(() => setNeedsTap(false), handlePlayError);
+    else audio.pause();
+  }, [src, wantsPlay]);
+
+  // 自动播放被拦下：屏幕上任意一次点击都顺便把音乐打开
+  useEffect(() => {
+    if (!needsTap) return;
+    window.addEventListener('pointerdown', startPlayback, { once: true });
+    return () => window.removeEventListener('pointerdown', startPlayback);
+  }, [needsTap]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = MUSIC_VOLUME;
+    let cancelFade = () => {};
+    const unsubscribe = subscribeMusicDuck((ducked) => {
+      if (!audioRef.current) return;
+      cancelFade();
+      cancelFade = fadeVolume(audioRef.current, ducked ? DUCKED_MUSIC_VOLUME : MUSIC_VOLUME);
+    });
+    return () => { cancelFade(); unsubscribe(); };
+  }, []);
+
+  const handleError = () => {
+    // 离线或 OSS 不可达：曲库里录好的曲子退回打包的那份
+    const fallback = current && getBundledFallbackUrl(current);
+    if (fallback && src !== fallback) setSrc(fallback);
+    else skip();
+  };
+
+  const toggleMusic = () => {
+    if (wantsPlay && !needsTap) {
+      setWantsPlay(false);
+      audioRef.current?.pause();
+    } else {
+      startPlayback();
+    }
+  };
+
+  if (!current) return null;
+
+  const isPlaying = wantsPlay && !needsTap;
+
+  return (
+    <>
+      <audio
+        ref={audioRef}
+        src={src ?? undefined}
+        // 接入分析器需要 CORS，OSS 上的曲子也要以匿名跨域方式加载 (Bucket 和照片一样开了 CORS)；
+        // 没有 CORS 时干脆加载失败，曲库的曲子退回打包的那份，而不是接上分析器后没声
+        crossOrigin="anonymous"
+        loop={playlist.length === 1}
+        onPlaying={() => { failuresRef.current = 0; attachAnalyser(); }}
+        onEnded={() => setIndex(i => (i + 1) % playlist.length)}
+        onError={handleError}
+      />
+
+      <div className="absolute top-6 right-6 md:top-8 md:right-8 pointer-events-auto z-50 flex flex-col items-center gap-2">
+        <button
+          onClick={toggleMusic}
+          // 轻触开启的监听挂在 window 上，点开关本身时不要让它先把音乐打开
+          onPointerDown={(e) => e.stopPropagation()}
+          title={getMusicTrackTitle(current)}
+          className="w-10 h-10 md:w-12 md:h-12 text-[#FFD700] font-bold text-sm transition-all duration-300 hover:scale-110 active:scale-95 flex justify-center items-center rounded-full"
+          style={buttonStyle}
+        >
+          {isPlaying ? '🔊' : '🔇'}
+        </button>
+        {isPlaying && playlist.length > 1 && (
+          <button
+            onClick={() => setIndex(i => (i + 1) % playlist.length)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="w-7 h-7 text-[#FFD700]/80 text-[10px] flex justify-center items-center rounded-full hover:scale-110 active:scale-95 transition-all duration-300"
+            style={buttonStyle}
+          >
+            ⏭
+          </button>
+        )}
+        {isPlaying && analysable && (
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className={`w-7 h-7 text-[10px] flex justify-center items-center rounded-full hover:scale-110 active:scale-95 transition-all duration-300 ${reactive.enabled ? 'text-[#FFD700]/80' : 'text-white/30'}`}
+            style={buttonStyle}
+          >
+            ✦
+          </button>
+        )}
+      </div>
+
+      {/* 随音乐律动的开关和灵敏度 */}
+      {isPlaying && analysable && showSettings && (
+        <div
+          onPointerDown={(e) => e.stopPropagation()}
+          className="absolute top-6 right-20 md:top-8 md:right-24 pointer-events-auto z-50 w-40 p-3 space-y-2 text-white/80 text-[10px] tracking-widest"
+          style={{ ...buttonStyle, borderRadius: '16px' }}
+        >
+          <label className="flex items-center justify-between gap-2 cursor-pointer">
+            <span className="text-[#FFD700]/80">随音乐律动</span>
+            <input
+              type="checkbox"
+              checked={reactive.enabled}
+              onChange={(e) => setAudioReactiveSettings({ enabled: e.target.checked })}
+              className="accent-[#FFD700]"
+            />
+          </label>
+          <div className="space-y-1">
+            <span className={reactive.enabled ? '' : 'opacity-40'}>灵敏度</span>
+            <input
+              type="range"
+              min={MIN_SENSITIVITY}
+              max={MAX_SENSITIVITY}
+              step={0.05}
+              value={reactive.sensitivity}
+              onChange={(e) => setAudioReactiveSettings({ sensitivity: Number(e.target.value) })}
+              disabled={!reactive.enabled}
+              className="w-full accent-[#FFD700] disabled:opacity-40"
+            />
+          </div>
+        </div>
+      )}
+
+      {needsTap && (
+        <button
+          onClick={startPlayback}
+          className="absolute top-20 md:top-24 left-1/2 -translate-x-1/2 pointer-events-auto z-50 px-4 py-1.5 rounded-full border border-[#FFD700]/40 bg-black/40 backdrop-blur-md text-[#FFD700] text-[10px] tracking-widest font-serif animate-pulse"
+        >
+          ♪ 轻触屏幕，开启背景音乐
+        </button>
+      )}
+    </>
+  );
+};
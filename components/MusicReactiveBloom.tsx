@@ -0,0 +1,24 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Bloom } from '@react-three/postprocessing';
+import type { BloomEffect } from 'postprocessing';
+import { readMusicBands } from '../utils/musicAnalyser';
+
+interface MusicReactiveBloomProps {
+  intensity: number;
+  luminanceThreshold: number;
+  radius: number;
+}
+
+// 随低音鼓点增强的辉光：基础强度不变，低频能量越高辉光越亮
+export const MusicReactiveBloom: React.FC<MusicReactiveBloomProps> = ({ intensity, luminanceThreshold, radius }) => {
+  // @react-three/postprocessing 把 ref 的类型标成了 typeof BloomEffect，实际拿到的是实例
+  const bloomRef = useRef<typeof BloomEffect>(null);
+
+  useFrame(() => {
+    const bloom = bloomRef.current as unknown as BloomEffect | null;
+    if (bloom) bloom.intensity = intensity * (1 + readMusicBands().bass * 0.8);
+  });
+
+  return <Bloom ref={bloomRef} luminanceThreshold={luminanceThreshold} mipmapBlur intensity={intensity} radius={radius} />;
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { OCCASIONS, OccasionId } from '../utils/occasions';
+
+interface Props {
+  value: OccasionId;
+  onChange: (occasion: OccasionId) => void;
+  disabled?: boolean;
+}
+
+// 节日：页头文字、造型、装饰、树顶装饰、配色和环境特效一起换
+export const OccasionField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="space-y-2">
+    <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">节日</p>
+    <div className="flex flex-wrap gap-1.5">
+      {OCCASIONS.map(occasion => (
+        <button
+          key={occasion.id}
+          onClick={() => onChange(occasion.id)}
+          disabled={disabled}
+          className={`px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${occasion.id === value ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+        >
+          {occasion.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
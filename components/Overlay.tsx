@@ -1,27 +1,69 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { GiftLinkGenerator } from './GiftLinkGenerator'; 
+import { PHOTO_ACCEPT } from '../utils/imageNormalize';
+import type { PhotoCrop } from '../utils/photoCrop';
+import type { TreePhoto } from '../types';
+import { CroppedPhoto, PhotoCropEditor } from './PhotoCropEditor';
+import { GiftMusicTrack, GiftSceneLook, createLayoutSeed } from '../services/giftManifest';
+import { MusicPlayer } from './MusicPlayer';
+import { Formation, getFormationChoices, getFormationKey } from '../utils/formations';
+import { QUALITY_MODES, setQualityMode, useQuality, useQualityMode } from '../utils/quality';
 
 interface OverlayProps {
   onUpload: (files: FileList) => void;
   onGenerate: () => void;
   children?: React.ReactNode; 
   isGiftMode?: boolean;
+  /** 本地预览的照片，用于调整构图 */
+  photos?: TreePhoto[];
+  onCropChange?: (index: number, crop: PhotoCrop) => void;
+  /** 礼赠的背景音乐歌单，不传时播放默认曲目 */
+  musicTracks?: GiftMusicTrack[];
+  musicEncrypted?: boolean;
+  photoKey?: CryptoKey | null;
+  /** 本地预览 / 编辑器预览用随站点打包的音乐，收礼人打开礼赠时自动播放 */
+  preferBundledMusic?: boolean;
+  autoPlayMusic?: boolean;
+  /** 本地预览的外观 (布局种子、照片挂法、树的轮廓)，生成礼赠时一并保存 */
+  sceneLook?: GiftSceneLook;
+  onSceneLookChange?: (look: GiftSceneLook) => void;
+  /** 当前造型；文字造型写 formationText (收礼人的名字) */
+  formation?: Formation;
+  formationText?: string;
+  onFormationChange?: (formation: Formation) => void;
+  onCountdown?: () => void;
 }
 
 export const Overlay: React.FC<OverlayProps> = ({ 
   onUpload, 
   onGenerate, 
   children,
-  isGiftMode = false
+  isGiftMode = false,
+  photos = [],
+  onCropChange,
+  musicTracks,
+  musicEncrypted,
+  photoKey,
+  preferBundledMusic,
+  autoPlayMusic,
+  sceneLook,
+  onSceneLookChange,
+  formation,
+  formationText = '',
+  onFormationChange,
+  onCountdown
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null); 
   
   const [fileCount, setFileCount] = useState(0);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
+  const quality = useQuality();
+  const qualityMode = useQualityMode();
   const [showGiftGenerator, setShowGiftGenerator] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false); 
+  const [showCropPicker, setShowCropPicker] = useState(false);
+  const [croppingIndex, setCroppingIndex] = useState<number | null>(null);
+  const croppingPhoto = croppingIndex !== null ? photos[croppingIndex] : undefined;
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -30,27 +72,6 @@ export const Overlay: React.FC<OverlayProps> = ({
     return () => clearTimeout(timer);
   }, []);
 
-  useEffect(() => {
-    const playAudio = async () => {
-        if(audioRef.current) {
-            try {
-                audioRef.current.volume = 0.5;
-            } catch (e) { console.log("Autoplay blocked"); }
-        }
-    };
-    playAudio();
-  }, []);
-
-  const toggleMusic = () => {
-      if (!audioRef.current) return;
-      if (isPlaying) {
-          audioRef.current.pause();
-      } else {
-          audioRef.current.play().catch(e => console.error("Play failed:", e));
-      }
-      setIsPlaying(!isPlaying);
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFileCount(e.target.files.length);
@@ -72,12 +93,6 @@ export const Overlay: React.FC<OverlayProps> = ({
 
   return (
     <>
-      <audio 
-        ref={audioRef} 
-        loop 
-        src="https://walabox-assets.oss-cn-beijing.aliyuncs.com/music.mp3" 
-      />
-
       {/* --- 全局 UI 容器 --- */}
       <div className="absolute inset-0 pointer-events-none z-30 overflow-hidden font-serif">
         
@@ -105,15 +120,14 @@ export const Overlay: React.FC<OverlayProps> = ({
         )}
 
         {/* --- 右上角：音乐控制区 --- */}
-        <div className="absolute top-6 right-6 md:top-8 md:right-8 pointer-events-auto z-50">
-            <button
-                onClick={toggleMusic}
-                className="w-10 h-10 md:w-12 md:h-12 text-[#FFD700] font-bold text-sm transition-all duration-300 hover:scale-110 active:scale-95 flex justify-center items-center rounded-full"
-                style={{ ...liquidGlassStyle }}
-            >
-                {isPlaying ? '🔊' : '🔇'}
-            </button>
-        </div>
+        <MusicPlayer
+            tracks={musicTracks}
+            encrypted={musicEncrypted}
+            photoKey={photoKey}
+            preferBundled={preferBundledMusic}
+            autoPlay={autoPlayMusic}
+            buttonStyle={liquidGlassStyle}
+        />
 
         {/* --- 1. 左下角：统一控制区 --- */}
         <div 
@@ -125,7 +139,7 @@ export const Overlay: React.FC<OverlayProps> = ({
         >
           {!isGiftMode && (
               <>
-                  <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" multiple className="hidden" />
+                  <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={PHOTO_ACCEPT} multiple className="hidden" />
                   <button
                     onClick={() => fileInputRef.current?.click()}
                     className="group relative w-full py-2.5 text-[#FFD700] font-bold text-[10px] md:text-xs tracking-widest uppercase transition-all duration-300 hover:scale-105 active:scale-95 flex justify-center items-center gap-2"
@@ -139,6 +153,26 @@ export const Overlay: React.FC<OverlayProps> = ({
                     />
                   </button>
 
+                  {photos.length > 0 && onCropChange && (
+                    <button
+                      onClick={() => setShowCropPicker(true)}
+                      className="group relative w-full py-2.5 text-[#FFD700] font-bold text-[10px] md:text-xs tracking-widest uppercase transition-all duration-300 hover:scale-105 active:scale-95 flex justify-center items-center gap-2"
+                      style={{ ...liquidGlassStyle, borderRadius: '4px' }}
+                    >
+                      <span className="relative z-10 drop-shadow-md whitespace-nowrap">✂️ 调整构图</span>
+                    </button>
+                  )}
+
+                  {photos.length > 0 && sceneLook && onSceneLookChange && (
+                    <button
+                      onClick={() => onSceneLookChange({ ...sceneLook, layoutSeed: createLayoutSeed() })}
+                      className="group relative w-full py-2.5 text-[#FFD700] font-bold text-[10px] md:text-xs tracking-widest uppercase transition-all duration-300 hover:scale-105 active:scale-95 flex justify-center items-center gap-2"
+                      style={{ ...liquidGlassStyle, borderRadius: '4px' }}
+                    >
+                      <span className="relative z-10 drop-shadow-md whitespace-nowrap">🎲 换个布局</span>
+                    </button>
+                  )}
+
                   <button
                     onClick={() => setShowGiftGenerator(true)}
                     className="group relative w-full py-2.5 text-[#FFD700] font-bold text-[10px] md:text-xs tracking-widest uppercase transition-all duration-300 hover:scale-105 active:scale-95 flex justify-center items-center gap-2"
@@ -188,7 +222,8 @@ export const Overlay: React.FC<OverlayProps> = ({
                 { icon: '✊', label: '握拳', sub: '聚合圣诞树' },
                 { icon: '👐', label: '张手', sub: '扩散圣诞树' },
                 { icon: '👌', label: '捏合', sub: '缩放旋转' },
-                { icon: '☝️', label: '食指伸直', sub: '选中照片' }
+                { icon: '☝️', label: '食指伸直', sub: '选中照片' },
+                { icon: '✌️', label: '比耶', sub: '切换造型' }
               ].map((item, idx) => (
                 <li key={idx} className="flex items-center gap-3">
                   <span className="text-lg md:text-xl drop-shadow-md">{item.icon}</span>
@@ -199,6 +234,48 @@ export const Overlay: React.FC<OverlayProps> = ({
                 </li>
               ))}
             </ul>
+
+            {/* 造型：树、收礼人的名字、爱心、星星，或者播一段新年倒计时 */}
+            {formation && onFormationChange && (
+              <div className="mt-3 pt-2 border-t border-white/10">
+                <span className="block text-[8px] tracking-widest text-[#FFD700]/80 mb-1.5">造型</span>
+                <div className="flex flex-wrap gap-1">
+                  {getFormationChoices(formationText).map(({ label, formation: choice }) => (
+                    <button
+                      key={label}
+                      onClick={() => onFormationChange(choice)}
+                      className={`px-1.5 py-0.5 rounded-full text-[8px] transition-colors ${getFormationKey(choice) === getFormationKey(formation) ? 'bg-[#FFD700]/20 text-[#FFD700]' : 'text-white/40 hover:text-white/80'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  {onCountdown && (
+                    <button onClick={onCountdown} className="px-1.5 py-0.5 rounded-full text-[8px] text-white/40 hover:text-white/80 transition-colors">
+                      倒计时
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 画质：自动时显示当前档位，也可以手动固定 */}
+            <div className="mt-3 pt-2 border-t border-white/10">
+              <div className="flex justify-between items-center mb-1.5">
+                <span className="text-[8px] tracking-widest text-[#FFD700]/80">画质</span>
+                {qualityMode === 'auto' && <span className="text-[7px] text-white/30">当前 {quality.label}</span>}
+              </div>
+              <div className="flex gap-1">
+                {QUALITY_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => setQualityMode(mode)}
+                    className={`flex-1 py-0.5 rounded-full text-[8px] transition-colors ${qualityMode === mode ? 'bg-[#FFD700]/20 text-[#FFD700]' : 'text-white/40 hover:text-white/80'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
 
           {!showInstructions && (
@@ -213,7 +290,40 @@ export const Overlay: React.FC<OverlayProps> = ({
         </div>
       </div>
 
-      {/* --- 3. 全屏礼赠生成器弹窗 --- */}
+      {/* --- 3. 本地预览照片的构图选择 --- */}
+      {showCropPicker && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-2xl" onClick={() => setShowCropPicker(false)} />
+          <div className="relative w-full max-w-sm p-5 space-y-4" style={{ ...liquidGlassStyle, borderRadius: '28px' }}>
+            <div className="flex justify-between items-center">
+              <p className="text-[#FFD700] text-xs tracking-[0.3em] font-serif">选一张照片调整构图</p>
+              <button onClick={() => setShowCropPicker(false)} className="text-[10px] text-white/40 hover:text-white">✕</button>
+            </div>
+            <div className="grid grid-cols-4 gap-2 max-h-[60vh] overflow-y-auto">
+              {photos.map((photo, i) => (
+                <button
+                  key={`${photo.url}-${i}`}
+                  onClick={() => setCroppingIndex(i)}
+                  className="relative aspect-[3/4] overflow-hidden rounded-md border border-[#FFD700]/20 hover:border-[#FFD700]/70 transition-colors"
+                >
+                  <CroppedPhoto src={photo.url} kind={photo.kind} crop={photo.crop} />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      {croppingPhoto && croppingIndex !== null && (
+        <PhotoCropEditor
+          src={croppingPhoto.url}
+          kind={croppingPhoto.kind}
+          crop={croppingPhoto.crop || null}
+          onConfirm={(crop) => { onCropChange?.(croppingIndex, crop); setCroppingIndex(null); }}
+          onCancel={() => setCroppingIndex(null)}
+        />
+      )}
+
+      {/* --- 4. 全屏礼赠生成器弹窗 --- */}
       {showGiftGenerator && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6">
           <div className="absolute inset-0 bg-black/80 backdrop-blur-2xl transition-opacity duration-700" onClick={() => setShowGiftGenerator(false)} />
@@ -225,9 +335,10 @@ export const Overlay: React.FC<OverlayProps> = ({
               CLOSE [ESC]
             </button>
             <div className="overflow-hidden shadow-2xl" style={{ borderRadius: '28px' }}>
-                <GiftLinkGenerator onSuccess={(id) => {
-                  console.log("Gift created:", id);
-                }} />
+                <GiftLinkGenerator
+                  sceneLook={sceneLook}
+                  onSceneLookChange={onSceneLookChange}
+                />
             </div>
           </div>
         </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+interface Props {
+  /** null 表示不设口令 */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+export const PassphraseField: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const enabled = value !== null;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-3 cursor-pointer select-none">
+        <input type="checkbox" checked={enabled} onChange={() => onChange(enabled ? null : '')} disabled={disabled} className="accent-rose-400" />
+        <span className="text-rose-100/80 text-sm font-handwriting tracking-wide">口令保护 (照片加密，输入口令才能看到)</span>
+      </label>
+      {enabled && (
+        <>
+          <input
+            type="text"
+            placeholder={`至少 ${MIN_PASSPHRASE_LENGTH} 个字，例如只有你们知道的纪念日`}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            autoComplete="off"
+            className="w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-2 outline-none focus:border-rose-300 font-serif-elegant tracking-wide placeholder:text-rose-200/30 placeholder:text-xs disabled:opacity-50"
+          />
+          <p className="text-rose-200/40 text-[10px] font-handwriting tracking-wide">口令不会上传，忘记后照片无法找回；请另外告诉 TA</p>
+        </>
+      )}
+    </div>
+  );
+};
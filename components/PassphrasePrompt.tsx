@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { PhotoEncryptionParams, unlockPhotoEncryption } from '../utils/crypto';
+import { getFriendlyErrorMessage } from '../utils/friendlyError';
+
+interface PassphrasePromptProps {
+  encryption: PhotoEncryptionParams;
+  /** 口令校验通过后交出派生好的密钥，用于解密 (或继续加密新照片) */
+  onUnlock: (key: CryptoKey) => void;
+  recipientName?: string;
+}
+
+// 口令保护的礼赠：输入寄件人约定的口令后才在本地解密照片
+export const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ encryption, onUnlock, recipientName }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isChecking) return;
+    setIsChecking(true);
+    setErrorMessage('');
+    try {
+      onUnlock(await unlockPhotoEncryption(passphrase, encryption));
+    } catch (err) {
+      setErrorMessage(getFriendlyErrorMessage(err));
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/40 backdrop-blur-sm">
+      <form
+        onSubmit={submit}
+        className="flex flex-col items-center gap-5 w-72 px-8 py-10 rounded-3xl bg-black/50 border border-[#FFD700]/20 shadow-[0_0_40px_rgba(255,215,0,0.15)]"
+      >
+        <div className="text-4xl drop-shadow-[0_0_20px_rgba(255,215,0,0.6)]">🔒</div>
+        <div className="text-center space-y-2">
+          <p className="text-[#FFD700] text-lg tracking-widest" style={{ fontFamily: '"Playfair Display", serif', fontStyle: 'italic' }}>
+            {recipientName ? `For ${recipientName}` : 'A Private Gift'}
+          </p>
+          <p className="text-white/60 text-[10px] tracking-[0.3em] font-serif">请输入寄件人告诉你的口令</p>
+        </div>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isChecking}
+          className="w-full bg-transparent border-b border-[#FFD700]/30 text-[#FFD700] text-center px-2 py-2 outline-none focus:border-[#FFD700]/70 tracking-[0.3em] font-serif disabled:opacity-50"
+        />
+
+        <button
+          type="submit"
+          disabled={!passphrase || isChecking}
+          className="px-6 py-2 rounded-full border border-[#FFD700] text-[#FFD700] text-xs tracking-widest hover:bg-[#FFD700] hover:text-black transition-all duration-300 disabled:opacity-40"
+        >
+          {isChecking ? <span className="animate-pulse">解锁中...</span> : '打开礼物'}
+        </button>
+
+        {errorMessage && <p className="text-red-300 text-xs text-center font-serif tracking-wide">{errorMessage}</p>}
+      </form>
+    </div>
+  );
+};
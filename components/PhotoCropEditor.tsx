@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MAX_CROP_ZOOM, PhotoCrop, getCropView, getZoomedCrop } from '../utils/photoCrop';
+import type { MediaKind } from '../utils/videoClip';
+
+interface CroppedPhotoProps {
+  src: string;
+  kind?: MediaKind;
+  crop?: PhotoCrop | null;
+}
+
+// 按裁剪框显示照片 (短片静音循环播放)：父元素需要是 relative + overflow-hidden 的 3:4 容器
+export const CroppedPhoto: React.FC<CroppedPhotoProps> = ({ src, kind = 'image', crop }) => {
+  const className = crop ? 'absolute max-w-none select-none' : 'w-full h-full object-cover select-none';
+  const style: React.CSSProperties | undefined = crop && {
+    width: `${100 / crop.width}%`,
+    height: `${100 / crop.height}%`,
+    left: `${(-crop.x / crop.width) * 100}%`,
+    top: `${(-crop.y / crop.height) * 100}%`,
+  };
+  if (kind === 'video') {
+    return <video src={src} muted loop autoPlay playsInline className={className} style={style} />;
+  }
+  return <img src={src} alt="" draggable={false} className={className} style={style} />;
+};
+
+// 读出照片或短片画面的宽高比
+const loadMediaAspect = (src: string, kind: MediaKind, onLoad: (aspect: number) => void) => {
+  if (kind === 'video') {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => onLoad((video.videoWidth || 1) / (video.videoHeight || 1));
+    video.src = src;
+    return () => { video.onloadedmetadata = null; video.removeAttribute('src'); };
+  }
+  const img = new Image();
+  img.onload = () => onLoad((img.naturalWidth || 1) / (img.naturalHeight || 1));
+  img.src = src;
+  return () => { img.onload = null; };
+};
+
+interface CropView {
+  zoom: number;
+  centerX: number;
+  centerY: number;
+}
+
+const DEFAULT_VIEW: CropView = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+interface PhotoCropEditorProps {
+  src: string;
+  kind?: MediaKind;
+  crop: PhotoCrop | null;
+  onConfirm: (crop: PhotoCrop) => void;
+  onCancel: () => void;
+}
+
+// 构图编辑：在 3:4 相框里拖动照片、缩放，确定后交出归一化的裁剪框
+export const PhotoCropEditor: React.FC<PhotoCropEditorProps> = ({ src, kind = 'image', crop, onConfirm, onCancel }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinchStart = useRef<{ distance: number; zoom: number } | null>(null);
+  const [imageAspect, setImageAspect] = useState<number | null>(null);
+  const [view, setView] = useState<CropView>(DEFAULT_VIEW);
+
+  // 先读出照片的宽高比，再把已有的裁剪框换算成编辑器的缩放和中心点
+  useEffect(() => loadMediaAspect(src, kind, (aspect) => {
+    setImageAspect(aspect);
+    setView(crop ? getCropView(aspect, crop) : DEFAULT_VIEW);
+  }), [src, kind]);
+
+  const currentCrop = imageAspect ? getZoomedCrop(imageAspect, view.zoom, view.centerX, view.centerY) : null;
+
+  const setZoom = (zoom: number) =>
+    setView(prev => ({ ...prev, zoom: Math.min(MAX_CROP_ZOOM, Math.max(1, zoom)) }));
+
+  // 拖动的是照片，所以裁剪框朝反方向移动；从夹紧后的框出发，拖过边界再往回拖能立刻响应
+  const pan = (dx: number, dy: number) => {
+    const frame = frameRef.current;
+    if (!frame || !imageAspect) return;
+    setView(prev => {
+      const box = getZoomedCrop(imageAspect, prev.zoom, prev.centerX, prev.centerY);
+      return {
+        ...prev,
+        centerX: box.x + box.width / 2 - (dx / frame.clientWidth) * box.width,
+        centerY: box.y + box.height / 2 - (dy / frame.clientHeight) * box.height,
+      };
+    });
+  };
+
+  const pointerDistance = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y) || 1;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) pinchStart.current = { distance: pointerDistance(), zoom: view.zoom };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const last = pointers.current.get(e.pointerId);
+    if (!last) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pinchStart.current && pointers.current.size >= 2) {
+      setZoom(pinchStart.current.zoom * (pointerDistance() / pinchStart.current.distance));
+    } else {
+      pan(e.clientX - last.x, e.clientY - last.y);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    pinchStart.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-md p-6">
+      <div className="flex flex-col items-center gap-4 w-72 px-6 py-6 rounded-3xl bg-black/60 border border-[#FFD700]/20 shadow-[0_0_40px_rgba(255,215,0,0.15)]">
+        <p className="text-[#FFD700] text-sm tracking-[0.3em] font-serif">调整构图</p>
+
+        <div
+          ref={frameRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={(e) => setZoom(view.zoom * Math.exp(-e.deltaY * 0.002))}
+          className="relative w-52 aspect-[3/4] overflow-hidden rounded-md border-4 border-[#FBF6EA] bg-black/40 cursor-grab active:cursor-grabbing touch-none"
+        >
+          {currentCrop && <CroppedPhoto src={src} kind={kind} crop={currentCrop} />}
+          {!currentCrop && <div className="absolute inset-0 flex items-center justify-center text-white/40 text-[10px] animate-pulse">加载中...</div>}
+          {/* 三分线 */}
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/10" />)}
+          </div>
+        </div>
+
+        <input
+          type="range"
+          min={1}
+          max={MAX_CROP_ZOOM}
+          step={0.01}
+          value={view.zoom}
+          onChange={(e) => setZoom(Number(e.target.value))}
+          disabled={!currentCrop}
+          className="w-full accent-[#FFD700]"
+        />
+        <p className="text-white/40 text-[10px] tracking-wider font-serif">拖动照片调整位置，双指或滑块缩放</p>
+
+        <div className="flex w-full gap-2">
+          <button onClick={() => setView(DEFAULT_VIEW)} className="flex-1 py-2 rounded-full border border-white/20 text-white/60 text-xs hover:bg-white/10">重置</button>
+          <button onClick={onCancel} className="flex-1 py-2 rounded-full border border-white/20 text-white/60 text-xs hover:bg-white/10">取消</button>
+          <button
+            onClick={() => currentCrop && onConfirm(currentCrop)}
+            disabled={!currentCrop}
+            className="flex-1 py-2 rounded-full border border-[#FFD700] text-[#FFD700] text-xs hover:bg-[#FFD700] hover:text-black transition-all disabled:opacity-40"
+          >
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { MAX_PHOTO_COPIES, MIN_PHOTO_COPIES, PHOTO_PLACEMENT_STRATEGIES, PhotoPlacement } from '../utils/photoPlacement';
+
+interface Props {
+  value: PhotoPlacement;
+  onChange: (placement: PhotoPlacement) => void;
+  disabled?: boolean;
+}
+
+// 照片挂法：挑一种策略，再定每张照片在树上挂几次
+export const PhotoPlacementField: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const current = PHOTO_PLACEMENT_STRATEGIES.find(strategy => strategy.id === value.strategy);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">照片挂法</p>
+      <div className="flex flex-wrap gap-1.5">
+        {PHOTO_PLACEMENT_STRATEGIES.map(strategy => (
+          <button
+            key={strategy.id}
+            onClick={() => onChange({ ...value, strategy: strategy.id })}
+            disabled={disabled}
+            className={`px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${strategy.id === value.strategy ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+          >
+            {strategy.label}
+          </button>
+        ))}
+      </div>
+      {current && <p className="text-rose-200/40 text-[10px] font-handwriting tracking-wide">{current.hint}</p>}
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-rose-100/70 text-xs font-handwriting tracking-wide">每张照片挂 {value.copies} 次</span>
+        <input
+          type="range"
+          min={MIN_PHOTO_COPIES}
+          max={MAX_PHOTO_COPIES}
+          step={1}
+          value={value.copies}
+          onChange={(e) => onChange({ ...value, copies: Number(e.target.value) })}
+          disabled={disabled}
+          className="w-28 accent-rose-400 disabled:opacity-40"
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { Component, ReactNode, Suspense, useCallback, useEffect, useState } from 'react';
+import { Environment, Lightformer } from '@react-three/drei';
+import {
+  ENVIRONMENT_LOAD_TIMEOUT_MS,
+  SceneEnvironmentChoice,
+  getUsableEnvironment,
+  markEnvironmentFailed,
+  resolveSceneEnvironment,
+} from '../utils/environments';
+import { SceneThemeId, getSceneTheme } from '../utils/themes';
+
+const ORIGIN: [number, number, number] = [0, 0, 0];
+
+// 加载器抛出的错误 (离线、404、跨域) 在这里接住，交给外面换成 fallback
+class EnvironmentErrorBoundary extends Component<{ onError: () => void; children: ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.warn('Environment map failed to load:', error);
+    this.props.onError();
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+// 放在 Suspense 里：贴图加载完成、Suspense 放行时才会挂载
+const LoadedSignal = ({ url, onLoad }: { url: string; onLoad: (url: string) => void }) => {
+  useEffect(() => onLoad(url), [url, onLoad]);
+  return null;
+};
+
+// 程序化环境：几块灯板围着场景，颜色取自主题；不需要下载任何文件
+const ProceduralEnvironment = ({ theme }: { theme: SceneThemeId }) => {
+  const palette = getSceneTheme(theme);
+  return (
+    // 灯板只在挂载时渲染一次，换主题时按 key 重新渲染
+    <Environment key={theme} resolution={256} background={false}>
+      <Lightformer form="rect" intensity={4} color={palette.spotLight} position={[10, 10, 10]} scale={[10, 5, 1]} target={ORIGIN} />
+      <Lightformer form="ring" intensity={2} color={palette.ornaments.glow} position={[-10, 5, -5]} scale={6} target={ORIGIN} />
+      <Lightformer form="rect" intensity={1.5} color={palette.skyLight} position={[0, 15, 0]} scale={[20, 20, 1]} target={ORIGIN} />
+      <Lightformer form="circle" intensity={0.8} color={palette.needles[1]} position={[0, -10, 0]} scale={20} target={ORIGIN} />
+    </Environment>
+  );
+};
+
+interface SceneEnvironmentProps {
+  choice: SceneEnvironmentChoice;
+  theme: SceneThemeId;
+}
+
+export const SceneEnvironment: React.FC<SceneEnvironmentProps> = ({ choice, theme }) => {
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
+  // 记下失败之后重新渲染一次，getUsableEnvironment 会跳到 fallback
+  const [, setFailureCount] = useState(0);
+  const environment = getUsableEnvironment(resolveSceneEnvironment(choice, theme));
+  const url = environment.url;
+
+  const fail = useCallback((failedUrl: string) => {
+    markEnvironmentFailed(failedUrl);
+    setFailureCount(count => count + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!url || url === loadedUrl) return;
+    const timer = setTimeout(() => fail(url), ENVIRONMENT_LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [url, loadedUrl, fail]);
+
+  if (!url) return <ProceduralEnvironment theme={theme} />;
+
+  return (
+    <EnvironmentErrorBoundary key={url} onError={() => fail(url)}>
+      {/* 下载期间先用程序化环境，反射不会是平的 */}
+      <Suspense fallback={<ProceduralEnvironment theme={theme} />}>
+        <Environment files={url} background={false} />
+        <LoadedSignal url={url} onLoad={setLoadedUrl} />
+      </Suspense>
+    </EnvironmentErrorBoundary>
+  );
+};
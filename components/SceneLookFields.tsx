@@ -0,0 +1,35 @@
+import React from 'react';
+import type { GiftSceneLook } from '../services/giftManifest';
+import { getOccasion } from '../utils/occasions';
+import { OccasionField } from './OccasionField';
+import { ThemeField } from './ThemeField';
+import { EnvironmentField } from './EnvironmentField';
+import { TreeShapeField } from './TreeShapeField';
+import { TopperField } from './TopperField';
+import { PhotoPlacementField } from './PhotoPlacementField';
+import { LayoutSeedField } from './LayoutSeedField';
+
+interface Props {
+  value: GiftSceneLook;
+  onChange: (look: GiftSceneLook) => void;
+  disabled?: boolean;
+}
+
+// 新建和编辑礼赠共用的外观选项，改动立刻反映到背后的预览
+export const SceneLookFields: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <>
+    {/* 选节日时连主题和树顶装饰一起换成这个节日的默认值，之后还可以单独改 */}
+    <OccasionField
+      value={value.occasion}
+      onChange={occasion => onChange({ ...value, occasion, theme: getOccasion(occasion).theme, topper: getOccasion(occasion).topper })}
+      disabled={disabled}
+    />
+    <ThemeField value={value.theme} onChange={theme => onChange({ ...value, theme })} disabled={disabled} />
+    <EnvironmentField value={value.environment} onChange={environment => onChange({ ...value, environment })} disabled={disabled} />
+    <TreeShapeField value={value.treeShape} onChange={treeShape => onChange({ ...value, treeShape })} disabled={disabled} />
+    <TopperField value={value.topper} onChange={topper => onChange({ ...value, topper })} disabled={disabled} />
+    <PhotoPlacementField value={value.photoPlacement} onChange={photoPlacement => onChange({ ...value, photoPlacement })} disabled={disabled} />
+    {/* 树的布局：和背后的预览共用一个种子 */}
+    <LayoutSeedField value={value.layoutSeed} onChange={layoutSeed => onChange({ ...value, layoutSeed })} disabled={disabled} />
+  </>
+);
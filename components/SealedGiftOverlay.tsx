@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+
+interface SealedGiftOverlayProps {
+  unlockAt: string;
+  recipientName?: string;
+  /** 倒计时归零时调用一次，由 App 重新向后端请求照片 */
+  onUnlock: () => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const splitRemaining = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return {
+    days: Math.floor(total / 86400),
+    hours: Math.floor((total % 86400) / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+  };
+};
+
+// 定时开启的礼物：时间未到时盖在散开的粒子上方，显示封存的礼盒与倒计时
+export const SealedGiftOverlay: React.FC<SealedGiftOverlayProps> = ({ unlockAt, recipientName, onUnlock }) => {
+  const target = new Date(unlockAt).getTime();
+  const [remaining, setRemaining] = useState(() => target - Date.now());
+
+  useEffect(() => {
+    let fired = false;
+    const tick = () => {
+      const next = target - Date.now();
+      setRemaining(next);
+      if (next <= 0 && !fired) {
+        fired = true;
+        onUnlock();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [target, onUnlock]);
+
+  const { days, hours, minutes, seconds } = splitRemaining(remaining);
+  const unlockLabel = new Date(unlockAt).toLocaleString(undefined, { month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+      <div className="flex flex-col items-center gap-6 px-8 py-10 rounded-3xl bg-black/40 backdrop-blur-md border border-[#FFD700]/20 shadow-[0_0_40px_rgba(255,215,0,0.15)]">
+        <div className="text-5xl animate-pulse drop-shadow-[0_0_20px_rgba(255,215,0,0.6)]">🎁</div>
+
+        <div className="text-center space-y-2">
+          <p className="text-[#FFD700] text-lg md:text-2xl tracking-widest" style={{ fontFamily: '"Playfair Display", serif', fontStyle: 'italic' }}>
+            {recipientName ? `For ${recipientName}` : 'A Sealed Gift'}
+          </p>
+          <p className="text-white/60 text-[10px] md:text-xs tracking-[0.3em] font-serif">
+            这份礼物将于 {unlockLabel} 开启
+          </p>
+        </div>
+
+        <div className="flex items-end gap-3 md:gap-5 text-[#FFD700] font-serif">
+          {days > 0 && (
+            <div className="flex flex-col items-center">
+              <span className="text-3xl md:text-5xl tabular-nums">{days}</span>
+              <span className="text-[9px] tracking-[0.3em] text-[#FFD700]/50">DAYS</span>
+            </div>
+          )}
+          {[['HRS', hours], ['MIN', minutes], ['SEC', seconds]].map(([label, value]) => (
+            <div key={label} className="flex flex-col items-center">
+              <span className="text-3xl md:text-5xl tabular-nums">{pad(value as number)}</span>
+              <span className="text-[9px] tracking-[0.3em] text-[#FFD700]/50">{label}</span>
+            </div>
+          ))}
+        </div>
+
+        {remaining <= 0 && (
+          <p className="text-white/70 text-xs tracking-widest font-serif animate-pulse">正在开启...</p>
+        )}
+      </div>
+    </div>
+  );
+};
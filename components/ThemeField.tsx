@@ -0,0 +1,31 @@
+import React from 'react';
+import { SCENE_THEMES, SceneThemeId } from '../utils/themes';
+
+interface Props {
+  value: SceneThemeId;
+  onChange: (theme: SceneThemeId) => void;
+  disabled?: boolean;
+}
+
+// 场景主题：针叶、装饰、灯带、金粉和灯光一起换色
+export const ThemeField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="space-y-2">
+    <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">场景主题</p>
+    <div className="flex flex-wrap gap-1.5">
+      {SCENE_THEMES.map(theme => (
+        <button
+          key={theme.id}
+          onClick={() => onChange(theme.id)}
+          disabled={disabled}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${theme.id === value ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+        >
+          <span
+            className="w-3 h-3 rounded-full border border-white/20"
+            style={{ background: `linear-gradient(135deg, ${theme.needles[1]} 50%, ${theme.ornaments.metal} 50%)` }}
+          />
+          {theme.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
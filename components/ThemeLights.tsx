@@ -0,0 +1,37 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SceneThemeId, useThemeColors } from '../utils/themes';
+
+interface ThemeLightsProps {
+  theme: SceneThemeId;
+}
+
+// 场景的三盏灯，颜色跟着主题渐变
+export const ThemeLights: React.FC<ThemeLightsProps> = ({ theme }) => {
+  const themeColors = useThemeColors(theme);
+  const hemisphereRef = useRef<THREE.HemisphereLight>(null);
+  const spotRef = useRef<THREE.SpotLight>(null);
+
+  useFrame(() => {
+    hemisphereRef.current?.color.copy(themeColors.skyLight);
+    hemisphereRef.current?.groundColor.copy(themeColors.groundLight);
+    spotRef.current?.color.copy(themeColors.spotLight);
+  });
+
+  return (
+    <>
+      <hemisphereLight ref={hemisphereRef} intensity={0.5} />
+      <ambientLight intensity={0.2} />
+
+      <spotLight
+        ref={spotRef}
+        position={[20, 40, 20]}
+        angle={0.4}
+        penumbra={1}
+        intensity={150}
+        castShadow
+      />
+    </>
+  );
+};
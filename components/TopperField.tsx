@@ -0,0 +1,27 @@
+import React from 'react';
+import { TREE_TOPPERS, TreeTopperId } from '../utils/toppers';
+
+interface Props {
+  value: TreeTopperId;
+  onChange: (topper: TreeTopperId) => void;
+  disabled?: boolean;
+}
+
+// 树顶装饰：树成形时立在树尖上，颜色跟着场景主题
+export const TopperField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="space-y-2">
+    <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">树顶装饰</p>
+    <div className="flex flex-wrap gap-1.5">
+      {TREE_TOPPERS.map(topper => (
+        <button
+          key={topper.id}
+          onClick={() => onChange(topper.id)}
+          disabled={disabled}
+          className={`px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${topper.id === value ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+        >
+          {topper.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,27 @@
+import React from 'react';
+import { TREE_SHAPES, TreeShapeId } from '../utils/treeShapes';
+
+interface Props {
+  value: TreeShapeId;
+  onChange: (shape: TreeShapeId) => void;
+  disabled?: boolean;
+}
+
+// 树的轮廓：针叶、装饰、照片、灯带和树顶装饰一起换形
+export const TreeShapeField: React.FC<Props> = ({ value, onChange, disabled }) => (
+  <div className="space-y-2">
+    <p className="text-rose-100/80 text-sm font-handwriting tracking-wide">树的轮廓</p>
+    <div className="flex flex-wrap gap-1.5">
+      {TREE_SHAPES.map(shape => (
+        <button
+          key={shape.id}
+          onClick={() => onChange(shape.id)}
+          disabled={disabled}
+          className={`px-3 py-1.5 rounded-full border text-xs font-handwriting transition-colors disabled:opacity-30 ${shape.id === value ? 'border-[#FFD700]/60 text-[#FFD700] bg-[#FFD700]/10' : 'border-rose-200/20 text-rose-100/70 hover:bg-white/5'}`}
+        >
+          {shape.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface Props {
+  /** ISO 时间戳；null 表示立即可以打开 */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+// datetime-local 只认本地时间 "YYYY-MM-DDTHH:mm"，这里负责和 ISO 时间戳互转
+const toLocalInputValue = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const UnlockTimeField: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const enabled = value !== null;
+
+  const toggle = () => {
+    if (enabled) return onChange(null);
+    // 默认定在今年的圣诞节早上 8 点 (已过则明年)
+    const now = new Date();
+    const christmas = new Date(now.getFullYear(), 11, 25, 8, 0);
+    if (christmas.getTime() <= now.getTime()) christmas.setFullYear(now.getFullYear() + 1);
+    onChange(christmas.toISOString());
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-3 cursor-pointer select-none">
+        <input type="checkbox" checked={enabled} onChange={toggle} disabled={disabled} className="accent-rose-400" />
+        <span className="text-rose-100/80 text-sm font-handwriting tracking-wide">定时开启 (时间未到只能看到封存的礼物)</span>
+      </label>
+      {enabled && (
+        <input
+          type="datetime-local"
+          value={toLocalInputValue(value)}
+          onChange={(e) => onChange(e.target.value ? new Date(e.target.value).toISOString() : null)}
+          disabled={disabled}
+          className="w-full bg-transparent border-b border-rose-200/20 text-rose-50 px-2 py-2 outline-none focus:border-rose-300 font-serif-elegant tracking-wide disabled:opacity-50 [color-scheme:dark]"
+        />
+      )}
+    </div>
+  );
+};
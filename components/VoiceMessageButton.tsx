@@ -0,0 +1,44 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GiftVoiceNote } from '../services/giftManifest';
+import { VoicePlayback, playVoiceNote } from '../utils/voicePlayback';
+import { formatVoiceDuration } from './VoiceNoteRecorder';
+
+interface VoiceMessageButtonProps {
+  voiceNote: GiftVoiceNote;
+  /** 口令保护的礼赠：用来在本地解密语音 */
+  photoKey?: CryptoKey | null;
+  senderName?: string;
+}
+
+// 树成形后出现的「播放留言」按钮
+export const VoiceMessageButton: React.FC<VoiceMessageButtonProps> = ({ voiceNote, photoKey, senderName }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playbackRef = useRef<VoicePlayback | null>(null);
+
+  useEffect(() => () => playbackRef.current?.stop(), []);
+
+  const toggle = () => {
+    if (playbackRef.current) {
+      playbackRef.current.stop();
+      return;
+    }
+    const playback = playVoiceNote(voiceNote.url, photoKey);
+    playbackRef.current = playback;
+    setIsPlaying(true);
+    playback.finished.then(() => {
+      if (playbackRef.current === playback) playbackRef.current = null;
+      setIsPlaying(false);
+    });
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      className="absolute bottom-36 md:bottom-12 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-5 py-2 rounded-full border border-[#FFD700]/40 bg-black/40 backdrop-blur-md text-[#FFD700] text-xs tracking-widest font-serif shadow-[0_0_20px_rgba(255,215,0,0.2)] hover:bg-[#FFD700]/10 transition-all duration-300 animate-in fade-in"
+    >
+      <span className={isPlaying ? 'animate-pulse' : ''}>{isPlaying ? '❚❚' : '▶'}</span>
+      <span>{isPlaying ? '正在播放留言' : `播放${senderName ? ` ${senderName} 的` : ''}留言`}</span>
+      <span className="opacity-60">{formatVoiceDuration(voiceNote.duration)}</span>
+    </button>
+  );
+};
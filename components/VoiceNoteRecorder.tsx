@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GiftVoiceNote } from '../services/giftManifest';
+import { getFriendlyErrorMessage } from '../utils/friendlyError';
+import { VoicePlayback, playVoiceNote } from '../utils/voicePlayback';
+import { VoiceRecording, startVoiceRecording } from '../utils/voiceRecorder';
+
+// 可编辑的语音留言：和 EditablePhoto 一样，新录的带着 file，url 是本地 blob；
+// 口令保护的礼赠里 url 指向密文，previewUrl 是解密后的本地 blob
+export interface EditableVoiceNote {
+  url: string;
+  duration: number;
+  file?: File;
+  previewUrl?: string;
+}
+
+export const createEditableVoiceNote = (file: File, duration: number): EditableVoiceNote => ({
+  url: URL.createObjectURL(file),
+  duration,
+  file,
+});
+
+export const editableVoiceNoteFrom = (note: GiftVoiceNote | null, previewUrl?: string): EditableVoiceNote | null =>
+  note && { url: note.url, duration: note.duration, previewUrl };
+
+export const releaseEditableVoiceNote = (note: EditableVoiceNote | null | undefined) => {
+  if (note?.file) URL.revokeObjectURL(note.url);
+  if (note?.previewUrl) URL.revokeObjectURL(note.previewUrl);
+};
+
+export const getVoiceNotePreviewUrl = (note: EditableVoiceNote) => note.previewUrl || note.url;
+
+/** 写进 manifest 的结构：新录的留言换成上传后的链接 */
+export const toGiftVoiceNote = (note: EditableVoiceNote | null, uploadedUrl?: string): GiftVoiceNote | null =>
+  note && { url: uploadedUrl || note.url, duration: note.duration };
+
+export const formatVoiceDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+interface Props {
+  value: EditableVoiceNote | null;
+  onChange: (note: EditableVoiceNote | null) => void;
+  maxSeconds: number;
+  disabled?: boolean;
+  /** 照片墙里的小号样式 */
+  compact?: boolean;
+}
+
+// 录音 / 试听 / 删除：录到 maxSeconds 自动停止
+export const VoiceNoteRecorder: React.FC<Props> = ({ value, onChange, maxSeconds, disabled, compact }) => {
+  const [recording, setRecording] = useState<VoiceRecording | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playbackRef = useRef<VoicePlayback | null>(null);
+  const recordingRef = useRef(recording);
+  recordingRef.current = recording;
+
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    playbackRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    if (!recording) return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 200);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const start = async () => {
+    playbackRef.current?.stop();
+    try {
+      setElapsed(0);
+      setRecording(await startVoiceRecording());
+    } catch (err) {
+      alert(getFriendlyErrorMessage(err));
+    }
+  };
+
+  const stop = async () => {
+    if (!recording) return;
+    setRecording(null);
+    const { file, duration } = await recording.stop();
+    releaseEditableVoiceNote(value);
+    onChange(createEditableVoiceNote(file, Math.min(duration, maxSeconds)));
+  };
+
+  useEffect(() => {
+    if (recording && elapsed >= maxSeconds) stop();
+  }, [recording, elapsed, maxSeconds]);
+
+  const togglePlay = () => {
+    if (!value) return;
+    if (playbackRef.current) {
+      playbackRef.current.stop();
+      return;
+    }
+    const playback = playVoiceNote(getVoiceNotePreviewUrl(value));
+    playbackRef.current = playback;
+    setIsPlaying(true);
+    playback.finished.then(() => {
+      if (playbackRef.current === playback) playbackRef.current = null;
+      setIsPlaying(false);
+    });
+  };
+
+  const remove = () => {
+    playbackRef.current?.stop();
+    releaseEditableVoiceNote(value);
+    onChange(null);
+  };
+
+  const buttonClass = compact
+    ? 'text-[9px] px-1 rounded text-rose-100/70 hover:text-rose-50 disabled:opacity-30'
+    : 'px-3 py-1.5 rounded-full border border-rose-200/20 text-rose-100/80 text-xs font-handwriting hover:bg-white/5 disabled:opacity-30';
+
+  if (recording) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className={`${compact ? 'text-[9px]' : 'text-xs'} text-red-300 animate-pulse`}>● {formatVoiceDuration(elapsed)} / {formatVoiceDuration(maxSeconds)}</span>
+        <button onClick={stop} className={buttonClass}>■ 停止</button>
+      </div>
+    );
+  }
+
+  if (!value) {
+    return (
+      <button onClick={start} disabled={disabled} className={buttonClass}>
+        🎙 {compact ? '配音' : '录一段语音留言'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={togglePlay} disabled={disabled && !isPlaying} className={buttonClass}>
+        {isPlaying ? '❚❚' : '▶'} {formatVoiceDuration(value.duration)}
+      </button>
+      <button onClick={start} disabled={disabled} className={buttonClass}>重录</button>
+      <button onClick={remove} disabled={disabled} className={buttonClass}>✕</button>
+    </div>
+  );
+};
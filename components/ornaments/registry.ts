@@ -0,0 +1,170 @@
+// 装饰物注册表：每种装饰声明自己的几何体、材质、出现权重、尺寸和动画方式，
+// LuxuryTree 按注册表为每一种建一个 instancedMesh。新增装饰只需要在 ORNAMENT_TYPES 里加一项，
+// 再把它的 id 加进要用它的节日 (utils/occasions) 的装饰组合。
+// 颜色只写配色角色 (金属色、主色……)，具体颜色由场景主题决定。
+import * as THREE from 'three';
+import { RandomSource } from '../../utils/math';
+import { readMusicBands } from '../../utils/musicAnalyser';
+import type { OrnamentColorRole } from '../../utils/themes';
+import { BELL_PROFILE, LANTERN_PROFILE, createCandyCaneCurve, createHeartShape, createHeptagramShape, createSnowflakeShape } from './shapes';
+import { createCandyStripeMap, createGiftWrapBumpMap, createGoldLeafMap, createHammeredBumpMap } from './textures';
+
+/**
+ * spin：绕随机轴自转，带呼吸和上下浮动
+ * face-out：面朝树外固定不动 (七角星、雪花)
+ * swing：竖直挂着左右摆动 (铃铛、拐杖糖)
+ */
+export type OrnamentMotion = 'spin' | 'face-out' | 'swing';
+
+export interface OrnamentDefinition {
+  id: string;
+  /** 生成时的相对权重，和其它类型的权重一起归一化 */
+  weight: number;
+  /** 相对于随机基础尺寸 (0.45-0.8) 的缩放 */
+  scale: number;
+  motion: OrnamentMotion;
+  /** segments 是画质档位给出的曲面细分，不需要的类型忽略即可 */
+  createGeometry: (segments: number) => THREE.BufferGeometry;
+  createMaterial: () => THREE.Material;
+  /** 每个实例的配色角色 (颜色乘在材质颜色上)；random 是布局的随机流。不提供时直接用材质颜色 */
+  pickColor?: (localIndex: number, random: RandomSource) => OrnamentColorRole;
+  /** 材质本身跟随主题的颜色，比如七角星的金色和辉光 */
+  themeColors?: { color?: OrnamentColorRole; emissive?: OrnamentColorRole };
+  /** 每帧更新材质，比如七角星的呼吸光 */
+  animateMaterial?: (material: THREE.Material, time: number) => void;
+}
+
+const pickFrom = (roles: OrnamentColorRole[]) => (_: number, random: RandomSource) => roles[Math.floor(random() * roles.length)];
+
+export const ORNAMENT_TYPES: OrnamentDefinition[] = [
+  {
+    id: 'sphere',
+    weight: 0.28,
+    scale: 1.0,
+    motion: 'spin',
+    createGeometry: (segments) => new THREE.SphereGeometry(1, segments, segments),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      metalness: 1.0, roughness: 0.12, clearcoat: 1.0, clearcoatRoughness: 0.05,
+      bumpMap: createHammeredBumpMap(), bumpScale: 0.03, envMapIntensity: 2.5,
+      emissive: "#000000", emissiveIntensity: 0.0,
+    }),
+    // 金属色和主色交替 (经典主题是金红两色)
+    pickColor: (localIndex) => (localIndex % 2 === 1 ? 'metal' : 'primary'),
+  },
+  {
+    id: 'box',
+    weight: 0.2,
+    scale: 0.8,
+    motion: 'spin',
+    createGeometry: () => new THREE.BoxGeometry(1, 1, 1),
+    createMaterial: () => new THREE.MeshStandardMaterial({
+      metalness: 0.1, roughness: 0.4, bumpMap: createGiftWrapBumpMap(), bumpScale: 0.05, envMapIntensity: 0.8,
+    }),
+    pickColor: pickFrom(['deep', 'light', 'metal']),
+  },
+  {
+    id: 'gem',
+    weight: 0.15,
+    scale: 0.8,
+    motion: 'spin',
+    createGeometry: () => new THREE.OctahedronGeometry(1, 0),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      color: "#FFFFFF", metalness: 0.1, roughness: 0.0, transmission: 0.6, thickness: 1.0,
+      envMapIntensity: 3.0, emissive: "#FFFFFF", emissiveIntensity: 0.2, toneMapped: false,
+    }),
+    pickColor: pickFrom(['light', 'frost']),
+  },
+  {
+    id: 'heptagram',
+    weight: 0.15,
+    scale: 0.9,
+    motion: 'face-out',
+    createGeometry: () => new THREE.ExtrudeGeometry(createHeptagramShape(), {
+      depth: 0.2, bevelEnabled: true, bevelThickness: 0.05, bevelSize: 0.05, bevelSegments: 4,
+    }),
+    createMaterial: () => new THREE.MeshStandardMaterial({
+      color: "#FFD700", metalness: 1.0, roughness: 0.3, bumpMap: createGoldLeafMap(), bumpScale: 0.02,
+      emissive: "#FF6600", emissiveIntensity: 1.0, toneMapped: false, envMapIntensity: 2.0,
+    }),
+    themeColors: { color: 'metal', emissive: 'glow' },
+    // 呼吸光叠加音乐中频的脉冲
+    animateMaterial: (material, time) => {
+      (material as THREE.MeshStandardMaterial).emissiveIntensity = 2.5 + Math.sin(time * 3.0) * 1.5 + readMusicBands().mid * 4.0;
+    },
+  },
+  {
+    id: 'candy-cane',
+    weight: 0.08,
+    scale: 0.75,
+    motion: 'swing',
+    createGeometry: (segments) => new THREE.TubeGeometry(createCandyCaneCurve(), Math.max(16, segments), 0.09, 8, false),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      map: createCandyStripeMap(), roughness: 0.25, clearcoat: 1.0, clearcoatRoughness: 0.1, envMapIntensity: 1.2,
+    }),
+  },
+  {
+    id: 'bell',
+    weight: 0.08,
+    scale: 0.8,
+    motion: 'swing',
+    createGeometry: (segments) => new THREE.LatheGeometry(BELL_PROFILE, segments),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      metalness: 1.0, roughness: 0.2, clearcoat: 0.6, bumpMap: createHammeredBumpMap(), bumpScale: 0.02,
+      envMapIntensity: 2.5, side: THREE.DoubleSide,
+    }),
+    pickColor: pickFrom(['metal', 'silver', 'blush']),
+  },
+  {
+    id: 'snowflake',
+    weight: 0.06,
+    scale: 0.9,
+    motion: 'face-out',
+    createGeometry: () => new THREE.ExtrudeGeometry(createSnowflakeShape(), {
+      depth: 0.06, bevelEnabled: true, bevelThickness: 0.02, bevelSize: 0.02, bevelSegments: 2,
+    }).center(),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      color: "#F5FBFF", metalness: 0.2, roughness: 0.1, iridescence: 0.8, envMapIntensity: 2.0,
+      emissive: "#DFF6FF", emissiveIntensity: 0.4, toneMapped: false,
+    }),
+  },
+  {
+    id: 'lantern',
+    weight: 0.12,
+    scale: 1.3,
+    motion: 'swing',
+    createGeometry: (segments) => new THREE.LatheGeometry(LANTERN_PROFILE, Math.max(12, segments / 2)),
+    // 红灯笼不跟主题换色，里面透出暖光
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      color: "#D40000", roughness: 0.5, sheen: 1.0, sheenColor: "#FF6F3C",
+      emissive: "#FF3300", emissiveIntensity: 0.8, toneMapped: false,
+    }),
+  },
+  {
+    id: 'heart',
+    weight: 0.15,
+    scale: 1.1,
+    motion: 'face-out',
+    createGeometry: () => new THREE.ExtrudeGeometry(createHeartShape(), {
+      depth: 0.2, bevelEnabled: true, bevelThickness: 0.06, bevelSize: 0.05, bevelSegments: 4,
+    }).center(),
+    createMaterial: () => new THREE.MeshPhysicalMaterial({
+      metalness: 0.6, roughness: 0.2, clearcoat: 1.0, clearcoatRoughness: 0.05, envMapIntensity: 2.0,
+    }),
+    pickColor: pickFrom(['primary', 'blush', 'metal']),
+  },
+];
+
+/**
+ * 按权重在 allowed (节日的装饰组合) 里挑一种装饰，random 取 [0, 1)；返回 ORNAMENT_TYPES 里的下标。
+ * 组合相同时挑选结果只取决于 random，布局种子照样可以复现。
+ */
+export const pickOrnamentType = (random: number, allowed: readonly string[]) => {
+  const candidates = ORNAMENT_TYPES.map((_, i) => i).filter(i => allowed.includes(ORNAMENT_TYPES[i].id));
+  const pool = candidates.length > 0 ? candidates : ORNAMENT_TYPES.map((_, i) => i);
+  let threshold = random * pool.reduce((sum, i) => sum + ORNAMENT_TYPES[i].weight, 0);
+  for (const i of pool) {
+    threshold -= ORNAMENT_TYPES[i].weight;
+    if (threshold < 0) return i;
+  }
+  return pool[pool.length - 1];
+};
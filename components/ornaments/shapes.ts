@@ -0,0 +1,77 @@
+// 装饰物的轮廓与路径，挤出或沿路径扫出几何体
+import * as THREE from 'three';
+
+export const createHeptagramShape = () => {
+  const shape = new THREE.Shape();
+  const points = 7;
+  const outerRadiusBase = 1.0;
+  const innerRadiusBase = 0.5;
+  for (let i = 0; i < points * 2; i++) {
+    const angle = (i / (points * 2)) * Math.PI * 2;
+    const isTip = i % 2 === 0;
+    const variance = Math.sin(i * 123.45) * 0.15;
+    const r = isTip ? outerRadiusBase + variance : innerRadiusBase + variance * 0.5;
+    const x = Math.cos(angle) * r;
+    const y = Math.sin(angle) * r;
+    if (i === 0) shape.moveTo(x, y);
+    else shape.lineTo(x, y);
+  }
+  shape.closePath();
+  return shape;
+};
+
+// 六瓣雪花：每一瓣是一根细枝，中段左右各伸出一根小枝，瓣根围成一个六边形
+export const createSnowflakeShape = () => {
+  const shape = new THREE.Shape();
+  const w = 0.06;
+  const arm: [number, number][] = [
+    [0.15, -w], [0.45, -w], [0.7, -0.25], [0.58, -w], [1.0, -w],
+    [1.0, w], [0.58, w], [0.7, 0.25], [0.45, w], [0.15, w],
+  ];
+  for (let i = 0; i < 6; i++) {
+    const angle = (i / 6) * Math.PI * 2;
+    const cos = Math.cos(angle); const sin = Math.sin(angle);
+    arm.forEach(([along, across], j) => {
+      const x = along * cos - across * sin;
+      const y = along * sin + across * cos;
+      if (i === 0 && j === 0) shape.moveTo(x, y);
+      else shape.lineTo(x, y);
+    });
+  }
+  shape.closePath();
+  return shape;
+};
+
+// 拐杖糖：一根直杆顶上弯一个钩，整体高度约 1.5，重心大致在原点
+export const createCandyCaneCurve = () => new THREE.CatmullRomCurve3([
+  new THREE.Vector3(-0.15, -0.85, 0),
+  new THREE.Vector3(-0.15, 0.25, 0),
+  new THREE.Vector3(-0.08, 0.5, 0),
+  new THREE.Vector3(0.12, 0.62, 0),
+  new THREE.Vector3(0.33, 0.52, 0),
+  new THREE.Vector3(0.42, 0.3, 0),
+]);
+
+// 铃铛的半剖面 (半径, 高度)，绕 y 轴旋转成型；口朝下敞开
+export const BELL_PROFILE = [
+  [0.05, 0.6], [0.15, 0.56], [0.2, 0.42], [0.23, 0.15], [0.3, -0.15], [0.45, -0.4], [0.52, -0.5],
+].map(([x, y]) => new THREE.Vector2(x, y));
+
+// 爱心：两段贝塞尔曲线拼成，宽高约 1，中心在原点
+export const createHeartShape = () => {
+  const shape = new THREE.Shape();
+  shape.moveTo(0, -0.5);
+  shape.bezierCurveTo(-0.15, -0.3, -0.55, -0.1, -0.55, 0.2);
+  shape.bezierCurveTo(-0.55, 0.45, -0.3, 0.55, -0.15, 0.5);
+  shape.bezierCurveTo(-0.05, 0.47, 0, 0.38, 0, 0.3);
+  shape.bezierCurveTo(0, 0.38, 0.05, 0.47, 0.15, 0.5);
+  shape.bezierCurveTo(0.3, 0.55, 0.55, 0.45, 0.55, 0.2);
+  shape.bezierCurveTo(0.55, -0.1, 0.15, -0.3, 0, -0.5);
+  return shape;
+};
+
+// 灯笼的半剖面：上下两圈灯口，中间鼓成球形
+export const LANTERN_PROFILE = [
+  [0.001, -0.55], [0.22, -0.55], [0.22, -0.48], [0.38, -0.38], [0.5, -0.18], [0.53, 0], [0.5, 0.18],
+  [0.38, 0.38], [0.22, 0.48], [0.22, 0.55], [0.001, 0.55],
+].map(([x, y]) => new THREE.Vector2(x, y));
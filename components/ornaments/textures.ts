@@ -0,0 +1,92 @@
+// 装饰物用到的程序化贴图：都用 canvas 现画，不需要额外下载图片
+import * as THREE from 'three';
+
+export const createHammeredBumpMap = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1024; canvas.height = 1024;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(0, 0, 1024, 1024);
+  for (let i = 0; i < 2000; i++) {
+    const x = Math.random() * 1024;
+    const y = Math.random() * 1024;
+    const r = Math.random() * 20 + 5;
+    const g = ctx.createRadialGradient(x, y, 0, x, y, r);
+    g.addColorStop(0, 'rgba(255, 255, 255, 0.3)');
+    g.addColorStop(1, 'rgba(128, 128, 128, 0)');
+    ctx.fillStyle = g;
+    ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2); ctx.fill();
+  }
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.wrapS = THREE.RepeatWrapping;
+  tex.wrapT = THREE.RepeatWrapping;
+  return tex;
+};
+
+export const createGiftWrapBumpMap = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1024; canvas.height = 1024;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#808080';
+  ctx.fillRect(0, 0, 1024, 1024);
+  const imgData = ctx.getImageData(0, 0, 1024, 1024);
+  const data = imgData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const noise = (Math.random() - 0.5) * 20;
+    data[i] = Math.max(0, Math.min(255, 128 + noise));
+    data[i + 1] = Math.max(0, Math.min(255, 128 + noise));
+    data[i + 2] = Math.max(0, Math.min(255, 128 + noise));
+  }
+  ctx.putImageData(imgData, 0, 0);
+  ctx.fillStyle = '#FFFFFF';
+  const ribbonWidth = 150;
+  ctx.fillRect(512 - ribbonWidth / 2, 0, ribbonWidth, 1024);
+  ctx.fillRect(0, 512 - ribbonWidth / 2, 1024, ribbonWidth);
+  const tex = new THREE.CanvasTexture(canvas);
+  return tex;
+};
+
+export const createGoldLeafMap = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512; canvas.height = 512;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, 512, 512);
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 1;
+  for (let i = 0; i < 1000; i++) {
+    const x = Math.random() * 512;
+    const y = Math.random() * 512;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + (Math.random() - 0.5) * 20, y + (Math.random() - 0.5) * 20);
+    ctx.stroke();
+  }
+  const tex = new THREE.CanvasTexture(canvas);
+  return tex;
+};
+
+// 拐杖糖的红白斜条纹，沿管子长度方向重复
+export const createCandyStripeMap = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256; canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, 256, 64);
+  ctx.fillStyle = '#D40000';
+  for (let x = -64; x < 256; x += 64) {
+    ctx.beginPath();
+    ctx.moveTo(x, 64); ctx.lineTo(x + 24, 64); ctx.lineTo(x + 88, 0); ctx.lineTo(x + 64, 0);
+    ctx.closePath(); ctx.fill();
+  }
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  tex.wrapS = THREE.RepeatWrapping;
+  tex.wrapT = THREE.RepeatWrapping;
+  tex.repeat.set(6, 1);
+  return tex;
+};
@@ -0,0 +1,65 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+
+// 一只翅膀的轮廓：从肩部向外上方张开，下缘三道羽尖
+const createWingShape = () => {
+  const shape = new THREE.Shape();
+  shape.moveTo(0, 0);
+  shape.bezierCurveTo(0.4, 0.5, 1.0, 0.9, 1.4, 0.8);
+  shape.lineTo(1.15, 0.5);
+  shape.lineTo(1.25, 0.3);
+  shape.lineTo(0.9, 0.15);
+  shape.lineTo(0.95, -0.05);
+  shape.lineTo(0.55, -0.1);
+  shape.bezierCurveTo(0.3, -0.2, 0.1, -0.15, 0, 0);
+  return shape;
+};
+
+// 天使：长袍、头和发光的光环，翅膀缓缓扇动，整体上下浮动
+export const Angel: React.FC<TopperProps> = ({ colors }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const leftWingRef = useRef<THREE.Mesh>(null);
+  const rightWingRef = useRef<THREE.Mesh>(null);
+  const wingGeometry = useMemo(() => new THREE.ExtrudeGeometry(createWingShape(), {
+    depth: 0.05, bevelEnabled: true, bevelThickness: 0.02, bevelSize: 0.02, bevelSegments: 2,
+  }), []);
+  const robeMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({ roughness: 0.6, sheen: 1.0, sheenRoughness: 0.4 }), []);
+  const skinMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: '#F3D2B8', roughness: 0.7 }), []);
+  const wingMaterial = useMemo(() => createGlowMaterial({ roughness: 0.3, emissiveIntensity: 0.5, side: THREE.DoubleSide }), []);
+  const haloMaterial = useMemo(() => createGlowMaterial({ metalness: 1.0, roughness: 0.2, emissiveIntensity: 3.0 }), []);
+
+  useThemedMaterials(colors, [
+    [robeMaterial, 'light'],
+    [wingMaterial, 'frost', 'frost'],
+    [haloMaterial, 'metal', 'metal'],
+  ]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    const flap = Math.sin(t * 2.2) * 0.25;
+    // 翅膀的轮廓朝 +x 张开，绕竖轴转到身后；另一只先转半圈再镜像地扇
+    if (rightWingRef.current) rightWingRef.current.rotation.y = 0.5 + flap;
+    if (leftWingRef.current) leftWingRef.current.rotation.y = Math.PI - 0.5 - flap;
+    if (groupRef.current) groupRef.current.position.y = 0.4 + Math.sin(t * 1.1) * 0.15;
+    haloMaterial.emissiveIntensity = 2.5 + Math.sin(t * 1.6) * 0.8;
+  });
+
+  return (
+    <group ref={groupRef} scale={1.6}>
+      <mesh position={[0, 0.7, 0]} material={robeMaterial}>
+        <coneGeometry args={[0.55, 1.4, 48, 1, true]} />
+      </mesh>
+      <mesh position={[0, 1.6, 0]} material={skinMaterial}>
+        <sphereGeometry args={[0.26, 32, 32]} />
+      </mesh>
+      <mesh position={[0, 2.05, 0]} rotation={[Math.PI / 2, 0, 0]} material={haloMaterial}>
+        <torusGeometry args={[0.28, 0.04, 12, 48]} />
+      </mesh>
+      {/* 两只翅膀长在背后，左右镜像 */}
+      <mesh ref={rightWingRef} position={[0.05, 0.9, -0.25]} geometry={wingGeometry} material={wingMaterial} />
+      <mesh ref={leftWingRef} position={[-0.05, 0.9, -0.25]} geometry={wingGeometry} material={wingMaterial} />
+    </group>
+  );
+};
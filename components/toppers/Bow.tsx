@@ -0,0 +1,51 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+import { createVelvetBumpMap } from './textures';
+
+// 蝴蝶结：两只丝绒绳圈、两条飘带和一颗金属结扣，结扣带一点辉光；待机时随风轻摆
+export const Bow: React.FC<TopperProps> = ({ colors }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const leftTailRef = useRef<THREE.Mesh>(null);
+  const rightTailRef = useRef<THREE.Mesh>(null);
+  const velvetMap = useMemo(() => createVelvetBumpMap(), []);
+  const ribbonMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
+    roughness: 0.5, sheen: 1.0, sheenRoughness: 0.3, bumpMap: velvetMap, bumpScale: 0.03, side: THREE.DoubleSide,
+  }), [velvetMap]);
+  const knotMaterial = useMemo(() => createGlowMaterial({ metalness: 1.0, roughness: 0.2, emissiveIntensity: 1.5, envMapIntensity: 2.0 }), []);
+
+  useThemedMaterials(colors, [
+    [ribbonMaterial, 'primary'],
+    [knotMaterial, 'metal', 'glow'],
+  ]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    if (groupRef.current) groupRef.current.rotation.z = Math.sin(t * 0.9) * 0.06;
+    if (leftTailRef.current) leftTailRef.current.rotation.z = 0.35 + Math.sin(t * 1.7) * 0.08;
+    if (rightTailRef.current) rightTailRef.current.rotation.z = -0.35 + Math.sin(t * 1.7 + 1.2) * 0.08;
+    knotMaterial.emissiveIntensity = 1.2 + Math.sin(t * 2.0) * 0.4;
+  });
+
+  return (
+    <group ref={groupRef} position={[0, 1.0, 0]} scale={1.8}>
+      {/* 绳圈是压扁的圆环，向两侧斜着张开 */}
+      <mesh position={[-0.55, 0.1, 0]} rotation={[0, 0, 0.3]} scale={[1, 0.6, 0.35]} material={ribbonMaterial}>
+        <torusGeometry args={[0.45, 0.12, 16, 48]} />
+      </mesh>
+      <mesh position={[0.55, 0.1, 0]} rotation={[0, 0, -0.3]} scale={[1, 0.6, 0.35]} material={ribbonMaterial}>
+        <torusGeometry args={[0.45, 0.12, 16, 48]} />
+      </mesh>
+      <mesh ref={leftTailRef} position={[-0.15, -0.45, 0.05]} material={ribbonMaterial}>
+        <boxGeometry args={[0.22, 0.9, 0.04]} />
+      </mesh>
+      <mesh ref={rightTailRef} position={[0.15, -0.45, 0.05]} material={ribbonMaterial}>
+        <boxGeometry args={[0.22, 0.9, 0.04]} />
+      </mesh>
+      <mesh position={[0, 0.05, 0.05]} material={knotMaterial}>
+        <sphereGeometry args={[0.18, 32, 32]} />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { readMusicBands } from '../../utils/musicAnalyser';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+
+const createStarShape = () => {
+  const shape = new THREE.Shape();
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? 1.0 : 0.42;
+    const angle = Math.PI / 2 + (i * Math.PI) / 5;
+    if (i === 0) shape.moveTo(Math.cos(angle) * r, Math.sin(angle) * r);
+    else shape.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+  }
+  shape.closePath();
+  return shape;
+};
+
+// 发光的五角星：绕竖轴慢慢转，辉光随呼吸和音乐的高频闪动
+export const GlowingStar: React.FC<TopperProps> = ({ colors }) => {
+  const starRef = useRef<THREE.Mesh>(null);
+  const geometry = useMemo(() => new THREE.ExtrudeGeometry(createStarShape(), {
+    depth: 0.3, bevelEnabled: true, bevelThickness: 0.1, bevelSize: 0.08, bevelSegments: 4,
+  }).center(), []);
+  const material = useMemo(() => createGlowMaterial({ metalness: 0.9, roughness: 0.25, envMapIntensity: 2.0 }), []);
+  // 星星背后的一圈柔光
+  const haloMaterial = useMemo(() => new THREE.MeshBasicMaterial({
+    transparent: true, opacity: 0.25, depthWrite: false, blending: THREE.AdditiveBlending, toneMapped: false,
+  }), []);
+
+  useThemedMaterials(colors, [[material, 'metal', 'glow']]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    material.emissiveIntensity = 2.0 + Math.sin(t * 2.0) * 0.8 + readMusicBands().treble * 3.0;
+    haloMaterial.color.copy(colors.ornaments.glow);
+    if (starRef.current) starRef.current.rotation.y = t * 0.6;
+  });
+
+  return (
+    <group position={[0, 1.6, 0]} scale={1.6}>
+      <mesh ref={starRef} geometry={geometry} material={material} />
+      <mesh material={haloMaterial}>
+        <sphereGeometry args={[1.3, 32, 32]} />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { readMusicBands } from '../../utils/musicAnalyser';
+import { createHeartShape } from '../ornaments/shapes';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+
+// 爱心：像心跳一样一缩一放，跳的时候辉光跟着变亮，低音重的时候跳得更用力
+export const Heart: React.FC<TopperProps> = ({ colors }) => {
+  const heartRef = useRef<THREE.Mesh>(null);
+  const geometry = useMemo(() => new THREE.ExtrudeGeometry(createHeartShape(), {
+    depth: 0.3, bevelEnabled: true, bevelThickness: 0.12, bevelSize: 0.1, bevelSegments: 6,
+  }).center(), []);
+  const material = useMemo(() => createGlowMaterial({ metalness: 0.5, roughness: 0.2, envMapIntensity: 2.0 }), []);
+
+  useThemedMaterials(colors, [[material, 'primary', 'blush']]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    // 一个心跳周期里两下：咚—咚
+    const beatPhase = (t * 1.1) % 1;
+    const beat = Math.exp(-beatPhase * 12) + 0.6 * Math.exp(-Math.abs(beatPhase - 0.25) * 14);
+    const pulse = beat * (1 + readMusicBands().bass);
+    if (heartRef.current) {
+      heartRef.current.scale.setScalar(1 + pulse * 0.08);
+      heartRef.current.rotation.y = Math.sin(t * 0.5) * 0.4;
+    }
+    material.emissiveIntensity = 1.0 + pulse * 2.0;
+  });
+
+  return (
+    <group position={[0, 1.5, 0]} scale={2.6}>
+      <mesh ref={heartRef} geometry={geometry} material={material} />
+    </group>
+  );
+};
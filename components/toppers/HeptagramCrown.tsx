@@ -0,0 +1,64 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { readMusicBands } from '../../utils/musicAnalyser';
+import { createHeptagramShape } from '../ornaments/shapes';
+import { createGoldLeafMap } from '../ornaments/textures';
+import { ThemedMaterialBinding, TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+
+const CROWN_POINTS = 7;
+const CROWN_RADIUS = 0.9;
+
+// 七角星王冠：金属冠圈上立着一圈七角星，顶上一颗大的；整体慢慢转，小星星依次明暗
+export const HeptagramCrown: React.FC<TopperProps> = ({ colors }) => {
+  const crownRef = useRef<THREE.Group>(null);
+  const starGeometry = useMemo(() => new THREE.ExtrudeGeometry(createHeptagramShape(), {
+    depth: 0.15, bevelEnabled: true, bevelThickness: 0.04, bevelSize: 0.04, bevelSegments: 3,
+  }).center(), []);
+  const bandMaterial = useMemo(() => new THREE.MeshStandardMaterial({
+    metalness: 1.0, roughness: 0.25, bumpMap: createGoldLeafMap(), bumpScale: 0.02, envMapIntensity: 2.0,
+  }), []);
+  // 每颗小星星一份材质，才能各自明暗
+  const starMaterials = useMemo(() => Array.from({ length: CROWN_POINTS }, () =>
+    createGlowMaterial({ metalness: 1.0, roughness: 0.3, envMapIntensity: 2.0 })), []);
+  const crestMaterial = useMemo(() => createGlowMaterial({ metalness: 1.0, roughness: 0.3, envMapIntensity: 2.0 }), []);
+
+  useThemedMaterials(colors, [
+    [bandMaterial, 'metal'],
+    [crestMaterial, 'metal', 'glow'],
+    ...starMaterials.map((material): ThemedMaterialBinding => [material, 'metal', 'glow']),
+  ]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    const mid = readMusicBands().mid;
+    if (crownRef.current) crownRef.current.rotation.y = t * 0.3;
+    starMaterials.forEach((material, i) => {
+      material.emissiveIntensity = 1.5 + Math.sin(t * 2.5 - (i / CROWN_POINTS) * Math.PI * 2) * 1.0 + mid * 3.0;
+    });
+    crestMaterial.emissiveIntensity = 2.5 + Math.sin(t * 1.5) * 1.0 + mid * 4.0;
+  });
+
+  return (
+    <group ref={crownRef} position={[0, 0.6, 0]} scale={1.4}>
+      <mesh rotation={[Math.PI / 2, 0, 0]} material={bandMaterial}>
+        <torusGeometry args={[CROWN_RADIUS, 0.1, 16, 64]} />
+      </mesh>
+      {starMaterials.map((material, i) => {
+        const angle = (i / CROWN_POINTS) * Math.PI * 2;
+        // 立在冠圈上，正面朝外
+        return (
+          <mesh
+            key={i}
+            position={[Math.cos(angle) * CROWN_RADIUS, 0.4, Math.sin(angle) * CROWN_RADIUS]}
+            rotation={[0, Math.PI / 2 - angle, 0]}
+            scale={0.35}
+            geometry={starGeometry}
+            material={material}
+          />
+        );
+      })}
+      <mesh position={[0, 1.2, 0]} scale={0.6} geometry={starGeometry} material={crestMaterial} />
+    </group>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { LANTERN_PROFILE } from '../ornaments/shapes';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+
+const TASSEL_COUNT = 9;
+
+// 大红灯笼：灯身透出摇曳的暖光，金色灯口，底下一束流苏；待机时像挂在风里一样轻轻摆动
+export const Lantern: React.FC<TopperProps> = ({ colors }) => {
+  const swingRef = useRef<THREE.Group>(null);
+  const bodyGeometry = useMemo(() => new THREE.LatheGeometry(LANTERN_PROFILE, 48), []);
+  // 灯笼的红色不跟主题换，只有金色部分跟着主题的金属色
+  const bodyMaterial = useMemo(() => createGlowMaterial({
+    color: '#D40000', roughness: 0.6, emissive: '#FF3300', emissiveIntensity: 1.2, side: THREE.DoubleSide,
+  }), []);
+  const trimMaterial = useMemo(() => createGlowMaterial({ metalness: 1.0, roughness: 0.25, emissiveIntensity: 0.4, envMapIntensity: 2.0 }), []);
+  const tasselMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: '#B30000', roughness: 0.8 }), []);
+
+  useThemedMaterials(colors, [[trimMaterial, 'metal', 'metal']]);
+
+  useFrame(({ clock }) => {
+    const t = clock.elapsedTime;
+    if (swingRef.current) {
+      swingRef.current.rotation.z = Math.sin(t * 1.2) * 0.08;
+      swingRef.current.rotation.x = Math.sin(t * 0.9 + 0.5) * 0.05;
+    }
+    // 烛光的明暗叠两个频率，看起来不那么规律
+    bodyMaterial.emissiveIntensity = 1.2 + Math.sin(t * 5.3) * 0.15 + Math.sin(t * 8.7) * 0.1;
+  });
+
+  return (
+    <group position={[0, 1.6, 0]} scale={2.2}>
+      {/* 摆动的支点在灯笼顶上 */}
+      <group ref={swingRef} position={[0, 0.55, 0]}>
+        <group position={[0, -0.55, 0]}>
+          <mesh geometry={bodyGeometry} material={bodyMaterial} />
+          <mesh position={[0, 0.58, 0]} material={trimMaterial}>
+            <cylinderGeometry args={[0.24, 0.24, 0.08, 32]} />
+          </mesh>
+          <mesh position={[0, -0.58, 0]} material={trimMaterial}>
+            <cylinderGeometry args={[0.24, 0.24, 0.08, 32]} />
+          </mesh>
+          {Array.from({ length: TASSEL_COUNT }, (_, i) => {
+            const angle = (i / TASSEL_COUNT) * Math.PI * 2;
+            return (
+              <mesh key={i} position={[Math.cos(angle) * 0.08, -0.85, Math.sin(angle) * 0.08]} material={tasselMaterial}>
+                <cylinderGeometry args={[0.015, 0.015, 0.45, 6]} />
+              </mesh>
+            );
+          })}
+        </group>
+      </group>
+    </group>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TopperProps, createGlowMaterial, useThemedMaterials } from './shared';
+import { createVelvetBumpMap } from './textures';
+
+// 圣诞帽：红色绒布帽身、白色毛边，帽尖的绒球微微发光；待机时轻轻摇摆
+export const SantaHat: React.FC<TopperProps> = ({ colors }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const velvetMap = useMemo(() => createVelvetBumpMap(), []);
+  const whiteTrimMap = useMemo(() => createVelvetBumpMap(), []);
+  const redFabricMat = useMemo(() => new THREE.MeshStandardMaterial({
+    roughness: 0.9,
+    bumpMap: velvetMap,
+    bumpScale: 0.05,
+  }), [velvetMap]);
+  const whiteFabricMat = useMemo(() => new THREE.MeshStandardMaterial({
+    roughness: 1.0,
+    bumpMap: whiteTrimMap,
+    bumpScale: 0.1,
+  }), [whiteTrimMap]);
+  const pomPomMat = useMemo(() => createGlowMaterial({ roughness: 1.0, emissiveIntensity: 0.6 }), []);
+
+  useThemedMaterials(colors, [
+    [redFabricMat, 'primary'],
+    [whiteFabricMat, 'light'],
+    [pomPomMat, 'light', 'light'],
+  ]);
+
+  useFrame(({ clock }) => {
+    if (!groupRef.current) return;
+    const t = clock.elapsedTime;
+    groupRef.current.rotation.x = 0.1 + Math.sin(t * 0.8) * 0.04;
+    groupRef.current.rotation.z = 0.1 + Math.sin(t * 0.6 + 1.0) * 0.05;
+  });
+
+  return (
+    <group ref={groupRef} rotation={[0.1, 0, 0.1]} scale={2.5}>
+      <mesh position={[0, 0, 0]} material={whiteFabricMat}>
+        <torusGeometry args={[0.5, 0.2, 16, 32]} />
+      </mesh>
+      <mesh position={[0, 0.8, 0]} material={redFabricMat}>
+        <coneGeometry args={[0.45, 1.8, 64]} />
+      </mesh>
+      <mesh position={[0, 1.7, 0]} material={pomPomMat}>
+        <sphereGeometry args={[0.22, 32, 32]} />
+      </mesh>
+    </group>
+  );
+};
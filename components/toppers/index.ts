@@ -0,0 +1,22 @@
+// 树顶装饰注册表：每种树顶装饰一个组件，自带模型、材质和待机动画。
+// LuxuryTree 把它放在 getTopperPlacement 给出的位置并按树的大小缩放；新增树顶装饰只需要在这里和 utils/toppers 里各加一项。
+import type React from 'react';
+import type { TreeTopperId } from '../../utils/toppers';
+import { Angel } from './Angel';
+import { Bow } from './Bow';
+import { GlowingStar } from './GlowingStar';
+import { Heart } from './Heart';
+import { HeptagramCrown } from './HeptagramCrown';
+import { Lantern } from './Lantern';
+import { SantaHat } from './SantaHat';
+import type { TopperProps } from './shared';
+
+export const TOPPER_COMPONENTS: Record<TreeTopperId, React.FC<TopperProps>> = {
+  'santa-hat': SantaHat,
+  star: GlowingStar,
+  angel: Angel,
+  bow: Bow,
+  'heptagram-crown': HeptagramCrown,
+  lantern: Lantern,
+  heart: Heart,
+};
@@ -0,0 +1,25 @@
+// 树顶装饰共用的类型和小工具
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { OrnamentColorRole, ThemeColors } from '../../utils/themes';
+
+export interface TopperProps {
+  /** 当前主题的颜色 (正在渐变的那一批) */
+  colors: ThemeColors;
+}
+
+/** 材质的颜色和辉光跟着主题走：[材质, 颜色角色, 辉光角色] */
+export type ThemedMaterialBinding = [THREE.MeshStandardMaterial, OrnamentColorRole, OrnamentColorRole?];
+
+export const useThemedMaterials = (colors: ThemeColors, bindings: ThemedMaterialBinding[]) => {
+  useFrame(() => {
+    bindings.forEach(([material, color, emissive]) => {
+      material.color.copy(colors.ornaments[color]);
+      if (emissive) material.emissive.copy(colors.ornaments[emissive]);
+    });
+  });
+};
+
+/** 辉光强度超过 1 且不做色调映射时，亮度才会越过 Bloom 的阈值 */
+export const createGlowMaterial = (params: THREE.MeshStandardMaterialParameters) =>
+  new THREE.MeshStandardMaterial({ toneMapped: false, ...params });
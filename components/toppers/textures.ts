@@ -0,0 +1,24 @@
+// 树顶装饰用到的程序化贴图
+import * as THREE from 'three';
+
+// 绒布的细密颗粒，圣诞帽和蝴蝶结共用
+export const createVelvetBumpMap = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512; canvas.height = 512;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const imgData = ctx.createImageData(512, 512);
+  for (let i = 0; i < imgData.data.length; i += 4) {
+    const val = Math.random() * 255;
+    imgData.data[i] = val;
+    imgData.data[i + 1] = val;
+    imgData.data[i + 2] = val;
+    imgData.data[i + 3] = 255;
+  }
+  ctx.putImageData(imgData, 0, 0);
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.wrapS = THREE.RepeatWrapping;
+  tex.wrapT = THREE.RepeatWrapping;
+  tex.repeat.set(4, 4);
+  return tex;
+};
@@ -0,0 +1,100 @@
+// 生成随站点打包的几张小环境贴图 (public/hdr/*.hdr)：等距柱状投影，Radiance RGBE 格式，不压缩。
+// 只用来给金属、玻璃和相框提供反射，分辨率很低也看不出来。改了这里的参数后运行：
+//   node scripts/generate-environments.mjs
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const WIDTH = 256;
+const HEIGHT = 128;
+const OUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'hdr');
+
+const smoothstep = (a, b, x) => {
+  const t = Math.min(1, Math.max(0, (x - a) / (b - a)));
+  return t * t * (3 - 2 * t);
+};
+const mix = (a, b, t) => a.map((v, i) => v + (b[i] - v) * t);
+
+// 经纬度 (弧度) 对应的方向；纬度 0 是地平线，π/2 是正上方
+const direction = (lon, lat) => [Math.cos(lat) * Math.cos(lon), Math.sin(lat), Math.cos(lat) * Math.sin(lon)];
+
+/** 圆形的柔光：中心在 (lon, lat)，radius 是角半径 */
+const spot = (dir, { lon, lat, radius, color, intensity }) => {
+  const [cx, cy, cz] = direction(lon, lat);
+  const angle = Math.acos(Math.min(1, dir[0] * cx + dir[1] * cy + dir[2] * cz));
+  const k = (1 - smoothstep(radius * 0.6, radius, angle)) * intensity;
+  return color.map(c => c * k);
+};
+
+/** 矩形的柔光箱：经纬度范围内发光，边缘稍微虚化 */
+const softbox = (lon, lat, { lonFrom, lonTo, latFrom, latTo, color, intensity }) => {
+  const edge = 0.05;
+  const k = smoothstep(lonFrom - edge, lonFrom, lon) * (1 - smoothstep(lonTo, lonTo + edge, lon))
+    * smoothstep(latFrom - edge, latFrom, lat) * (1 - smoothstep(latTo, latTo + edge, lat)) * intensity;
+  return color.map(c => c * k);
+};
+
+const add = (...colors) => colors.reduce((sum, c) => sum.map((v, i) => v + c[i]));
+
+const ENVIRONMENTS = {
+  // 暖色的室内：深色木墙，一侧壁炉的橙光，头顶和窗边几盏暖灯
+  'warm-interior': (lon, lat, dir) => add(
+    lat > 0 ? mix([0.09, 0.055, 0.03], [0.16, 0.1, 0.05], lat / (Math.PI / 2)) : [0.04, 0.025, 0.015],
+    spot(dir, { lon: 0.6, lat: -0.15, radius: 0.45, color: [1.0, 0.45, 0.15], intensity: 6 }),
+    spot(dir, { lon: 2.4, lat: 0.5, radius: 0.18, color: [1.0, 0.8, 0.55], intensity: 14 }),
+    spot(dir, { lon: 4.2, lat: 0.45, radius: 0.18, color: [1.0, 0.8, 0.55], intensity: 12 }),
+    softbox(lon, lat, { lonFrom: 5.0, lonTo: 5.6, latFrom: 0.05, latTo: 0.6, color: [0.85, 0.75, 0.6], intensity: 2.5 }),
+  ),
+  // 下雪的夜晚：深蓝的夜空、冷白的月亮，雪地反着微光，远处几点暖色的窗户
+  'snowy-night': (lon, lat, dir) => add(
+    lat > 0 ? mix([0.1, 0.12, 0.2], [0.015, 0.02, 0.06], Math.pow(lat / (Math.PI / 2), 0.6)) : [0.22, 0.25, 0.32],
+    spot(dir, { lon: 1.2, lat: 0.7, radius: 0.08, color: [0.85, 0.9, 1.0], intensity: 40 }),
+    spot(dir, { lon: 1.2, lat: 0.7, radius: 0.5, color: [0.4, 0.5, 0.8], intensity: 0.6 }),
+    ...[0.3, 2.9, 3.6, 5.1].map(l => spot(dir, { lon: l, lat: 0.03, radius: 0.05, color: [1.0, 0.7, 0.4], intensity: 8 })),
+  ),
+  // 影棚：中性灰的背景，正面主光、侧面补光和头顶的长条灯
+  studio: (lon, lat) => add(
+    mix([0.04, 0.04, 0.04], [0.18, 0.18, 0.18], smoothstep(-Math.PI / 2, Math.PI / 2, lat)),
+    softbox(lon, lat, { lonFrom: 1.1, lonTo: 1.7, latFrom: 0.1, latTo: 0.7, color: [1, 1, 1], intensity: 8 }),
+    softbox(lon, lat, { lonFrom: 3.6, lonTo: 4.3, latFrom: 0.0, latTo: 0.5, color: [0.9, 0.95, 1.0], intensity: 3 }),
+    softbox(lon, lat, { lonFrom: 0, lonTo: Math.PI * 2, latFrom: 1.25, latTo: 1.45, color: [1, 1, 1], intensity: 5 }),
+  ),
+};
+
+const toRGBE = ([r, g, b], out, offset) => {
+  const v = Math.max(r, g, b);
+  if (v < 1e-32) {
+    out.fill(0, offset, offset + 4);
+    return;
+  }
+  // v = m · 2^exponent，m 在 [0.5, 1)
+  const exponent = Math.floor(Math.log2(v)) + 1;
+  const scale = 256 / 2 ** exponent;
+  out[offset] = Math.min(255, Math.floor(r * scale));
+  out[offset + 1] = Math.min(255, Math.floor(g * scale));
+  out[offset + 2] = Math.min(255, Math.floor(b * scale));
+  out[offset + 3] = exponent + 128;
+};
+
+const encode = (shade) => {
+  const header = `#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${HEIGHT} +X ${WIDTH}\n`;
+  const pixels = new Uint8Array(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    const lat = Math.PI / 2 - ((y + 0.5) / HEIGHT) * Math.PI;
+    for (let x = 0; x < WIDTH; x++) {
+      const lon = ((x + 0.5) / WIDTH) * Math.PI * 2;
+      toRGBE(shade(lon, lat, direction(lon, lat)), pixels, (y * WIDTH + x) * 4);
+    }
+  }
+  // 开头两个字节是 2, 2 的话读取方会当成游程编码
+  if (pixels[0] === 2 && pixels[1] === 2) pixels[0] = 3;
+  return Buffer.concat([Buffer.from(header, 'ascii'), Buffer.from(pixels)]);
+};
+
+mkdirSync(OUT_DIR, { recursive: true });
+for (const [name, shade] of Object.entries(ENVIRONMENTS)) {
+  const file = join(OUT_DIR, `${name}.hdr`);
+  writeFileSync(file, encode(shade));
+  console.log(`wrote ${file}`);
+}
@@ -0,0 +1,25 @@
+import { getSupabase, isSupabaseConfigured } from '../supabaseClient';
+import { GiftRepository } from './giftRepository';
+import { createSupabaseGiftRepository } from './supabaseGiftRepository';
+import { createLocalGiftRepository } from './localGiftRepository';
+
+let repository: GiftRepository | null = null;
+
+// VITE_GIFT_BACKEND=local|supabase；未配置时，没有 Supabase 环境变量就自动走本地实现
+export const getGiftRepository = (): GiftRepository => {
+  if (!repository) {
+    const backend = import.meta.env.VITE_GIFT_BACKEND || (isSupabaseConfigured() ? 'supabase' : 'local');
+    if (backend === 'local') {
+      const codes = (import.meta.env.VITE_LOCAL_GIFT_CODES || '').split(',').map(c => c.trim()).filter(Boolean);
+      repository = createLocalGiftRepository({ validCodes: codes.length > 0 ? codes : undefined });
+    } else {
+      repository = createSupabaseGiftRepository(getSupabase());
+    }
+  }
+  return repository;
+};
+
+// 供自动化测试 / 预览环境注入自定义实现
+export const setGiftRepository = (next: GiftRepository | null) => {
+  repository = next;
+};
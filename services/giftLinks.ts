@@ -0,0 +1,15 @@
+// 礼赠相关链接：公开的 ?id= 链接，以及寄件人私有的编辑链接。
+// owner token 放在 # 之后，不会出现在服务器日志或 Referer 里。
+
+export const buildGiftLink = (customId: string) =>
+  `${window.location.origin}?id=${encodeURIComponent(customId)}`;
+
+export const buildEditLink = (customId: string, ownerToken: string) =>
+  `${window.location.origin}?edit=${encodeURIComponent(customId)}#token=${ownerToken}`;
+
+export const readEditLinkParams = (): { customId: string; ownerToken: string } | null => {
+  const customId = new URLSearchParams(window.location.search).get('edit');
+  const ownerToken = new URLSearchParams(window.location.hash.replace(/^#/, '')).get('token');
+  if (!customId || !ownerToken) return null;
+  return { customId, ownerToken };
+};
@@ -0,0 +1,269 @@
+// 礼赠清单 (manifest)：随礼赠一起存储的版本化 JSON，描述收礼人、寄语、照片和场景选项。
+// 旧礼赠只有 photo_urls 一列，读取时由 parseGiftManifest 自动升级成 v1 结构。
+
+import type { PhotoEncryptionParams } from '../utils/crypto';
+import type { PhotoCrop } from '../utils/photoCrop';
+import { DEFAULT_SCENE_ENVIRONMENT_CHOICE, SceneEnvironmentChoice, isSceneEnvironmentChoice } from '../utils/environments';
+import { DEFAULT_OCCASION_ID, OccasionId, isOccasionId } from '../utils/occasions';
+import { DEFAULT_PHOTO_PLACEMENT, MAX_PHOTO_COPIES, MIN_PHOTO_COPIES, PhotoPlacement, isPhotoPlacementStrategy } from '../utils/photoPlacement';
+import { DEFAULT_SCENE_THEME_ID, SceneThemeId, isSceneThemeId } from '../utils/themes';
+import { DEFAULT_TREE_TOPPER_ID, TreeTopperId, isTreeTopperId } from '../utils/toppers';
+import { DEFAULT_TREE_SHAPE_ID, TreeShapeId, isTreeShapeId } from '../utils/treeShapes';
+import type { MediaKind } from '../utils/videoClip';
+
+export const GIFT_MANIFEST_VERSION = 1;
+
+export const MAX_NAME_LENGTH = 20;
+export const MAX_MESSAGE_LENGTH = 120;
+export const MAX_MANIFEST_PHOTOS = 15;
+export const MAX_CAPTION_LENGTH = 24;
+/** 其中最多几段短视频 / 动图 */
+export const MAX_MANIFEST_CLIPS = 3;
+/** 语音留言时长上限 (秒)：整份礼赠一段，每张照片还可以各配一段短的 */
+export const MAX_VOICE_NOTE_SECONDS = 60;
+export const MAX_PHOTO_VOICE_NOTE_SECONDS = 15;
+/** 背景音乐歌单：最多几首，其中寄件人自己上传的歌最多一首 */
+export const MAX_PLAYLIST_TRACKS = 5;
+export const MAX_UPLOADED_TRACKS = 1;
+export const MAX_TRACK_TITLE_LENGTH = 40;
+
+export interface GiftVoiceNote {
+  url: string;
+  /** 时长 (秒)，用于显示 */
+  duration: number;
+}
+
+export interface GiftPhoto {
+  url: string;
+  /** video 是录好的短片 (包括动图)，在树上用 VideoTexture 播放 */
+  kind: MediaKind;
+  /** 写在拍立得下方留白处的一句话，可以为空 */
+  caption: string;
+  /** 拍立得上显示的区域 (归一化坐标)，null 表示默认居中裁剪 */
+  crop: PhotoCrop | null;
+  /** 聚焦这张照片时播放的语音 */
+  voiceNote: GiftVoiceNote | null;
+}
+
+/** 背景音乐：曲库里的曲目只存 id，寄件人上传的歌存链接和歌名 */
+export type GiftMusicTrack =
+  | { source: 'library'; id: string }
+  | { source: 'upload'; url: string; title: string };
+
+export interface GiftSceneOptions {
+  /** 节日预设：页头文字、造型、装饰组合和环境特效，旧礼赠都是圣诞节 */
+  occasion: OccasionId;
+  /** 场景主题：配色、材质和灯光 */
+  theme: SceneThemeId;
+  /** 反射用的环境贴图，'theme' 跟随主题 */
+  environment: SceneEnvironmentChoice;
+  /** 按顺序循环播放的歌单，空数组表示不放音乐 */
+  music: GiftMusicTrack[];
+  layoutSeed: number;
+  /** 照片在树上的挂法，寄件人挑选 */
+  photoPlacement: PhotoPlacement;
+  /** 树的轮廓 */
+  treeShape: TreeShapeId;
+  /** 树顶装饰，旧礼赠都是圣诞帽 */
+  topper: TreeTopperId;
+}
+
+/** 场景里决定树长什么样的那部分选项：本地预览、新建礼赠和编辑器都整体传递、整体保存 */
+export type GiftSceneLook = Omit<GiftSceneOptions, 'music'>;
+
+export interface GiftManifest {
+  version: typeof GIFT_MANIFEST_VERSION;
+  recipientName: string;
+  senderName: string;
+  message: string;
+  photos: GiftPhoto[];
+  scene: GiftSceneOptions;
+  /** 定时开启：ISO 时间戳，之前只展示倒计时，服务端也不会返回照片 */
+  unlockAt: string | null;
+  /** 口令保护：照片是 AES-GCM 密文，这里只保存派生密钥所需的参数，不含口令本身 */
+  encryption: PhotoEncryptionParams | null;
+  /** 树成形后收礼人可以点开的语音留言 */
+  voiceNote: GiftVoiceNote | null;
+}
+
+export interface GiftDetails {
+  recipientName: string;
+  senderName: string;
+  message: string;
+}
+
+export class GiftManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GiftManifestError';
+  }
+}
+
+export const createLayoutSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+export const DEFAULT_SCENE_LOOK: GiftSceneLook = {
+  occasion: DEFAULT_OCCASION_ID,
+  theme: DEFAULT_SCENE_THEME_ID,
+  environment: DEFAULT_SCENE_ENVIRONMENT_CHOICE,
+  layoutSeed: 0,
+  photoPlacement: DEFAULT_PHOTO_PLACEMENT,
+  treeShape: DEFAULT_TREE_SHAPE_ID,
+  topper: DEFAULT_TREE_TOPPER_ID,
+};
+
+export const DEFAULT_SCENE_OPTIONS: GiftSceneOptions = {
+  ...DEFAULT_SCENE_LOOK,
+  music: [{ source: 'library', id: 'default' }],
+};
+
+const cleanText = (value: unknown, maxLength: number) =>
+  typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+
+const isPhotoUrl = (url: unknown): url is string =>
+  typeof url === 'string' && /^(https?:\/\/|\/|blob:)/.test(url);
+
+const roundCropValue = (value: number) => Math.round(value * 10000) / 10000;
+
+const parseCrop = (raw: any): PhotoCrop | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const values = [raw.x, raw.y, raw.width, raw.height];
+  if (!values.every(value => typeof value === 'number' && Number.isFinite(value))) return null;
+  const [x, y, width, height] = values.map(roundCropValue);
+  // 留一点余量给四舍五入
+  if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > 1.001 || y + height > 1.001) return null;
+  return { x, y, width, height };
+};
+
+const parseVoiceNote = (raw: any, maxSeconds: number): GiftVoiceNote | null => {
+  if (!raw || typeof raw !== 'object' || !isPhotoUrl(raw.url)) return null;
+  if (typeof raw.duration !== 'number' || !Number.isFinite(raw.duration) || raw.duration <= 0) return null;
+  return { url: raw.url, duration: Math.min(maxSeconds, Math.round(raw.duration * 10) / 10) };
+};
+
+const parsePhotos = (raw: unknown): GiftPhoto[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(item => (typeof item === 'string' ? { url: item } : item))
+    .filter((item): item is GiftPhoto => !!item && isPhotoUrl((item as GiftPhoto).url))
+    .slice(0, MAX_MANIFEST_PHOTOS)
+    .map(item => ({
+      url: item.url,
+      kind: item.kind === 'video' ? 'video' as const : 'image' as const,
+      caption: cleanText(item.caption, MAX_CAPTION_LENGTH),
+      crop: parseCrop(item.crop),
+      voiceNote: parseVoiceNote(item.voiceNote, MAX_PHOTO_VOICE_NOTE_SECONDS),
+    }));
+};
+
+const parseMusicTrack = (raw: any): GiftMusicTrack | null => {
+  if (typeof raw === 'string') return raw ? { source: 'library', id: raw } : null;
+  if (raw?.source === 'library' && typeof raw.id === 'string' && raw.id) return { source: 'library', id: raw.id };
+  if (raw?.source === 'upload' && isPhotoUrl(raw.url)) {
+    return { source: 'upload', url: raw.url, title: cleanText(raw.title, MAX_TRACK_TITLE_LENGTH) };
+  }
+  return null;
+};
+
+// 早期的 scene.music 是单个曲目 id 的字符串
+const parseMusic = (raw: unknown): GiftMusicTrack[] => {
+  if (raw === undefined || raw === null) return DEFAULT_SCENE_OPTIONS.music;
+  const tracks = (Array.isArray(raw) ? raw : [raw])
+    .map(parseMusicTrack)
+    .filter((track): track is GiftMusicTrack => !!track);
+  const uploaded = tracks.filter(track => track.source === 'upload').slice(0, MAX_UPLOADED_TRACKS);
+  return tracks
+    .filter(track => track.source === 'library' || uploaded.includes(track))
+    .slice(0, MAX_PLAYLIST_TRACKS);
+};
+
+const parsePhotoPlacement = (raw: any): PhotoPlacement => ({
+  strategy: isPhotoPlacementStrategy(raw?.strategy) ? raw.strategy : DEFAULT_PHOTO_PLACEMENT.strategy,
+  copies: Number.isInteger(raw?.copies)
+    ? Math.min(MAX_PHOTO_COPIES, Math.max(MIN_PHOTO_COPIES, raw.copies))
+    : DEFAULT_PHOTO_PLACEMENT.copies,
+});
+
+const parseSceneOptions = (raw: any): GiftSceneOptions => ({
+  occasion: isOccasionId(raw?.occasion) ? raw.occasion : DEFAULT_SCENE_OPTIONS.occasion,
+  theme: isSceneThemeId(raw?.theme) ? raw.theme : DEFAULT_SCENE_OPTIONS.theme,
+  environment: isSceneEnvironmentChoice(raw?.environment) ? raw.environment : DEFAULT_SCENE_OPTIONS.environment,
+  music: parseMusic(raw?.music),
+  layoutSeed: Number.isInteger(raw?.layoutSeed) ? raw.layoutSeed : DEFAULT_SCENE_OPTIONS.layoutSeed,
+  photoPlacement: parsePhotoPlacement(raw?.photoPlacement),
+  treeShape: isTreeShapeId(raw?.treeShape) ? raw.treeShape : DEFAULT_SCENE_OPTIONS.treeShape,
+  topper: isTreeTopperId(raw?.topper) ? raw.topper : DEFAULT_SCENE_OPTIONS.topper,
+});
+
+const parseUnlockAt = (raw: unknown): string | null => {
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+  const time = new Date(raw).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+};
+
+const parseEncryption = (raw: any): PhotoEncryptionParams | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  if (raw.algorithm !== 'AES-GCM' || raw.kdf !== 'PBKDF2-SHA256') return null;
+  if (!Number.isInteger(raw.iterations) || typeof raw.salt !== 'string' || typeof raw.check !== 'string') return null;
+  return { algorithm: raw.algorithm, kdf: raw.kdf, iterations: raw.iterations, salt: raw.salt, check: raw.check };
+};
+
+// 所有入口 (新建 / 编辑 / 读取) 都经过这里，保证 manifest 结构一致
+const normalizeManifest = (input: any): GiftManifest => ({
+  version: GIFT_MANIFEST_VERSION,
+  recipientName: cleanText(input.recipientName, MAX_NAME_LENGTH),
+  senderName: cleanText(input.senderName, MAX_NAME_LENGTH),
+  message: cleanText(input.message, MAX_MESSAGE_LENGTH),
+  photos: parsePhotos(input.photos),
+  scene: parseSceneOptions(input.scene),
+  unlockAt: parseUnlockAt(input.unlockAt),
+  encryption: parseEncryption(input.encryption),
+  voiceNote: parseVoiceNote(input.voiceNote, MAX_VOICE_NOTE_SECONDS),
+});
+
+export interface GiftManifestInput extends GiftDetails {
+  photos: GiftPhoto[];
+  unlockAt?: string | null;
+  encryption?: PhotoEncryptionParams | null;
+  voiceNote?: GiftVoiceNote | null;
+  scene?: Partial<GiftSceneOptions>;
+}
+
+export const createGiftManifest = (input: GiftManifestInput): GiftManifest => normalizeManifest({
+  ...input,
+  scene: { ...DEFAULT_SCENE_OPTIONS, layoutSeed: createLayoutSeed(), ...input.scene },
+});
+
+// 编辑已发布的礼赠：只替换 patch 里给出的字段，其余 (如 scene.layoutSeed) 保持不变
+export const updateGiftManifest = (manifest: GiftManifest, patch: Partial<Omit<GiftManifest, 'version'>>): GiftManifest =>
+  normalizeManifest({ ...manifest, ...patch });
+
+export const isGiftSealed = (manifest: Pick<GiftManifest, 'unlockAt'>, now = Date.now()) =>
+  !!manifest.unlockAt && new Date(manifest.unlockAt).getTime() > now;
+
+/**
+ * 校验并规范化后端返回的 manifest。
+ * 没有 manifest 的旧礼赠：照片取 photo_urls，收礼人沿用当年的做法显示链接里的 id。
+ */
+export const parseGiftManifest = (raw: unknown, legacy: { customId: string; photoUrls: string[] }): GiftManifest => {
+  if (raw === null || raw === undefined) {
+    return normalizeManifest({ recipientName: legacy.customId, photos: legacy.photoUrls });
+  }
+
+  let input: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      input = JSON.parse(raw);
+    } catch {
+      throw new GiftManifestError('manifest is not valid JSON');
+    }
+  }
+  if (typeof input !== 'object' || input === null || typeof input.version !== 'number') {
+    throw new GiftManifestError('manifest is missing a version');
+  }
+  if (input.version > GIFT_MANIFEST_VERSION) {
+    throw new GiftManifestError(`manifest version ${input.version} is newer than supported (${GIFT_MANIFEST_VERSION})`);
+  }
+
+  const manifest = normalizeManifest(input);
+  return manifest.photos.length > 0 ? manifest : { ...manifest, photos: parsePhotos(legacy.photoUrls) };
+};
@@ -0,0 +1,65 @@
+import type { GiftManifest } from './giftManifest';
+
+// 礼赠存储后端的统一接口：App / GiftLinkGenerator / GiftCodeGuard 只依赖这里，
+// 具体是 Supabase 还是本地 IndexedDB/内存由 giftBackend.ts 的 getGiftRepository() 决定。
+
+export interface GiftRecord {
+  customId: string;
+  /** 旧版一列式数据，新礼赠与 manifest.photos 保持一致 */
+  photoUrls: string[];
+  /** 原始 manifest，未校验；旧礼赠为 null。使用前交给 parseGiftManifest */
+  manifest: unknown;
+  /** 定时开启的时间 (ISO)，没有设置为 null */
+  unlockAt: string | null;
+  /** 尚未到开启时间：后端已抹掉所有照片链接 */
+  sealed: boolean;
+}
+
+export interface CreateGiftInput {
+  code: string;
+  customId: string;
+  manifest: GiftManifest;
+}
+
+export interface CreateGiftResult {
+  /** 寄件人专属的编辑凭证，只在创建时返回一次 */
+  ownerToken: string;
+}
+
+export interface UpdateGiftInput {
+  customId: string;
+  ownerToken: string;
+  manifest: GiftManifest;
+}
+
+export interface CodeCheckResult {
+  success: boolean;
+  message: string;
+}
+
+export interface GiftRepository {
+  /** 预校验 ID 是否未被占用 (上传前调用，节省 OSS 流量) */
+  isIdAvailable(customId: string): Promise<boolean>;
+  /** 消耗兑换码并写入礼赠；暗号错误或 ID 冲突时抛出 GiftRepositoryError */
+  createGift(input: CreateGiftInput): Promise<CreateGiftResult>;
+  /** 凭 owner token 改写已发布的礼赠；token 不匹配时抛出 GiftRepositoryError('token_error') */
+  updateGift(input: UpdateGiftInput): Promise<void>;
+  /** 不存在时返回 null；未到开启时间的礼赠 sealed 为 true 且不含照片 */
+  loadGift(customId: string): Promise<GiftRecord | null>;
+  /** 寄件人凭 owner token 读取完整礼赠 (不受定时开启限制)；token 不匹配时抛出 GiftRepositoryError('token_error') */
+  loadGiftForOwner(customId: string, ownerToken: string): Promise<GiftRecord>;
+  /** 校验并消耗兑换码 */
+  verifyCode(code: string): Promise<CodeCheckResult>;
+}
+
+export type GiftRepositoryErrorCode = 'id_exists' | 'code_error' | 'token_error' | 'backend_error';
+
+// message 保持原样 (可能是后端返回的中文提示)，交给 getFriendlyErrorMessage 翻译
+export class GiftRepositoryError extends Error {
+  constructor(public code: GiftRepositoryErrorCode, message: string) {
+    super(message);
+    this.name = 'GiftRepositoryError';
+  }
+}
+
+export const normalizeGiftCode = (code: string) => code.trim().toUpperCase();
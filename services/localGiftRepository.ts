@@ -0,0 +1,170 @@
+import { GiftRecord, GiftRepository, GiftRepositoryError, normalizeGiftCode } from './giftRepository';
+import { GiftManifest, isGiftSealed } from './giftManifest';
+
+// 本地实现：浏览器里存 IndexedDB (刷新后仍在)，没有 IndexedDB 的环境 (自动化测试 / 隐私模式) 退回内存。
+// 语义与 Supabase 的 RPC 保持一致：兑换码一次性使用，custom_id 唯一。
+
+interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  put(key: string, value: T): Promise<void>;
+}
+
+type StoreName = 'gifts' | 'codes';
+
+// 本地同样只保存 owner token 的摘要，读取礼赠时不会带出
+interface LocalGiftRow {
+  customId: string;
+  photoUrls: string[];
+  manifest: GiftManifest;
+  ownerTokenHash: string;
+}
+
+// 与 Supabase 的 get_gift 一致：未到开启时间时抹掉所有照片链接、语音留言和寄件人上传的歌
+const sealManifest = (manifest: GiftManifest): GiftManifest => ({
+  ...manifest,
+  photos: [],
+  voiceNote: null,
+  scene: { ...manifest.scene, music: manifest.scene.music.filter(track => track.source !== 'upload') },
+});
+
+const toGiftRecord = ({ customId, photoUrls, manifest }: LocalGiftRow, revealSealed = false): GiftRecord => {
+  const sealed = !revealSealed && isGiftSealed(manifest);
+  return {
+    customId,
+    photoUrls: sealed ? [] : photoUrls,
+    manifest: sealed ? sealManifest(manifest) : manifest,
+    unlockAt: manifest.unlockAt,
+    sealed,
+  };
+};
+
+const createOwnerToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashOwnerToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const DB_NAME = 'walabox-local-gifts';
+const DB_VERSION = 1;
+
+const createMemoryStore = <T,>(): KeyValueStore<T> => {
+  const map = new Map<string, T>();
+  return {
+    async get(key) { return map.get(key); },
+    async put(key, value) { map.set(key, value); },
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('gifts')) db.createObjectStore('gifts');
+        if (!db.objectStoreNames.contains('codes')) db.createObjectStore('codes');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStore = <T,>(storeName: StoreName): KeyValueStore<T> => ({
+  async get(key) {
+    const db = await openDatabase();
+    return promisifyRequest<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+  },
+  async put(key, value) {
+    const db = await openDatabase();
+    await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value, key));
+  },
+});
+
+export interface LocalGiftRepositoryOptions {
+  /** 'indexeddb' 不可用时自动退回 'memory' */
+  persistence?: 'indexeddb' | 'memory';
+  /** 允许的兑换码；不传则任意非空兑换码都可使用一次 */
+  validCodes?: string[];
+}
+
+export const createLocalGiftRepository = (options: LocalGiftRepositoryOptions = {}): GiftRepository => {
+  const useIndexedDb = options.persistence !== 'memory' && typeof indexedDB !== 'undefined';
+  const gifts: KeyValueStore<LocalGiftRow> = useIndexedDb ? createIndexedDbStore('gifts') : createMemoryStore();
+  const usedCodes: KeyValueStore<number> = useIndexedDb ? createIndexedDbStore('codes') : createMemoryStore();
+  const validCodes = options.validCodes ? new Set(options.validCodes.map(normalizeGiftCode)) : null;
+
+  const consumeCode = async (rawCode: string) => {
+    const code = normalizeGiftCode(rawCode);
+    if (!code || (validCodes && !validCodes.has(code))) {
+      return { success: false, message: '暗号无效，请检查后重试' };
+    }
+    if (await usedCodes.get(code)) {
+      return { success: false, message: '该暗号已被使用' };
+    }
+    await usedCodes.put(code, Date.now());
+    return { success: true, message: '验证成功' };
+  };
+
+  return {
+    async isIdAvailable(customId) {
+      return !(await gifts.get(customId));
+    },
+
+    async createGift({ code, customId, manifest }) {
+      if (await gifts.get(customId)) {
+        throw new GiftRepositoryError('id_exists', 'id_exists');
+      }
+      const result = await consumeCode(code);
+      if (!result.success) {
+        throw new GiftRepositoryError('code_error', result.message);
+      }
+      const ownerToken = createOwnerToken();
+      await gifts.put(customId, {
+        customId,
+        photoUrls: manifest.photos.map(photo => photo.url),
+        manifest: JSON.parse(JSON.stringify(manifest)),
+        ownerTokenHash: await hashOwnerToken(ownerToken),
+      });
+      return { ownerToken };
+    },
+
+    async updateGift({ customId, ownerToken, manifest }) {
+      const row = await gifts.get(customId);
+      if (!row || row.ownerTokenHash !== await hashOwnerToken(ownerToken)) {
+        throw new GiftRepositoryError('token_error', 'token_error');
+      }
+      await gifts.put(customId, {
+        ...row,
+        photoUrls: manifest.photos.map(photo => photo.url),
+        manifest: JSON.parse(JSON.stringify(manifest)),
+      });
+    },
+
+    async loadGift(customId) {
+      const row = await gifts.get(customId);
+      return row ? toGiftRecord(row) : null;
+    },
+
+    async loadGiftForOwner(customId, ownerToken) {
+      const row = await gifts.get(customId);
+      if (!row || row.ownerTokenHash !== await hashOwnerToken(ownerToken)) {
+        throw new GiftRepositoryError('token_error', 'token_error');
+      }
+      return toGiftRecord(row, true);
+    },
+
+    verifyCode: consumeCode,
+  };
+};
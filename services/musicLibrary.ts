@@ -0,0 +1,96 @@
+// 内置曲库：礼赠里只保存曲目 id (或寄件人上传的歌)，播放时再换成可以播放的链接。
+// 录好的曲子分享出去时走 OSS，本地预览和离线时用 public/audio 里随站点打包的那份；
+// 八音盒小曲只有曲谱，在浏览器里合成。
+
+import type { GiftMusicTrack } from './giftManifest';
+import { Melody, renderMelody } from '../utils/musicBox';
+import { fetchDecryptedMediaUrl } from '../utils/crypto';
+
+export const BUNDLED_MUSIC_URL = '/audio/music.mp3';
+const REMOTE_MUSIC_URL = 'https://walabox-assets.oss-cn-beijing.aliyuncs.com/music.mp3';
+
+export interface LibraryTrack {
+  id: string;
+  title: string;
+  /** 录好的音频 */
+  file?: { remoteUrl: string; bundledUrl: string };
+  /** 八音盒曲谱 (公版旋律) */
+  melody?: Melody;
+}
+
+const JINGLE_BELLS: Melody = {
+  bpm: 132,
+  notes: `
+    E5/1 E5/1 E5/2 | E5/1 E5/1 E5/2 | E5/1 G5/1 C5/1.5 D5/0.5 | E5/4 |
+    F5/1 F5/1 F5/1.5 F5/0.5 | F5/1 E5/1 E5/1 E5/0.5 E5/0.5 | E5/1 D5/1 D5/1 E5/1 | D5/2 G5/2 |
+    E5/1 E5/1 E5/2 | E5/1 E5/1 E5/2 | E5/1 G5/1 C5/1.5 D5/0.5 | E5/4 |
+    F5/1 F5/1 F5/1 F5/1 | F5/1 E5/1 E5/1 E5/0.5 E5/0.5 | G5/1 G5/1 F5/1 D5/1 | C5/4`,
+  bass: `
+    C3/4 C3/4 C3/4 C3/4 F2/4 C3/4 D3/4 G2/4
+    C3/4 C3/4 C3/4 C3/4 F2/4 C3/4 G2/4 C3/4`,
+};
+
+const SILENT_NIGHT: Melody = {
+  bpm: 96,
+  notes: `
+    G5/1.5 A5/0.5 G5/1 | E5/3 | G5/1.5 A5/0.5 G5/1 | E5/3 |
+    D6/2 D6/1 | B5/3 | C6/2 C6/1 | G5/3 |
+    A5/2 A5/1 | C6/1.5 B5/0.5 A5/1 | G5/1.5 A5/0.5 G5/1 | E5/3 |
+    A5/2 A5/1 | C6/1.5 B5/0.5 A5/1 | G5/1.5 A5/0.5 G5/1 | E5/3 |
+    D6/2 D6/1 | F6/1.5 D6/0.5 B5/1 | C6/3 | E6/3 |
+    C6/1.5 G5/0.5 E5/1 | G5/1.5 F5/0.5 D5/1 | C5/3 | R/3`,
+  bass: `
+    C3/3 C3/3 C3/3 C3/3 G2/3 G2/3 C3/3 C3/3
+    F2/3 F2/3 C3/3 C3/3 F2/3 F2/3 C3/3 C3/3
+    G2/3 G2/3 C3/3 C3/3 C3/3 G2/3 C3/3 R/3`,
+};
+
+export const MUSIC_LIBRARY: LibraryTrack[] = [
+  { id: 'default', title: '经典圣诞曲', file: { remoteUrl: REMOTE_MUSIC_URL, bundledUrl: BUNDLED_MUSIC_URL } },
+  { id: 'jingle-bells', title: '铃儿响叮当 · 八音盒', melody: JINGLE_BELLS },
+  { id: 'silent-night', title: '平安夜 · 八音盒', melody: SILENT_NIGHT },
+];
+
+export const findLibraryTrack = (id: string) => MUSIC_LIBRARY.find(track => track.id === id);
+
+export const getMusicTrackTitle = (track: GiftMusicTrack) =>
+  track.source === 'library' ? findLibraryTrack(track.id)?.title ?? '' : track.title;
+
+// 合成结果和解密结果在本次会话内缓存，切歌、循环时不用重新渲染
+const renderedMelodies = new Map<string, Promise<string>>();
+const decryptedTracks = new Map<string, Promise<string>>();
+
+const cached = (cache: Map<string, Promise<string>>, key: string, load: () => Promise<string>) => {
+  if (!cache.has(key)) {
+    cache.set(key, load().catch(err => {
+      cache.delete(key);
+      throw err;
+    }));
+  }
+  return cache.get(key)!;
+};
+
+export interface ResolveMusicOptions {
+  /** 本地预览 / 离线：录好的曲子用随站点打包的那份 */
+  preferBundled?: boolean;
+  /** 口令保护的礼赠里，寄件人上传的歌是密文 */
+  key?: CryptoKey | null;
+}
+
+/** 换成 <audio> 能直接播放的链接；曲库里找不到的 id 返回 null */
+export const resolveMusicTrackUrl = async (track: GiftMusicTrack, { preferBundled, key }: ResolveMusicOptions = {}): Promise<string | null> => {
+  if (track.source === 'upload') {
+    return key ? cached(decryptedTracks, track.url, () => fetchDecryptedMediaUrl(track.url, key, 'audio')) : track.url;
+  }
+  const libraryTrack = findLibraryTrack(track.id);
+  if (libraryTrack?.file) return preferBundled ? libraryTrack.file.bundledUrl : libraryTrack.file.remoteUrl;
+  if (libraryTrack?.melody) {
+    const melody = libraryTrack.melody;
+    return cached(renderedMelodies, libraryTrack.id, async () => URL.createObjectURL(await renderMelody(melody)));
+  }
+  return null;
+};
+
+/** 远程的曲库音频加载失败 (离线、OSS 不可达) 时退回的本地链接 */
+export const getBundledFallbackUrl = (track: GiftMusicTrack) =>
+  track.source === 'library' ? findLibraryTrack(track.id)?.file?.bundledUrl ?? null : null;
@@ -0,0 +1,118 @@
+import type {
+  MultipartCompleteResponse,
+  MultipartPart,
+  MultipartPartsResponse,
+  MultipartSession,
+  SignResponseBody,
+  SignedPart,
+  SignedUpload,
+} from '../api/_lib/ossPolicy';
+import { UploadError, throwIfCancelled } from './uploadQueue';
+
+// 前端不再持有任何 OSS 密钥：先向服务端换取限定在 gifts/<customId>/ 下的短期 PUT 签名，再直传 OSS
+const SIGN_ENDPOINT = import.meta.env.VITE_OSS_SIGN_ENDPOINT || '/api/sign-oss';
+
+export type { MultipartPart, MultipartSession, SignedPart, SignedUpload };
+
+export interface TransferOptions {
+  /** 已发送的字节数 (来自 XHR 的真实进度) */
+  onProgress?: (loaded: number) => void;
+  signal?: AbortSignal;
+}
+
+const postSignRequest = async <T>(payload: unknown, signal?: AbortSignal): Promise<T> => {
+  throwIfCancelled(signal);
+  const response = await fetch(SIGN_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  }).catch(err => {
+    throwIfCancelled(signal);
+    throw err;
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (response.status >= 400 && response.status < 500) {
+    // 服务端返回的 error 码 (validation_failed 等) 交给 getFriendlyErrorMessage 翻译
+    throw new UploadError('sign_rejected', body.error || `sign request rejected (${response.status})`);
+  }
+  if (!response.ok) {
+    throw new UploadError('upload_failed', body.error || `sign request failed (${response.status})`);
+  }
+  return body as T;
+};
+
+export const requestUploadSlots = async (customId: string, files: Blob[], signal?: AbortSignal): Promise<SignedUpload[]> => {
+  const body = await postSignRequest<SignResponseBody>({
+    customId,
+    files: files.map(file => ({ contentType: file.type || 'image/jpeg' })),
+  }, signal);
+  return body.uploads;
+};
+
+/** 用 XHR 而不是 fetch：只有 XHR 能拿到上传字节进度。返回响应里的 ETag (分片合并需要) */
+export const putBlob = (
+  uploadUrl: string,
+  headers: Record<string, string>,
+  body: Blob,
+  { onProgress, signal }: TransferOptions = {},
+): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadError('upload_cancelled', 'upload_cancelled'));
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+
+    xhr.open('PUT', uploadUrl);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(body.size);
+        resolve(xhr.getResponseHeader('ETag'));
+      } else {
+        reject(new UploadError('upload_failed', `upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => { cleanup(); reject(new UploadError('upload_failed', 'network error during upload')); };
+    xhr.ontimeout = () => { cleanup(); reject(new UploadError('upload_failed', 'upload timeout')); };
+    xhr.onabort = () => { cleanup(); reject(new UploadError('upload_cancelled', 'upload_cancelled')); };
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(body);
+  });
+
+export const uploadToSlot = async (slot: SignedUpload, file: Blob, options?: TransferOptions): Promise<string> => {
+  await putBlob(slot.uploadUrl, slot.headers, file, options);
+  return slot.publicUrl;
+};
+
+// ---------------- 分片上传 ----------------
+
+export const initMultipartUpload = (customId: string, contentType: string, signal?: AbortSignal) =>
+  postSignRequest<MultipartSession>({ action: 'multipart-init', customId, contentType }, signal);
+
+export const signMultipartParts = async (customId: string, session: MultipartSession, partNumbers: number[], signal?: AbortSignal) => {
+  const body = await postSignRequest<MultipartPartsResponse>({
+    action: 'multipart-parts',
+    customId,
+    objectName: session.objectName,
+    uploadId: session.uploadId,
+    contentType: session.contentType,
+    partNumbers,
+  }, signal);
+  return body.parts;
+};
+
+export const completeMultipartUpload = async (customId: string, session: MultipartSession, parts: MultipartPart[], signal?: AbortSignal) => {
+  const body = await postSignRequest<MultipartCompleteResponse>({
+    action: 'multipart-complete',
+    customId,
+    objectName: session.objectName,
+    uploadId: session.uploadId,
+    parts,
+  }, signal);
+  return body.publicUrl;
+};
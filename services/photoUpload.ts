@@ -0,0 +1,177 @@
+import imageCompression from 'browser-image-compression';
+import { MAX_MULTIPART_PARTS } from '../api/_lib/ossPolicy';
+import {
+  completeMultipartUpload,
+  initMultipartUpload,
+  putBlob,
+  requestUploadSlots,
+  signMultipartParts,
+  uploadToSlot,
+} from './ossUpload';
+import { UploadError, isUploadCancelled, runQueue, withRetry } from './uploadQueue';
+import {
+  findCompletedUpload,
+  getMultipartProgress,
+  getPreparedBlob,
+  getUploadFingerprint,
+  saveCompletedUpload,
+  saveMultipartProgress,
+  savePreparedBlob,
+} from './uploadResume';
+import { encryptPhoto } from '../utils/crypto';
+
+// 生成器与编辑器共用的照片上传流程：压缩 -> (口令加密) -> 换取签名 -> 直传 OSS
+// 短片在选择时已经录制并限制了大小，语音留言本身很小，都只压缩照片。
+// 每张照片独立排队、重试；超过 MULTIPART_THRESHOLD 的文件走分片上传，失败后只补传缺的分片。
+
+const FILE_CONCURRENCY = 3;
+const PART_CONCURRENCY = 2;
+const MULTIPART_THRESHOLD = 2 * 1024 * 1024;
+const MIN_PART_SIZE = 1024 * 1024;
+
+export type FileUploadStatus = 'pending' | 'preparing' | 'uploading' | 'retrying' | 'done' | 'failed';
+
+export interface FileUploadState {
+  status: FileUploadStatus;
+  loaded: number;
+  total: number;
+  /** 之前已经上传过，直接复用了远程链接 */
+  reused?: boolean;
+}
+
+export interface UploadProgress {
+  /** 0-1 的整体进度，按每张照片的真实字节进度平均 */
+  overall: number;
+  files: FileUploadState[];
+}
+
+export interface UploadGiftPhotosOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  /** 传入时上传的是加密后的密文 */
+  encryptionKey?: CryptoKey;
+  /** 区分同一张照片的不同加密结果 (通常是口令的 salt) */
+  cacheTag?: string;
+  signal?: AbortSignal;
+}
+
+export const compressImage = async (file: File): Promise<Blob> => {
+  const options = { maxSizeMB: 0.8, maxWidthOrHeight: 1920, useWebWorker: true, fileType: 'image/jpeg' };
+  try { return await imageCompression(file, options); }
+  catch (error) { return file; }
+};
+
+// 压缩 / 加密的结果在本次会话内缓存，重试和续传时上传的是同一份字节
+const prepareBlob = async (file: File, fingerprint: string, encryptionKey?: CryptoKey): Promise<Blob> => {
+  const cached = getPreparedBlob(fingerprint);
+  if (cached) return cached;
+  const compressed = file.type.startsWith('image/') ? await compressImage(file) : file;
+  const prepared = encryptionKey ? await encryptPhoto(encryptionKey, compressed) : compressed;
+  savePreparedBlob(fingerprint, prepared);
+  return prepared;
+};
+
+interface TransferHooks {
+  onBytes: (loaded: number) => void;
+  onRetry: () => void;
+  signal?: AbortSignal;
+}
+
+const uploadSingle = (customId: string, blob: Blob, { onBytes, onRetry, signal }: TransferHooks) =>
+  // 每次尝试都重新签名，排队或退避期间签名过期也没关系
+  withRetry(async () => {
+    const [slot] = await requestUploadSlots(customId, [blob], signal);
+    return uploadToSlot(slot, blob, { onProgress: onBytes, signal });
+  }, { signal, onRetry });
+
+const uploadMultipart = async (customId: string, blob: Blob, fingerprint: string, { onBytes, onRetry, signal }: TransferHooks) => {
+  let progress = getMultipartProgress(fingerprint);
+  if (!progress) {
+    const session = await withRetry(() => initMultipartUpload(customId, blob.type, signal), { signal, onRetry });
+    progress = { session, parts: [] };
+    saveMultipartProgress(fingerprint, progress);
+  }
+  const { session, parts } = progress;
+
+  // 分片大小只由文件大小决定，续传时切出来的分片与上次一致
+  const partSize = Math.max(MIN_PART_SIZE, Math.ceil(blob.size / MAX_MULTIPART_PARTS));
+  const partCount = Math.ceil(blob.size / partSize);
+  const sliceFor = (partNumber: number) => blob.slice((partNumber - 1) * partSize, partNumber * partSize, blob.type);
+
+  const partLoaded = new Map(parts.map(part => [part.partNumber, sliceFor(part.partNumber).size]));
+  const reportBytes = () => onBytes(Array.from(partLoaded.values()).reduce((sum, n) => sum + n, 0));
+  reportBytes();
+
+  const missing = Array.from({ length: partCount }, (_, i) => i + 1).filter(n => !partLoaded.has(n));
+  await runQueue(missing, partNumber => withRetry(async () => {
+    const [signed] = await signMultipartParts(customId, session, [partNumber], signal);
+    const etag = await putBlob(signed.uploadUrl, signed.headers, sliceFor(partNumber), {
+      signal,
+      onProgress: (loaded) => { partLoaded.set(partNumber, loaded); reportBytes(); },
+    });
+    if (!etag) throw new UploadError('upload_failed', 'missing ETag header (expose ETag in the bucket CORS rules)');
+    parts.push({ partNumber, etag });
+  }, { signal, onRetry }), { concurrency: PART_CONCURRENCY, signal });
+
+  const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+  return withRetry(() => completeMultipartUpload(customId, session, ordered, signal), { signal, onRetry });
+};
+
+const fileFraction = (state: FileUploadState) => {
+  if (state.status === 'done') return 1;
+  return state.total > 0 ? Math.min(1, state.loaded / state.total) * 0.95 : 0;
+};
+
+/**
+ * 上传一组照片到 gifts/<customId>/ 并按原顺序返回公开 URL。
+ * 个别照片重试后仍失败时，其余照片照常上传完成并记录下来，再次提交时会直接复用。
+ */
+export const uploadGiftPhotos = async (
+  customId: string,
+  files: File[],
+  options: UploadGiftPhotosOptions = {},
+): Promise<string[]> => {
+  const { onProgress, encryptionKey, cacheTag = '', signal } = options;
+  if (files.length === 0) return [];
+
+  const states: FileUploadState[] = files.map(file => ({ status: 'pending', loaded: 0, total: file.size }));
+  const report = () => onProgress?.({
+    overall: states.reduce((sum, state) => sum + fileFraction(state), 0) / states.length,
+    files: [...states],
+  });
+  const update = (index: number, patch: Partial<FileUploadState>) => {
+    states[index] = { ...states[index], ...patch };
+    report();
+  };
+  report();
+
+  return runQueue(files, async (file, i) => {
+    const fingerprint = getUploadFingerprint(customId, file, cacheTag);
+    const reusedUrl = findCompletedUpload(fingerprint);
+    if (reusedUrl) {
+      update(i, { status: 'done', loaded: states[i].total, reused: true });
+      return reusedUrl;
+    }
+
+    try {
+      update(i, { status: 'preparing' });
+      const blob = await prepareBlob(file, fingerprint, encryptionKey);
+      update(i, { status: 'uploading', loaded: 0, total: blob.size });
+
+      const hooks: TransferHooks = {
+        onBytes: (loaded) => update(i, { status: 'uploading', loaded }),
+        onRetry: () => update(i, { status: 'retrying' }),
+        signal,
+      };
+      const publicUrl = blob.size > MULTIPART_THRESHOLD
+        ? await uploadMultipart(customId, blob, fingerprint, hooks)
+        : await uploadSingle(customId, blob, hooks);
+
+      saveCompletedUpload(fingerprint, publicUrl);
+      update(i, { status: 'done', loaded: blob.size });
+      return publicUrl;
+    } catch (err) {
+      update(i, { status: isUploadCancelled(err) ? 'pending' : 'failed' });
+      throw err;
+    }
+  }, { concurrency: FILE_CONCURRENCY, signal });
+};
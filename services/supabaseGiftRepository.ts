@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GiftRecord, GiftRepository, GiftRepositoryError, normalizeGiftCode } from './giftRepository';
+
+// RPC 返回的是 SQL 里定义的 TABLE (success, message)：有些版本是数组，有些是对象
+const firstRow = <T,>(data: T | T[] | null): T | null => (Array.isArray(data) ? data[0] ?? null : data);
+
+interface GiftRow {
+  custom_id: string;
+  photo_urls: string[] | null;
+  manifest: unknown;
+  unlock_at: string | null;
+  sealed: boolean;
+}
+
+// ID 唯一性由原有的 create_gift_with_code 负责：可能抛出 unique violation (23505)，也可能在 message 里带回
+const isIdTaken = (message?: string | null) => /duplicate key|unique constraint|id_exists/i.test(message || '');
+
+const toGiftRecord = (row: GiftRow): GiftRecord => ({
+  customId: row.custom_id,
+  photoUrls: Array.isArray(row.photo_urls) ? row.photo_urls : [],
+  manifest: row.manifest ?? null,
+  unlockAt: row.unlock_at,
+  sealed: !!row.sealed,
+});
+
+// 直接 select gifts 表的权限已经收回，读取统一走 RPC (get_gift 会在开启时间前抹掉照片)
+export const createSupabaseGiftRepository = (supabase: SupabaseClient): GiftRepository => ({
+  async isIdAvailable(customId) {
+    const { data, error } = await supabase.rpc('is_gift_id_available', { input_custom_id: customId });
+    if (error) throw error;
+    return !!data;
+  },
+
+  async createGift({ code, customId, manifest }) {
+    const { data, error } = await supabase.rpc('create_gift_with_manifest', {
+      input_code: normalizeGiftCode(code),
+      input_custom_id: customId,
+      input_photo_urls: manifest.photos.map(photo => photo.url),
+      input_manifest: manifest,
+    });
+    if (error) {
+      if (error.code === '23505' || isIdTaken(error.message)) throw new GiftRepositoryError('id_exists', 'id_exists');
+      throw error;
+    }
+
+    const result = firstRow<{ success: boolean; message?: string; owner_token?: string }>(data);
+    if (!result || !result.success) {
+      if (isIdTaken(result?.message)) throw new GiftRepositoryError('id_exists', 'id_exists');
+      throw new GiftRepositoryError('code_error', result?.message || '暗号似乎不正确，请检查后重试');
+    }
+    // 没有 owner token 多半是数据库还停在旧版 RPC：寄件人会拿不到编辑链接，不能悄悄吞掉
+    if (!result.owner_token) {
+      throw new GiftRepositoryError('backend_error', '礼赠已生成，但没能拿到编辑链接，请联系管理员更新数据库');
+    }
+    return { ownerToken: result.owner_token };
+  },
+
+  async updateGift({ customId, ownerToken, manifest }) {
+    const { data, error } = await supabase.rpc('update_gift_with_token', {
+      input_custom_id: customId,
+      input_token: ownerToken,
+      input_photo_urls: manifest.photos.map(photo => photo.url),
+      input_manifest: manifest,
+    });
+    if (error) throw error;
+
+    const result = firstRow<{ success: boolean; message?: string }>(data);
+    if (!result || !result.success) {
+      throw new GiftRepositoryError('token_error', result?.message || 'token_error');
+    }
+  },
+
+  async loadGift(customId) {
+    const { data, error } = await supabase.rpc('get_gift', { input_custom_id: customId });
+    if (error) throw error;
+    const row = firstRow<GiftRow>(data);
+    return row ? toGiftRecord(row) : null;
+  },
+
+  async loadGiftForOwner(customId, ownerToken) {
+    const { data, error } = await supabase.rpc('get_gift_for_owner', {
+      input_custom_id: customId,
+      input_token: ownerToken,
+    });
+    if (error) throw error;
+    const row = firstRow<GiftRow>(data);
+    if (!row) throw new GiftRepositoryError('token_error', 'token_error');
+    return toGiftRecord(row);
+  },
+
+  async verifyCode(code) {
+    const { data, error } = await supabase.rpc('verify_and_use_code', {
+      input_code: normalizeGiftCode(code),
+    });
+    if (error) throw error;
+    const result = firstRow<{ success: boolean; message: string }>(data);
+    return result ?? { success: false, message: '验证服务异常，请稍后再试' };
+  },
+});
@@ -0,0 +1,85 @@
+// 通用上传队列：限制并发、失败自动退避重试、支持 AbortSignal 取消。
+// 单个任务最终失败不会打断其他任务，全部结束后再抛出第一个错误，已成功的结果可以被下次提交复用。
+
+export class UploadError extends Error {
+  constructor(public code: 'upload_cancelled' | 'upload_failed' | 'sign_rejected', message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export const isUploadCancelled = (err: unknown) =>
+  err instanceof UploadError && err.code === 'upload_cancelled';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new UploadError('upload_cancelled', 'upload_cancelled');
+};
+
+// 签名被服务端拒绝 (ID 非法、类型不支持) 重试也没用；网络错误、5xx、签名过期都值得再试
+const isRetryable = (err: unknown) =>
+  !(err instanceof UploadError) || err.code === 'upload_failed';
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }
+    function cancel() {
+      clearTimeout(timer);
+      reject(new UploadError('upload_cancelled', 'upload_cancelled'));
+    }
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, err: unknown) => void;
+}
+
+/** 指数退避 + 抖动：800ms、1.6s、3.2s ... */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 800, signal, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err) || signal?.aborted) throw err;
+      onRetry?.(attempt + 1, err);
+      await wait(baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
+
+/** 以固定并发跑完所有任务，结果按输入顺序返回 */
+export const runQueue = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: { concurrency?: number; signal?: AbortSignal } = {},
+): Promise<R[]> => {
+  const { concurrency = 3, signal } = options;
+  const results = new Array<R>(items.length);
+  const errors: unknown[] = [];
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) return;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+  throwIfCancelled(signal);
+  if (errors.length > 0) throw errors.find(err => !isUploadCancelled(err)) || errors[0];
+  return results;
+};
@@ -0,0 +1,60 @@
+import type { MultipartPart, MultipartSession } from './ossUpload';
+
+// 断点续传 / 重复提交复用的状态。
+// - 已完成的上传：按「礼赠 ID + 原文件指纹 + 加密标记」记在 localStorage，刷新页面后重新选同一张照片也能直接复用。
+// - 压缩 (及加密) 后的字节和未完成的分片进度只留在内存：压缩结果和随机 iv 每次都不同，
+//   跨页面续传分片会拼出错误的文件，所以只在本次打开页面期间续传。
+
+const STORAGE_KEY = 'walabox-uploads';
+const COMPLETED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CompletedUpload {
+  publicUrl: string;
+  savedAt: number;
+}
+
+export interface MultipartProgress {
+  session: MultipartSession;
+  parts: MultipartPart[];
+}
+
+const preparedBlobs = new Map<string, Blob>();
+const multipartProgress = new Map<string, MultipartProgress>();
+
+/** 加密的照片用 cacheTag (密钥的 salt) 区分，换了口令就不会误用旧密文 */
+export const getUploadFingerprint = (customId: string, file: File, cacheTag = '') =>
+  [customId, file.name, file.size, file.lastModified, cacheTag].join('|');
+
+const readCompleted = (): Record<string, CompletedUpload> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const findCompletedUpload = (fingerprint: string): string | null => {
+  const entry = readCompleted()[fingerprint];
+  return entry && Date.now() - entry.savedAt < COMPLETED_TTL_MS ? entry.publicUrl : null;
+};
+
+export const saveCompletedUpload = (fingerprint: string, publicUrl: string) => {
+  const now = Date.now();
+  const entries = Object.fromEntries(
+    Object.entries(readCompleted()).filter(([, entry]) => now - entry.savedAt < COMPLETED_TTL_MS),
+  );
+  entries[fingerprint] = { publicUrl, savedAt: now };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // 隐私模式或配额已满：只是少了复用，不影响上传本身
+  }
+  preparedBlobs.delete(fingerprint);
+  multipartProgress.delete(fingerprint);
+};
+
+export const getPreparedBlob = (fingerprint: string) => preparedBlobs.get(fingerprint);
+export const savePreparedBlob = (fingerprint: string, blob: Blob) => preparedBlobs.set(fingerprint, blob);
+
+export const getMultipartProgress = (fingerprint: string) => multipartProgress.get(fingerprint);
+export const saveMultipartProgress = (fingerprint: string, progress: MultipartProgress) => multipartProgress.set(fingerprint, progress);
@@ -0,0 +1,41 @@
+-- 礼赠清单 (manifest)：收礼人、寄件人、寄语、照片与场景选项，版本化 JSON。
+-- 旧礼赠 manifest 为 null，前端会用 photo_urls 自动升级。
+
+alter table public.gifts add column if not exists manifest jsonb;
+
+alter table public.gifts drop constraint if exists gifts_manifest_size;
+alter table public.gifts add constraint gifts_manifest_size
+  check (manifest is null or pg_column_size(manifest) < 16384);
+
+-- 包装原有的 create_gift_with_code：兑换码校验、ID 唯一性和 photo_urls 写入仍由它负责，
+-- 成功后再把 manifest 写到同一行。返回结构保持 TABLE (success, message)。
+create or replace function public.create_gift_with_manifest(
+  input_code text,
+  input_custom_id text,
+  input_photo_urls text[],
+  input_manifest jsonb
+)
+returns table (success boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  result record;
+begin
+  if input_manifest is null or (input_manifest ->> 'version') is null then
+    return query select false, 'validation_failed: manifest'::text;
+    return;
+  end if;
+
+  select * into result from public.create_gift_with_code(input_code, input_custom_id, input_photo_urls) limit 1;
+
+  if result.success then
+    update public.gifts set manifest = input_manifest where custom_id = input_custom_id;
+  end if;
+
+  return query select result.success, result.message::text;
+end;
+$$;
+
+grant execute on function public.create_gift_with_manifest(text, text, text[], jsonb) to anon, authenticated;
@@ -0,0 +1,83 @@
+-- 礼赠发布后的编辑：创建时签发一次性的 owner token (只返回给寄件人，库里只存 sha256)，
+-- 持有 token 才能通过 update_gift_with_token 改写 manifest / photo_urls。
+
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.gifts add column if not exists owner_token_hash text;
+
+-- 返回结构新增 owner_token，需要先删除旧签名
+drop function if exists public.create_gift_with_manifest(text, text, text[], jsonb);
+
+create function public.create_gift_with_manifest(
+  input_code text,
+  input_custom_id text,
+  input_photo_urls text[],
+  input_manifest jsonb
+)
+returns table (success boolean, message text, owner_token text)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  result record;
+  token text;
+begin
+  if input_manifest is null or (input_manifest ->> 'version') is null then
+    return query select false, 'validation_failed: manifest'::text, null::text;
+    return;
+  end if;
+
+  select * into result from public.create_gift_with_code(input_code, input_custom_id, input_photo_urls) limit 1;
+
+  if not result.success then
+    return query select false, result.message::text, null::text;
+    return;
+  end if;
+
+  token := encode(gen_random_bytes(24), 'hex');
+  update public.gifts
+     set manifest = input_manifest,
+         owner_token_hash = encode(digest(token, 'sha256'), 'hex')
+   where custom_id = input_custom_id;
+
+  return query select true, result.message::text, token;
+end;
+$$;
+
+create or replace function public.update_gift_with_token(
+  input_custom_id text,
+  input_token text,
+  input_photo_urls text[],
+  input_manifest jsonb
+)
+returns table (success boolean, message text)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if input_manifest is null or (input_manifest ->> 'version') is null then
+    return query select false, 'validation_failed: manifest'::text;
+    return;
+  end if;
+
+  update public.gifts
+     set manifest = input_manifest,
+         photo_urls = input_photo_urls
+   where custom_id = input_custom_id
+     and owner_token_hash is not null
+     and owner_token_hash = encode(digest(coalesce(input_token, ''), 'sha256'), 'hex');
+
+  if not found then
+    return query select false, 'token_error'::text;
+    return;
+  end if;
+
+  return query select true, 'ok'::text;
+end;
+$$;
+
+revoke all on function public.update_gift_with_token(text, text, text[], jsonb) from public;
+grant execute on function public.create_gift_with_manifest(text, text, text[], jsonb) to anon, authenticated;
+grant execute on function public.update_gift_with_token(text, text, text[], jsonb) to anon, authenticated;
@@ -0,0 +1,73 @@
+-- 定时开启：unlock_at 之前，公开读取只返回封存信息 (不含任何照片链接)。
+-- 前端不再直接 select gifts 表，统一走下面的 RPC。
+
+alter table public.gifts add column if not exists unlock_at timestamptz;
+
+-- unlock_at 始终由 manifest.unlockAt 派生，创建 / 编辑的 RPC 无需改动
+create or replace function public.gifts_sync_unlock_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  begin
+    new.unlock_at := nullif(new.manifest ->> 'unlockAt', '')::timestamptz;
+  exception when others then
+    new.unlock_at := null;
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists gifts_sync_unlock_at on public.gifts;
+create trigger gifts_sync_unlock_at
+  before insert or update of manifest on public.gifts
+  for each row execute function public.gifts_sync_unlock_at();
+
+update public.gifts set manifest = manifest where manifest ? 'unlockAt';
+
+-- 公开读取：未到开启时间时抹掉 photo_urls 与 manifest.photos
+create or replace function public.get_gift(input_custom_id text)
+returns table (custom_id text, photo_urls text[], manifest jsonb, unlock_at timestamptz, sealed boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    g.custom_id,
+    case when g.unlock_at > now() then '{}'::text[] else g.photo_urls end,
+    case when g.unlock_at > now() then jsonb_set(g.manifest, '{photos}', '[]'::jsonb) else g.manifest end,
+    g.unlock_at,
+    coalesce(g.unlock_at > now(), false)
+  from public.gifts g
+  where g.custom_id = input_custom_id;
+$$;
+
+-- 寄件人凭 owner token 读取完整内容 (编辑器使用)
+create or replace function public.get_gift_for_owner(input_custom_id text, input_token text)
+returns table (custom_id text, photo_urls text[], manifest jsonb, unlock_at timestamptz, sealed boolean)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select g.custom_id, g.photo_urls, g.manifest, g.unlock_at, false
+  from public.gifts g
+  where g.custom_id = input_custom_id
+    and g.owner_token_hash = encode(digest(coalesce(input_token, ''), 'sha256'), 'hex');
+$$;
+
+create or replace function public.is_gift_id_available(input_custom_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (select 1 from public.gifts where custom_id = input_custom_id);
+$$;
+
+revoke select on public.gifts from anon, authenticated;
+grant execute on function public.get_gift(text) to anon, authenticated;
+grant execute on function public.get_gift_for_owner(text, text) to anon, authenticated;
+grant execute on function public.is_gift_id_available(text) to anon, authenticated;
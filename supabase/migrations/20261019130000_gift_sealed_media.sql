@@ -0,0 +1,35 @@
+-- 封存中的礼赠还会泄露语音留言 (manifest.voiceNote) 和寄件人上传的歌 (scene.music 里 source = 'upload')，
+-- 公开读取时一并抹掉；曲库里的曲目不含寄件人的内容，保留。
+
+create or replace function public.seal_gift_manifest(input_manifest jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(m #> '{scene,music}') = 'array' then jsonb_set(m, '{scene,music}', coalesce(
+      (select jsonb_agg(t) from jsonb_array_elements(m #> '{scene,music}') t where t ->> 'source' is distinct from 'upload'),
+      '[]'::jsonb))
+    -- 早期单个曲目的写法
+    when m #>> '{scene,music,source}' = 'upload' then jsonb_set(m, '{scene,music}', '[]'::jsonb)
+    else m
+  end
+  from (select jsonb_set(input_manifest - 'voiceNote', '{photos}', '[]'::jsonb) as m) sealed;
+$$;
+
+create or replace function public.get_gift(input_custom_id text)
+returns table (custom_id text, photo_urls text[], manifest jsonb, unlock_at timestamptz, sealed boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    g.custom_id,
+    case when g.unlock_at > now() then '{}'::text[] else g.photo_urls end,
+    case when g.unlock_at > now() then public.seal_gift_manifest(g.manifest) else g.manifest end,
+    g.unlock_at,
+    coalesce(g.unlock_at > now(), false)
+  from public.gifts g
+  where g.custom_id = input_custom_id;
+$$;
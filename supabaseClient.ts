@@ -0,0 +1,14 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// 全局唯一的 Supabase 客户端，延迟到第一次使用时才创建 (本地离线模式下不会创建)
+let client: SupabaseClient | null = null;
+
+export const isSupabaseConfigured = () =>
+  !!import.meta.env.VITE_SUPABASE_URL && !!import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export const getSupabase = (): SupabaseClient => {
+  if (!client) {
+    client = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY);
+  }
+  return client;
+};
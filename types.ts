@@ -1,11 +1,24 @@
 import { Vector3, Color } from 'three';
 import 'react';
+import type { PhotoCrop } from './utils/photoCrop';
+import type { MediaKind } from './utils/videoClip';
+import type { GiftVoiceNote } from './services/giftManifest';
 
 export enum TreeState {
   CHAOS = 'CHAOS',
   FORMED = 'FORMED'
 }
 
+// 挂在树上的照片或短片：url 可能是 blob: 预览，也可能是远程链接
+export interface TreePhoto {
+  url: string;
+  kind?: MediaKind;
+  caption?: string;
+  crop?: PhotoCrop | null;
+  /** 聚焦时播放的语音 */
+  voiceNote?: GiftVoiceNote | null;
+}
+
 export interface ParticleData {
   chaosPos: Vector3;
   targetPos: Vector3;
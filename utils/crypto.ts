@@ -0,0 +1,101 @@
+// 口令加密照片：PBKDF2 由口令派生 AES-GCM 密钥，照片在浏览器里加密后才上传 OSS，
+// 服务端和 OSS 上只有密文；收礼人输入口令后在本地解密成 blob 再交给纹理加载器。
+
+import type { MediaKind } from './videoClip';
+
+const PBKDF2_ITERATIONS = 250_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// 用一段已知明文校验口令，避免口令错误时还要先下载整张照片才发现
+const PASSPHRASE_CHECK_TEXT = 'walabox-gift';
+
+export const ENCRYPTED_PHOTO_CONTENT_TYPE = 'application/octet-stream';
+
+export interface PhotoEncryptionParams {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  /** base64 */
+  salt: string;
+  /** base64：iv + 密文，用来快速校验口令 */
+  check: string;
+}
+
+export class PhotoCryptoError extends Error {
+  constructor(public code: 'wrong_passphrase' | 'decrypt_failed', message: string) {
+    super(message);
+    this.name = 'PhotoCryptoError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// 密文格式：12 字节 iv + AES-GCM 输出 (含 tag)
+const encryptBytes = async (key: CryptoKey, data: BufferSource): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+  const out = new Uint8Array(iv.length + cipher.length);
+  out.set(iv);
+  out.set(cipher, iv.length);
+  return out;
+};
+
+const decryptBytes = async (key: CryptoKey, data: Uint8Array): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: data.slice(0, IV_BYTES) }, key, data.slice(IV_BYTES));
+
+/** 寄件人设置口令：生成随机 salt，返回密钥和需要随 manifest 保存的参数 */
+export const createPhotoEncryption = async (passphrase: string): Promise<{ key: CryptoKey; params: PhotoEncryptionParams }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await encryptBytes(key, new TextEncoder().encode(PASSPHRASE_CHECK_TEXT));
+  return {
+    key,
+    params: {
+      algorithm: 'AES-GCM',
+      kdf: 'PBKDF2-SHA256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+      check: toBase64(check),
+    },
+  };
+};
+
+/** 收礼人 / 寄件人输入口令：口令错误时抛出 wrong_passphrase */
+export const unlockPhotoEncryption = async (passphrase: string, params: PhotoEncryptionParams): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(params.salt), params.iterations);
+  try {
+    const plain = new TextDecoder().decode(await decryptBytes(key, fromBase64(params.check)));
+    if (plain !== PASSPHRASE_CHECK_TEXT) throw new Error('check mismatch');
+  } catch {
+    throw new PhotoCryptoError('wrong_passphrase', 'wrong_passphrase');
+  }
+  return key;
+};
+
+export const encryptPhoto = async (key: CryptoKey, photo: Blob): Promise<Blob> =>
+  new Blob([await encryptBytes(key, await photo.arrayBuffer())], { type: ENCRYPTED_PHOTO_CONTENT_TYPE });
+
+/** 下载密文照片、短片或音频并解密成本地 blob: 链接，用完需 URL.revokeObjectURL */
+export const fetchDecryptedMediaUrl = async (url: string, key: CryptoKey, kind: MediaKind | 'audio' = 'image'): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`photo download failed (${response.status})`);
+  try {
+    const plain = await decryptBytes(key, new Uint8Array(await response.arrayBuffer()));
+    // 短片和语音的容器格式 (mp4 / webm / ogg) 不固定，类型留空交给 <video> / <audio> 自己识别
+    return URL.createObjectURL(new Blob([plain], { type: kind === 'image' ? 'image/jpeg' : '' }));
+  } catch {
+    throw new PhotoCryptoError('decrypt_failed', `decrypt_failed: ${url}`);
+  }
+};
@@ -0,0 +1,66 @@
+// 环境贴图：给金属装饰、宝石和相框提供反射。远程的 HDR 走 OSS，另有几张随站点打包的小贴图
+// (public/hdr，由 scripts/generate-environments.mjs 生成) 和一个在浏览器里用灯板现搭的程序化环境。
+// 礼赠里存 scene.environment：'theme' 表示跟随场景主题的默认值。远程贴图加载失败或太久不返回时，
+// 自动换成 fallback 指向的那一个，一路退到程序化环境为止。
+
+import type { SceneThemeId } from './themes';
+
+export type SceneEnvironmentId = 'city-night' | 'warm-interior' | 'snowy-night' | 'studio' | 'procedural';
+export type SceneEnvironmentChoice = 'theme' | SceneEnvironmentId;
+
+export interface SceneEnvironment {
+  id: SceneEnvironmentId;
+  label: string;
+  /** 等距柱状投影的 .hdr；没有的是程序化环境 */
+  url?: string;
+  /** 加载失败时换成哪一个 */
+  fallback?: SceneEnvironmentId;
+}
+
+export const SCENE_ENVIRONMENTS: SceneEnvironment[] = [
+  { id: 'city-night', label: '城市夜色', url: 'https://walabox-assets.oss-cn-beijing.aliyuncs.com/potsdamer_platz_1k.hdr', fallback: 'snowy-night' },
+  { id: 'warm-interior', label: '暖光室内', url: '/hdr/warm-interior.hdr', fallback: 'procedural' },
+  { id: 'snowy-night', label: '雪夜', url: '/hdr/snowy-night.hdr', fallback: 'procedural' },
+  { id: 'studio', label: '影棚', url: '/hdr/studio.hdr', fallback: 'procedural' },
+  { id: 'procedural', label: '灯板' },
+];
+
+export const SCENE_ENVIRONMENT_CHOICES: { id: SceneEnvironmentChoice; label: string }[] = [
+  { id: 'theme', label: '跟随主题' },
+  ...SCENE_ENVIRONMENTS,
+];
+
+/** 每个主题默认的环境：经典主题保持原来的城市夜景 */
+const THEME_ENVIRONMENTS: Record<SceneThemeId, SceneEnvironmentId> = {
+  'classic-emerald': 'city-night',
+  'silver-frost': 'snowy-night',
+  'rose-gold': 'warm-interior',
+  'midnight-blue': 'snowy-night',
+  'red-velvet': 'warm-interior',
+};
+
+export const DEFAULT_SCENE_ENVIRONMENT_CHOICE: SceneEnvironmentChoice = 'theme';
+
+// 远程贴图在受限的网络里可能一直挂着不返回，超过这个时间就当作失败
+export const ENVIRONMENT_LOAD_TIMEOUT_MS = 8000;
+
+export const isSceneEnvironmentChoice = (value: unknown): value is SceneEnvironmentChoice =>
+  SCENE_ENVIRONMENT_CHOICES.some(choice => choice.id === value);
+
+export const getSceneEnvironment = (id: SceneEnvironmentId): SceneEnvironment =>
+  SCENE_ENVIRONMENTS.find(environment => environment.id === id) ?? SCENE_ENVIRONMENTS[SCENE_ENVIRONMENTS.length - 1];
+
+export const resolveSceneEnvironment = (choice: SceneEnvironmentChoice, theme: SceneThemeId): SceneEnvironment =>
+  getSceneEnvironment(choice === 'theme' ? THEME_ENVIRONMENTS[theme] : choice);
+
+// 本次会话里加载失败过的贴图，再切回来时直接用 fallback
+const failedUrls = new Set<string>();
+
+export const markEnvironmentFailed = (url: string) => { failedUrls.add(url); };
+
+/** 跳过已经失败过的，返回实际要用的环境 */
+export const getUsableEnvironment = (environment: SceneEnvironment): SceneEnvironment => {
+  let current = environment;
+  while (current.url && failedUrls.has(current.url) && current.fallback) current = getSceneEnvironment(current.fallback);
+  return current;
+};
@@ -0,0 +1,242 @@
+// 粒子的造型：成形时针叶、装饰、金色灯带和金粉除了聚成树，还可以拼出文字、爱心、星星或倒计时的数字。
+// 文字和图形先画到画布上，再从填充的像素里随机取点；每个粒子系统在“起点”和“终点”两组坐标之间插值，
+// 换造型时把当前插值到的位置记成新的起点，所以任意两种造型 (包括散开) 之间都能平滑过渡。
+
+import { useLayoutEffect, useMemo } from 'react';
+import type { BufferGeometry } from 'three';
+import type { RandomSource } from './math';
+
+export type Formation =
+  | { kind: 'tree' }
+  | { kind: 'heart' }
+  | { kind: 'star' }
+  | { kind: 'text'; text: string };
+
+export const TREE_FORMATION: Formation = { kind: 'tree' };
+export const HEART_FORMATION: Formation = { kind: 'heart' };
+export const STAR_FORMATION: Formation = { kind: 'star' };
+
+/** 没有收礼人名字 (本地预览) 时写的文字 */
+export const DEFAULT_FORMATION_TEXT = '圣诞快乐';
+const MAX_FORMATION_TEXT_LENGTH = 12;
+
+export const createTextFormation = (text: string): Formation =>
+  ({ kind: 'text', text: text.trim().slice(0, MAX_FORMATION_TEXT_LENGTH) || DEFAULT_FORMATION_TEXT });
+
+export const getFormationKey = (formation: Formation) =>
+  formation.kind === 'text' ? `text:${formation.text}` : formation.kind;
+
+/** 界面上的造型选项和比耶手势的切换顺序 */
+export const getFormationChoices = (text: string): { label: string; formation: Formation }[] => [
+  { label: '树', formation: TREE_FORMATION },
+  { label: '文字', formation: createTextFormation(text) },
+  { label: '爱心', formation: HEART_FORMATION },
+  { label: '星星', formation: STAR_FORMATION },
+];
+
+export const getNextFormation = (current: Formation, text: string): Formation => {
+  const choices = getFormationChoices(text);
+  const index = choices.findIndex(choice => getFormationKey(choice.formation) === getFormationKey(current));
+  return choices[(index + 1) % choices.length].formation;
+};
+
+// ---------------- 脚本：按顺序切换造型 ----------------
+
+export interface FormationStep {
+  formation: Formation;
+  /** 停留时长 (毫秒)，最后一步停留后不再切换 */
+  duration: number;
+}
+
+/** 新年倒计时：from 数到 1，然后写出新的一年，最后聚回圣诞树 */
+export const createCountdownScript = (from: number, year: number): FormationStep[] => [
+  ...Array.from({ length: from }, (_, i) => ({ formation: createTextFormation(String(from - i)), duration: 1000 })),
+  { formation: createTextFormation(String(year)), duration: 4000 },
+  { formation: HEART_FORMATION, duration: 3000 },
+  { formation: TREE_FORMATION, duration: 0 },
+];
+
+/** 逐步播放，返回的函数用来中途停止 */
+export const playFormationScript = (steps: FormationStep[], onStep: (formation: Formation) => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const play = (index: number) => {
+    if (index >= steps.length) return;
+    onStep(steps[index].formation);
+    timer = setTimeout(() => play(index + 1), steps[index].duration);
+  };
+  play(0);
+  return () => clearTimeout(timer);
+};
+
+// ---------------- 取点：画到画布上再从像素里取 ----------------
+
+// 造型画在正对镜头的竖直平面上，中心和镜头的注视点差不多高
+const FORMATION_CENTER_Y = 5.5;
+const MAX_FORMATION_WIDTH = 26;
+const MAX_FORMATION_HEIGHT = 14;
+const RASTER_SIZE = 256;
+const TEXT_FONT_SIZE = 160;
+const MAX_CACHED_RASTERS = 16;
+
+interface FormationRaster {
+  width: number;
+  height: number;
+  /** 填充像素的下标 (y * width + x) */
+  filled: Int32Array;
+  /** 填充像素里紧挨着空白的那些：灯带只描边 */
+  outline: Int32Array;
+}
+
+const drawHeart = (ctx: CanvasRenderingContext2D) => {
+  ctx.beginPath();
+  for (let i = 0; i <= 128; i++) {
+    const t = (i / 128) * Math.PI * 2;
+    const x = 16 * Math.sin(t) ** 3;
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    ctx.lineTo(RASTER_SIZE / 2 + x * 7.5, RASTER_SIZE * 0.47 - y * 7.5);
+  }
+  ctx.fill();
+};
+
+const drawStar = (ctx: CanvasRenderingContext2D) => {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = (i % 2 === 0 ? 0.48 : 0.2) * RASTER_SIZE;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(RASTER_SIZE / 2 + Math.cos(angle) * r, RASTER_SIZE * 0.53 + Math.sin(angle) * r);
+  }
+  ctx.fill();
+};
+
+const rasterize = (formation: Formation): FormationRaster => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  if (formation.kind === 'text') {
+    const font = `bold ${TEXT_FONT_SIZE}px "Noto Serif SC", "Songti SC", "SimSun", serif`;
+    ctx.font = font;
+    canvas.width = Math.ceil(ctx.measureText(formation.text).width) + 40;
+    canvas.height = Math.ceil(TEXT_FONT_SIZE * 1.3);
+    // 改尺寸会重置画布状态
+    ctx.font = font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(formation.text, canvas.width / 2, canvas.height / 2);
+  } else {
+    canvas.width = RASTER_SIZE;
+    canvas.height = RASTER_SIZE;
+    if (formation.kind === 'heart') drawHeart(ctx);
+    else drawStar(ctx);
+  }
+
+  const { width, height } = canvas;
+  const alpha = ctx.getImageData(0, 0, width, height).data;
+  const isFilled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && alpha[(y * width + x) * 4 + 3] > 127;
+  const filled: number[] = [];
+  const outline: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isFilled(x, y)) continue;
+      filled.push(y * width + x);
+      if (!isFilled(x - 1, y) || !isFilled(x + 1, y) || !isFilled(x, y - 1) || !isFilled(x, y + 1)) outline.push(y * width + x);
+    }
+  }
+  return { width, height, filled: Int32Array.from(filled), outline: Int32Array.from(outline) };
+};
+
+const rasterCache = new Map<string, FormationRaster>();
+
+const getRaster = (formation: Formation) => {
+  const key = getFormationKey(formation);
+  let raster = rasterCache.get(key);
+  if (!raster) {
+    raster = rasterize(formation);
+    // 倒计时会画很多个数字，只留最近用过的几张
+    if (rasterCache.size >= MAX_CACHED_RASTERS) rasterCache.delete(rasterCache.keys().next().value!);
+    rasterCache.set(key, raster);
+  }
+  return raster;
+};
+
+export interface FormationSampleOptions {
+  /** 前后方向的厚度 */
+  depth?: number;
+  /** 整体放大，金粉用它在造型外面围一圈 */
+  scale?: number;
+  /** 只在轮廓上取点 */
+  outline?: boolean;
+}
+
+/** 在造型上随机取 count 个点 (不含树：树的形状由各组件自己的布局决定) */
+export const sampleFormationPoints = (
+  formation: Formation,
+  count: number,
+  random: RandomSource,
+  { depth = 1, scale = 1, outline = false }: FormationSampleOptions = {},
+): Float32Array => {
+  const points = new Float32Array(count * 3);
+  const raster = getRaster(formation);
+  const pixels = outline && raster.outline.length > 0 ? raster.outline : raster.filled;
+  const unit = Math.min(MAX_FORMATION_WIDTH / raster.width, MAX_FORMATION_HEIGHT / raster.height) * scale;
+  for (let i = 0; i < count; i++) {
+    // 画不出任何像素 (比如字体缺字) 时都聚在中心
+    const pixel = pixels.length > 0 ? pixels[Math.floor(random() * pixels.length)] : (raster.height / 2) * raster.width + raster.width / 2;
+    const px = (pixel % raster.width) + random();
+    const py = Math.floor(pixel / raster.width) + random();
+    points[i * 3] = (px - raster.width / 2) * unit;
+    points[i * 3 + 1] = FORMATION_CENTER_Y - (py - raster.height / 2) * unit;
+    points[i * 3 + 2] = (random() - 0.5) * depth;
+  }
+  return points;
+};
+
+// ---------------- 插值：起点 → 终点 ----------------
+
+export interface FormationMorph {
+  /** 起点，对应着色器里的 aFrom */
+  from: Float32Array;
+  /** 终点，对应 position */
+  to: Float32Array;
+  /** 0 在起点，1 到达终点；由各组件按自己的节奏推进 */
+  progress: number;
+  target: Float32Array;
+  /** 起点和终点刚换过，需要重新上传 */
+  dirty: boolean;
+}
+
+/** 换一个目标：当前插值到的位置成为新的起点，进度从 0 开始 */
+export const retargetMorph = (morph: FormationMorph, target: Float32Array) => {
+  if (morph.target === target) return;
+  const { from, to, progress } = morph;
+  for (let i = 0; i < from.length; i++) from[i] += (to[i] - from[i]) * progress;
+  to.set(target);
+  morph.target = target;
+  morph.progress = 0;
+  morph.dirty = true;
+};
+
+/**
+ * 粒子在两组坐标之间插值的状态：target 换成哪一组 (散开、树、文字……) 都从当前位置平滑过去。
+ * 缓冲区只在粒子数变化时重新分配，initial 是第一次出现时的位置 (散开)。
+ */
+export const useFormationMorph = (target: Float32Array, initial: Float32Array): FormationMorph => {
+  const morph = useMemo<FormationMorph>(
+    () => ({ from: initial.slice(), to: initial.slice(), progress: 1, target: initial, dirty: false }),
+    [initial.length],
+  );
+  useLayoutEffect(() => retargetMorph(morph, target), [morph, target]);
+  return morph;
+};
+
+/** 起点和终点换过之后，让几何体的 aFrom / position 重新上传一次 */
+export const flushMorph = (morph: FormationMorph, geometry: BufferGeometry | undefined) => {
+  if (!morph.dirty || !geometry) return;
+  geometry.getAttribute('position').needsUpdate = true;
+  geometry.getAttribute('aFrom').needsUpdate = true;
+  morph.dirty = false;
+};
+
+/** 不是树的造型要正对镜头：整组转回最近的整圈 */
+export const settleFacing = (angle: number, step: number) => {
+  const facing = Math.round(angle / (Math.PI * 2)) * Math.PI * 2;
+  return angle + (facing - angle) * Math.min(1, step);
+};
@@ -0,0 +1,60 @@
+// --- 错误信息翻译官 ---
+export const getFriendlyErrorMessage = (error: any): string => {
+  const msg = (error.message || error.toString()).toLowerCase();
+
+  // 1. 唯一性冲突 (ID 被占用)
+  if (msg.includes('duplicate key') || msg.includes('unique constraint') || msg.includes('id_exists')) {
+    return "哎呀，这个定制的id已经被别人抢先使用了，换一个更有创意的吧！";
+  }
+
+  // 2. 违反字符格式
+  if (msg.includes('violates check constraint') || msg.includes('validation_failed')) {
+    return "ID 格式不太对哦，只能包含字母、数字、横线(-) 或 下划线(_)";
+  }
+
+  // 3. 网络或连接问题
+  if (msg.includes('network') || msg.includes('failed to fetch') || msg.includes('connection')) {
+    return "网络信号去流浪了，请检查网络后重试";
+  }
+
+  // 4. 超时
+  if (msg.includes('timeout')) {
+    return "上传请求超时，可能是图片太大了，请重试";
+  }
+
+  // 5. RPC 自定义报错 (假设后端抛出 'Invalid Code')
+  if (msg.includes('invalid code') || msg.includes('code_error')) {
+    return "流光暗号似乎不正确，请检查是否输入有误";
+  }
+
+  // 6. 编辑链接的 owner token 不匹配
+  if (msg.includes('token_error')) {
+    return "编辑链接已失效，请使用生成礼赠时保存的专属编辑链接";
+  }
+
+  // 7. 用户主动取消上传
+  if (msg.includes('upload_cancelled')) {
+    return "上传已取消，已传完的照片下次提交会直接复用";
+  }
+
+  // 8. 口令保护的礼赠
+  if (msg.includes('wrong_passphrase')) {
+    return "口令不对哦，再想想 TA 告诉你的那句话";
+  }
+  if (msg.includes('decrypt_failed')) {
+    return "照片解密失败，请确认口令或稍后再试";
+  }
+
+  // 9. 录语音留言时麦克风不可用 (没有授权或浏览器不支持)
+  if (msg.includes('mic_unavailable')) {
+    return "无法使用麦克风，请在浏览器设置里允许录音后再试";
+  }
+
+  // 10. 如果已经是中文 (即前端自己 throw 的 Error)，直接返回
+  if (/[\u4e00-\u9fa5]/.test(error.message)) {
+    return error.message;
+  }
+
+  // 11. 兜底未知错误
+  return "生成过程中遇到了一点小插曲，请稍后再试";
+};
@@ -0,0 +1,161 @@
+// 图片归一化：在上传和本地预览之前统一处理
+// 1. HEIC/HEIF (iPhone 默认格式) 解码成 JPEG —— 大多数浏览器和 THREE.TextureLoader 都解不了 HEIC；
+// 2. 带 EXIF 方向的 JPEG 把旋转直接烘焙进像素 —— WebGL 上传纹理时会忽略 EXIF，拍立得上的照片就会横着；
+// 3. 浏览器解不了的文件明确报告给用户，而不是悄悄丢掉。
+// 视频和动图交给 videoClip 录成短片。
+
+import { MAX_CLIP_SECONDS, getMediaKind, isGifFile, prepareClip } from './videoClip';
+
+export class ImageNormalizeError extends Error {
+  constructor(public code: 'unsupported_image', message: string, public fileName: string) {
+    super(message);
+    this.name = 'ImageNormalizeError';
+  }
+}
+
+const OUTPUT_QUALITY = 0.92;
+
+/** 文件选择框的 accept：桌面端的选择框默认不显示 .heic；短视频也从同一个入口选 */
+export const PHOTO_ACCEPT = 'image/*,.heic,.heif,video/*';
+
+export const isHeicFile = (file: File) =>
+  /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/** 读取 JPEG APP1 段里的 Orientation (0x0112)，没有或读不到时返回 1 */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // 到了图像数据还没找到
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+const renameAsJpeg = (name: string) => name.replace(/\.[^.]+$/, '') + '.jpg';
+
+// 保留 lastModified，上传队列按 名字/大小/修改时间 识别同一张照片
+const toJpegFile = (blob: Blob, source: File) =>
+  new File([blob], renameAsJpeg(source.name), { type: 'image/jpeg', lastModified: source.lastModified });
+
+const decodeHeic = async (file: File): Promise<File> => {
+  // heic2any 体积较大，只在真的遇到 HEIC 时才加载
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: OUTPUT_QUALITY });
+  return toJpegFile(Array.isArray(result) ? result[0] : result, file);
+};
+
+// createImageBitmap 默认按 EXIF 方向解码 (imageOrientation: 'from-image')，画到 canvas 上再导出就是摆正后的像素
+const bakeOrientation = async (file: File): Promise<File> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', OUTPUT_QUALITY));
+  if (!blob) throw new Error('canvas export failed');
+  return toJpegFile(blob, file);
+};
+
+const assertDecodable = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  bitmap.close();
+};
+
+export const normalizeImage = async (file: File): Promise<File> => {
+  try {
+    if (isHeicFile(file)) return await decodeHeic(file);
+
+    if (file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)) {
+      const orientation = readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer());
+      if (orientation > 1) return await bakeOrientation(file);
+    }
+
+    await assertDecodable(file);
+    return file;
+  } catch (err) {
+    console.warn(`[Image] Unsupported file: ${file.name}`, err);
+    throw new ImageNormalizeError('unsupported_image', `unsupported_image: ${file.name}`, file.name);
+  }
+};
+
+export interface NormalizeMediaResult {
+  files: File[];
+  /** 无法识别的文件名 */
+  rejected: string[];
+  /** 超出短片数量上限、被跳过的文件名 */
+  skippedClips: string[];
+}
+
+const isClipCandidate = (file: File) => getMediaKind(file) === 'video' || isGifFile(file);
+
+const normalizeClip = async (file: File): Promise<File | null> => {
+  try {
+    return await prepareClip(file);
+  } catch (err) {
+    console.warn(`[Clip] Unsupported file: ${file.name}`, err);
+    throw new ImageNormalizeError('unsupported_image', `unsupported_image: ${file.name}`, file.name);
+  }
+};
+
+/**
+ * 批量归一化：能处理的照片和短片按原顺序返回，处理不了的把文件名交给调用方提示用户。
+ * 逐个处理：HEIC 解码很吃内存、短片要实时录制，手机上并行处理容易崩。
+ * 视频同时播放很耗性能，最多接收 maxClips 段短片；静态 GIF 不占名额。
+ */
+export const normalizeMediaFiles = async (files: File[], { maxClips = Infinity } = {}): Promise<NormalizeMediaResult> => {
+  const result: NormalizeMediaResult = { files: [], rejected: [], skippedClips: [] };
+  let clipCount = 0;
+  for (const file of files) {
+    try {
+      if (isClipCandidate(file)) {
+        if (clipCount >= maxClips) {
+          // 超额的 GIF 仍然可以当静态照片挂上去
+          if (isGifFile(file)) result.files.push(await normalizeImage(file));
+          else result.skippedClips.push(file.name);
+          continue;
+        }
+        const clip = await normalizeClip(file);
+        if (clip) {
+          clipCount++;
+          result.files.push(clip);
+          continue;
+        }
+      }
+      result.files.push(await normalizeImage(file));
+    } catch (err) {
+      result.rejected.push(err instanceof ImageNormalizeError ? err.fileName : file.name);
+    }
+  }
+  return result;
+};
+
+/** 没有需要提示的内容时返回 null */
+export const describeRejectedMedia = ({ rejected, skippedClips }: NormalizeMediaResult, maxClips: number) => {
+  const lines: string[] = [];
+  if (rejected.length > 0) {
+    lines.push(`以下文件无法识别，已跳过：${rejected.join('、')}。请换成 JPG / PNG 照片或 MP4 视频再试试`);
+  }
+  if (skippedClips.length > 0) {
+    lines.push(`最多只能挂 ${maxClips} 段短视频 (每段 ${MAX_CLIP_SECONDS} 秒以内)，已跳过：${skippedClips.join('、')}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : null;
+};
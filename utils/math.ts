@@ -1,12 +1,39 @@
 import * as THREE from 'three';
 
+// Any source of uniform numbers in [0, 1): Math.random or a seeded generator
+export type RandomSource = () => number;
+
+// Each scene component draws from its own stream, so adding a random call in
+// one component does not reshuffle the layout of the others
+export const LAYOUT_STREAMS = {
+  needles: 1,
+  ornaments: 2,
+  goldDust: 3,
+  spirals: 4,
+  ripples: 5,
+  fireworks: 6,
+} as const;
+
+// Seeded PRNG (mulberry32): the same seed and stream always give the same sequence,
+// so the sender's preview and the recipient's view build the same tree
+export const createSeededRandom = (seed: number, stream = 0): RandomSource => {
+  let state = (seed ^ Math.imul(stream, 0x9e3779b9)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 // Generate a random point inside a sphere of radius R
-export const randomPointInSphere = (radius: number): THREE.Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const randomPointInSphere = (radius: number, random: RandomSource = Math.random): THREE.Vector3 => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   const sinPhi = Math.sin(phi);
   return new THREE.Vector3(
     r * sinPhi * Math.cos(theta),
@@ -14,20 +41,3 @@ export const randomPointInSphere = (radius: number): THREE.Vector3 => {
     r * Math.cos(phi)
   );
 };
-
-// Generate a random point on/in a cone (Tree Shape)
-export const randomPointInCone = (height: number, baseRadius: number): THREE.Vector3 => {
-  const y = (Math.random() - 0.2) * height; // Shift slightly down
-  // Radius at this height (linear taper)
-  // Normalized height from 0 (bottom) to 1 (top) relative to cone base
-  const relY = (y + height * 0.2) / height;
-  const currentRadius = (1 - relY) * baseRadius;
-  
-  const angle = Math.random() * Math.PI * 2;
-  const r = Math.sqrt(Math.random()) * currentRadius; // Sqrt for uniform distribution
-  
-  const x = Math.cos(angle) * r;
-  const z = Math.sin(angle) * r;
-  
-  return new THREE.Vector3(x, y, z);
-};
@@ -0,0 +1,156 @@
+// 随音乐律动：MusicPlayer 把背景音乐的 <audio> 接到 AnalyserNode，
+// 场景里的组件在 useFrame 里读低 / 中 / 高频能量，驱动灯带闪烁、地面波纹、七角星和辉光。
+// 开关和灵敏度记在 localStorage。
+
+export interface MusicBands {
+  /** 0-1，已乘上灵敏度；关闭或没有音乐时为 0 */
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+export interface AudioReactiveSettings {
+  enabled: boolean;
+  sensitivity: number;
+}
+
+export const MIN_SENSITIVITY = 0.25;
+export const MAX_SENSITIVITY = 2.5;
+
+const SETTINGS_KEY = 'walabox-audio-reactive';
+const DEFAULT_SETTINGS: AudioReactiveSettings = { enabled: true, sensitivity: 1 };
+// 频段边界 (Hz)
+const BASS_RANGE = [20, 250];
+const MID_RANGE = [250, 2000];
+const TREBLE_RANGE = [2000, 8000];
+// 音乐的平均能量偏低，乘一个基础增益让灵敏度 1 时效果就明显
+const BAND_GAIN = 1.6;
+// 同一帧里多个组件读取时只采样一次
+const SAMPLE_INTERVAL_MS = 8;
+
+const readSettings = (): AudioReactiveSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_SETTINGS.enabled,
+      sensitivity: typeof stored.sensitivity === 'number'
+        ? Math.min(MAX_SENSITIVITY, Math.max(MIN_SENSITIVITY, stored.sensitivity))
+        : DEFAULT_SETTINGS.sensitivity,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = readSettings();
+const settingsListeners = new Set<(settings: AudioReactiveSettings) => void>();
+
+export const getAudioReactiveSettings = () => settings;
+
+export const setAudioReactiveSettings = (patch: Partial<AudioReactiveSettings>) => {
+  settings = { ...settings, ...patch };
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // 隐私模式：只是下次打开恢复默认
+  }
+  settingsListeners.forEach(listener => listener(settings));
+};
+
+export const subscribeAudioReactiveSettings = (listener: (settings: AudioReactiveSettings) => void) => {
+  settingsListeners.add(listener);
+  return () => { settingsListeners.delete(listener); };
+};
+
+let context: AudioContext | null = null;
+let analyser: AnalyserNode | null = null;
+let frequencyData: Uint8Array | null = null;
+const connected = new WeakSet<HTMLMediaElement>();
+// 已经在等 context 运行起来的元素
+const pending = new WeakSet<HTMLMediaElement>();
+// 接入失败的元素，界面上不再显示律动设置
+const failed = new WeakSet<HTMLMediaElement>();
+
+const getContext = () => {
+  if (!context && typeof AudioContext !== 'undefined') {
+    context = new AudioContext();
+    analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    analyser.smoothingTimeConstant = 0.8;
+    analyser.connect(context.destination);
+    frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  }
+  return context;
+};
+
+/**
+ * 把 <audio> 接进分析器。接上以后声音只从 AudioContext 输出，
+ * 所以 context 没有运行 (还没有用户手势) 时先不接，等它运行起来再接，避免音乐被静音。
+ * <audio> 以 crossOrigin="anonymous" 加载，服务端不允许 CORS 时直接加载失败，能播放的都能分析。
+ * 返回这个元素能不能分析 (浏览器不支持 Web Audio 或接入失败时为 false)。
+ */
+export const attachMusicAnalyser = (audio: HTMLMediaElement): boolean => {
+  if (connected.has(audio)) {
+    context?.resume().catch(() => {});
+    return true;
+  }
+  const ctx = getContext();
+  if (!ctx || !analyser || failed.has(audio)) return false;
+  const connect = () => {
+    if (ctx.state !== 'running') return;
+    ctx.removeEventListener('statechange', connect);
+    pending.delete(audio);
+    if (connected.has(audio)) return;
+    try {
+      ctx.createMediaElementSource(audio).connect(analyser!);
+      connected.add(audio);
+    } catch (err) {
+      failed.add(audio);
+      console.warn('[Music] Failed to attach analyser', err);
+    }
+  };
+  if (ctx.state === 'running') {
+    connect();
+    return !failed.has(audio);
+  }
+  // 反复轻触、自动播放重试时只挂一个监听，接上以后就移除
+  if (!pending.has(audio)) {
+    pending.add(audio);
+    ctx.addEventListener('statechange', connect);
+  }
+  ctx.resume().catch(() => {});
+  return true;
+};
+
+/** 浏览器不支持 Web Audio 时律动设置没有意义 */
+export const isMusicAnalyserSupported = () => typeof AudioContext !== 'undefined';
+
+const bands: MusicBands = { bass: 0, mid: 0, treble: 0 };
+let lastSampleAt = 0;
+
+const averageRange = (data: Uint8Array, [from, to]: number[], hzPerBin: number) => {
+  const start = Math.max(0, Math.floor(from / hzPerBin));
+  const end = Math.min(data.length, Math.max(start + 1, Math.ceil(to / hzPerBin)));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += data[i];
+  return sum / (end - start) / 255;
+};
+
+/** 当前各频段的能量；返回的是共享对象，每帧读取，不要保存引用 */
+export const readMusicBands = (): MusicBands => {
+  const now = performance.now();
+  if (now - lastSampleAt < SAMPLE_INTERVAL_MS) return bands;
+  lastSampleAt = now;
+
+  if (!settings.enabled || !analyser || !frequencyData || !context || context.state !== 'running') {
+    bands.bass = bands.mid = bands.treble = 0;
+    return bands;
+  }
+  analyser.getByteFrequencyData(frequencyData);
+  const hzPerBin = context.sampleRate / analyser.fftSize;
+  const gain = BAND_GAIN * settings.sensitivity;
+  bands.bass = Math.min(1, averageRange(frequencyData, BASS_RANGE, hzPerBin) * gain);
+  bands.mid = Math.min(1, averageRange(frequencyData, MID_RANGE, hzPerBin) * gain);
+  bands.treble = Math.min(1, averageRange(frequencyData, TREBLE_RANGE, hzPerBin) * gain);
+  return bands;
+};
@@ -0,0 +1,105 @@
+// 八音盒合成：把简谱一样的曲谱在 OfflineAudioContext 里渲染成 WAV，
+// 曲库里的小曲因此不用额外下载音频文件，离线也能播放。
+
+export interface Melody {
+  /** 每分钟拍数 (四分音符) */
+  bpm: number;
+  /** 旋律："音名八度/拍数"，空格分隔，"|" 只是小节线方便阅读；R 是休止 */
+  notes: string;
+  /** 低音：每小节一个根音 (同样可以写 "C3/2 G2/2" 细分) */
+  bass: string;
+}
+
+interface ScoreNote {
+  midi: number | null;
+  beats: number;
+}
+
+const SAMPLE_RATE = 22050;
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+// 八音盒的音色：基音 + 两个衰减更快的泛音
+const PARTIALS = [
+  { ratio: 1, gain: 1, decay: 1.6 },
+  { ratio: 2, gain: 0.3, decay: 0.8 },
+  { ratio: 3.01, gain: 0.08, decay: 0.4 },
+];
+
+const parseScore = (score: string): ScoreNote[] =>
+  score
+    .split(/\s+/)
+    .filter(token => token && token !== '|')
+    .map(token => {
+      const [pitch, beats] = token.split('/');
+      const match = /^([A-G])(#|b)?(\d)$/.exec(pitch);
+      const accidental = match?.[2] === '#' ? 1 : match?.[2] === 'b' ? -1 : 0;
+      return {
+        midi: match ? (Number(match[3]) + 1) * 12 + NOTE_OFFSETS[match[1]] + accidental : null,
+        beats: Number(beats) || 1,
+      };
+    });
+
+const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+const scheduleNote = (ctx: OfflineAudioContext, midi: number, start: number, volume: number, partials = PARTIALS) => {
+  partials.forEach(({ ratio, gain, decay }) => {
+    const osc = ctx.createOscillator();
+    const env = ctx.createGain();
+    osc.frequency.value = midiToFrequency(midi) * ratio;
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(volume * gain, start + 0.005);
+    env.gain.exponentialRampToValueAtTime(0.0001, start + decay);
+    osc.connect(env).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + decay + 0.05);
+  });
+};
+
+const scheduleVoice = (ctx: OfflineAudioContext, notes: ScoreNote[], beatSeconds: number, volume: number, partials?: typeof PARTIALS) => {
+  let time = 0;
+  notes.forEach(({ midi, beats }) => {
+    if (midi !== null) scheduleNote(ctx, midi, time, volume, partials);
+    time += beats * beatSeconds;
+  });
+  return time;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) =>
+    [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // 单声道
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/** 渲染一遍曲谱 (末尾留一点余音)，返回可以直接交给 <audio> 的 WAV */
+export const renderMelody = async (melody: Melody): Promise<Blob> => {
+  const beatSeconds = 60 / melody.bpm;
+  const notes = parseScore(melody.notes);
+  const bass = parseScore(melody.bass);
+  const totalBeats = notes.reduce((sum, note) => sum + note.beats, 0);
+  const duration = totalBeats * beatSeconds + 1;
+
+  const ctx = new OfflineAudioContext(1, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+  scheduleVoice(ctx, notes, beatSeconds, 0.35);
+  scheduleVoice(ctx, bass, beatSeconds, 0.18, [{ ratio: 1, gain: 1, decay: 2.2 }]);
+  const rendered = await ctx.startRendering();
+  return encodeWav(rendered.getChannelData(0), SAMPLE_RATE);
+};
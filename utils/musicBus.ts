@@ -0,0 +1,37 @@
+// 背景音乐让路：语音留言、带声音的短片播放时压低 Overlay 的背景音乐，全部结束后恢复。
+// 播放方各自持有一个「让路」，互不干扰；只要还有一个没释放，音乐就保持压低。
+
+type DuckListener = (ducked: boolean) => void;
+
+const holders = new Set<symbol>();
+const listeners = new Set<DuckListener>();
+
+const notify = () => listeners.forEach(listener => listener(holders.size > 0));
+
+/** 开始压低背景音乐，返回释放函数 (重复调用无副作用) */
+export const duckMusic = (): (() => void) => {
+  const token = Symbol('duck');
+  holders.add(token);
+  notify();
+  return () => {
+    if (holders.delete(token)) notify();
+  };
+};
+
+export const subscribeMusicDuck = (listener: DuckListener) => {
+  listeners.add(listener);
+  listener(holders.size > 0);
+  return () => { listeners.delete(listener); };
+};
+
+/** 平滑地把音量调到 target，返回取消函数 */
+export const fadeVolume = (media: HTMLMediaElement, target: number, durationMs = 400) => {
+  const from = media.volume;
+  const startedAt = performance.now();
+  let frame = requestAnimationFrame(function step(now) {
+    const t = Math.min(1, (now - startedAt) / durationMs);
+    media.volume = from + (target - from) * t;
+    if (t < 1) frame = requestAnimationFrame(step);
+  });
+  return () => cancelAnimationFrame(frame);
+};
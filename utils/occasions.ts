@@ -0,0 +1,105 @@
+// 节日预设：同一套照片粒子体验换成圣诞节以外的场合。每个预设一起决定页头和开场的文字、
+// 成形时的造型和文字、树上的装饰组合、树顶装饰、配色和环境特效。
+// 寄件人挑选的节日存在 manifest 的 scene.occasion；主题和树顶装饰只是选节日时的默认值，之后还可以单独改。
+
+import { Formation, HEART_FORMATION, TREE_FORMATION } from './formations';
+import type { SceneThemeId } from './themes';
+import type { TreeTopperId } from './toppers';
+
+export type OccasionId = 'christmas' | 'lunar-new-year' | 'birthday' | 'valentines' | 'anniversary';
+
+/**
+ * snow：飘雪
+ * petals：飘落的花瓣
+ * confetti：彩纸屑
+ * fireworks：远处的烟花
+ */
+export type AmbientEffect = 'snow' | 'petals' | 'confetti' | 'fireworks';
+
+export interface Occasion {
+  id: OccasionId;
+  label: string;
+  /** 页头的大标题 */
+  headerTitle: string;
+  /** 开场动画的标题 */
+  loaderTitle: string;
+  /** 没有收礼人名字时文字造型写的字 */
+  formationText: string;
+  /** 打开礼赠、粒子聚拢时的造型 */
+  formation: Formation;
+  /** 树上出现的装饰 (ornaments/registry 里的 id)，按注册表的权重挑选 */
+  ornaments: string[];
+  topper: TreeTopperId;
+  theme: SceneThemeId;
+  ambient: AmbientEffect;
+}
+
+export const OCCASIONS: Occasion[] = [
+  {
+    id: 'christmas',
+    label: '圣诞节',
+    headerTitle: 'Merry Christmas',
+    loaderTitle: 'Christmas Tree',
+    formationText: '圣诞快乐',
+    formation: TREE_FORMATION,
+    ornaments: ['sphere', 'box', 'gem', 'heptagram', 'candy-cane', 'bell', 'snowflake'],
+    topper: 'santa-hat',
+    theme: 'classic-emerald',
+    ambient: 'snow',
+  },
+  {
+    id: 'lunar-new-year',
+    label: '春节',
+    headerTitle: 'Happy Spring Festival',
+    loaderTitle: 'Spring Festival',
+    formationText: '新春快乐',
+    formation: TREE_FORMATION,
+    ornaments: ['sphere', 'lantern', 'gem', 'heptagram', 'bell'],
+    topper: 'lantern',
+    theme: 'red-velvet',
+    ambient: 'fireworks',
+  },
+  {
+    id: 'birthday',
+    label: '生日',
+    headerTitle: 'Happy Birthday',
+    loaderTitle: 'Birthday Wishes',
+    formationText: '生日快乐',
+    formation: TREE_FORMATION,
+    ornaments: ['sphere', 'box', 'gem', 'heptagram', 'heart'],
+    topper: 'star',
+    theme: 'midnight-blue',
+    ambient: 'confetti',
+  },
+  {
+    id: 'valentines',
+    label: '情人节',
+    headerTitle: "Happy Valentine's Day",
+    loaderTitle: 'Be My Valentine',
+    formationText: '我爱你',
+    formation: HEART_FORMATION,
+    ornaments: ['sphere', 'heart', 'gem', 'box'],
+    topper: 'heart',
+    theme: 'rose-gold',
+    ambient: 'petals',
+  },
+  {
+    id: 'anniversary',
+    label: '纪念日',
+    headerTitle: 'Happy Anniversary',
+    loaderTitle: 'Our Anniversary',
+    formationText: '周年快乐',
+    formation: TREE_FORMATION,
+    ornaments: ['sphere', 'gem', 'heart', 'bell', 'heptagram'],
+    topper: 'heptagram-crown',
+    theme: 'silver-frost',
+    ambient: 'petals',
+  },
+];
+
+export const DEFAULT_OCCASION_ID: OccasionId = 'christmas';
+
+export const isOccasionId = (value: unknown): value is OccasionId => OCCASIONS.some(occasion => occasion.id === value);
+
+export const getOccasion = (id: OccasionId): Occasion =>
+  OCCASIONS.find(occasion => occasion.id === id) ?? OCCASIONS[0];
@@ -0,0 +1,43 @@
+// 拍立得相框是 3:4。每张照片可以带一个裁剪框 (归一化到 0-1，原点在照片左上角)，
+// 没有裁剪框时默认居中裁成 3:4，与之前的效果一致。
+
+export interface PhotoCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const POLAROID_ASPECT = 3 / 4;
+export const MAX_CROP_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** 默认构图：在照片中央取最大的 3:4 区域 */
+export const getCoverCrop = (imageAspect: number): PhotoCrop => {
+  const isWide = imageAspect > POLAROID_ASPECT;
+  const width = isWide ? POLAROID_ASPECT / imageAspect : 1;
+  const height = isWide ? 1 : imageAspect / POLAROID_ASPECT;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+/** 以 (centerX, centerY) 为中心、放大 zoom 倍的 3:4 裁剪框，超出照片的部分推回边界内 */
+export const getZoomedCrop = (imageAspect: number, zoom: number, centerX: number, centerY: number): PhotoCrop => {
+  const cover = getCoverCrop(imageAspect);
+  const scale = clamp(zoom, 1, MAX_CROP_ZOOM);
+  const width = cover.width / scale;
+  const height = cover.height / scale;
+  return {
+    x: clamp(centerX - width / 2, 0, 1 - width),
+    y: clamp(centerY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+/** 反推编辑器的状态：裁剪框相对默认构图的放大倍数和中心点 */
+export const getCropView = (imageAspect: number, crop: PhotoCrop) => ({
+  zoom: clamp(getCoverCrop(imageAspect).width / crop.width, 1, MAX_CROP_ZOOM),
+  centerX: crop.x + crop.width / 2,
+  centerY: crop.y + crop.height / 2,
+});
@@ -0,0 +1,117 @@
+// 照片在树上的挂法。每种策略给出一组挂点 (照片下标 + 归一化的高度和方位角)，
+// LuxuryTree 再按树形换算成坐标。需要随机数的策略用布局种子的随机流，寄件人和收礼人看到的一样。
+
+import type { RandomSource } from './math';
+
+export type PhotoPlacementStrategy = 'spiral' | 'tiers' | 'front' | 'chronological' | 'scattered';
+
+export interface PhotoPlacement {
+  strategy: PhotoPlacementStrategy;
+  /** 每张照片挂几次 */
+  copies: number;
+}
+
+export interface PhotoSlot {
+  photoIndex: number;
+  /** 0 (树底) - 1 (树顶) */
+  height: number;
+  /** 绕树干的方位角 (弧度)，π/2 正对镜头 */
+  angle: number;
+}
+
+export const MIN_PHOTO_COPIES = 1;
+export const MAX_PHOTO_COPIES = 8;
+export const DEFAULT_PHOTO_PLACEMENT: PhotoPlacement = { strategy: 'spiral', copies: 3 };
+
+export const PHOTO_PLACEMENT_STRATEGIES: { id: PhotoPlacementStrategy; label: string; hint: string }[] = [
+  { id: 'spiral', label: '螺旋均匀', hint: '沿螺旋线均匀铺满整棵树' },
+  { id: 'tiers', label: '每层一张', hint: '从下往上每一层枝桠挂一张' },
+  { id: 'front', label: '正面优先', hint: '每张先在正面挂一次，其余挂到背面' },
+  { id: 'chronological', label: '按顺序', hint: '按照片顺序从树底挂到树顶' },
+  { id: 'scattered', label: '随机散落', hint: '位置随机，但每张都恰好挂这么多次' },
+];
+
+export const isPhotoPlacementStrategy = (value: unknown): value is PhotoPlacementStrategy =>
+  PHOTO_PLACEMENT_STRATEGIES.some(strategy => strategy.id === value);
+
+// 树尖太细挂不住相框，树底贴着地面波纹
+const MIN_HEIGHT = 0.06;
+const MAX_HEIGHT = 0.78;
+const FRONT_ANGLE = Math.PI / 2;
+// 正面优先时第一轮照片铺在正面这么宽的扇区里
+const FRONT_ARC = Math.PI * 0.6;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const TAU = Math.PI * 2;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// 圆锥的侧面积越往上越小：按面积均匀取高度 (t 取 0-1)，挂点才不会全挤在树尖
+const heightByArea = (t: number, from = MIN_HEIGHT, to = MAX_HEIGHT) => {
+  const below = (1 - from) ** 2;
+  const above = (1 - to) ** 2;
+  return 1 - Math.sqrt(below - t * (below - above));
+};
+
+// 沿黄金角螺旋取 count 个挂点，在 [angleFrom, angleFrom + arc) 扇区里
+const spiralSlots = (count: number, angleFrom: number, arc: number) =>
+  Array.from({ length: count }, (_, k) => ({
+    height: heightByArea((k + 0.5) / count),
+    angle: angleFrom + ((k * GOLDEN_ANGLE) % TAU) / TAU * arc,
+  }));
+
+/**
+ * 按策略给出所有挂点。同一张照片的多次出现都隔开排，不会挨在一起。
+ * tiers 是树的层数，random 只在随机散落时用到。
+ */
+export const placePhotos = (
+  photoCount: number,
+  placement: PhotoPlacement,
+  { tiers, random }: { tiers: number; random: RandomSource },
+): PhotoSlot[] => {
+  if (photoCount <= 0) return [];
+  const copies = Math.min(MAX_PHOTO_COPIES, Math.max(MIN_PHOTO_COPIES, Math.round(placement.copies)));
+  const total = photoCount * copies;
+
+  switch (placement.strategy) {
+    case 'tiers': {
+      // 第 k 个挂点在第 k % tiers 层；照片比层数多时同一层再绕一圈
+      const perTier = Math.ceil(total / tiers);
+      return Array.from({ length: total }, (_, k) => {
+        const tier = k % tiers;
+        const round = Math.floor(k / tiers);
+        return {
+          photoIndex: k % photoCount,
+          height: lerp(MIN_HEIGHT, MAX_HEIGHT, (tier + 0.5) / tiers),
+          angle: FRONT_ANGLE + tier * GOLDEN_ANGLE + round * (TAU / perTier),
+        };
+      });
+    }
+    case 'front': {
+      const front = spiralSlots(photoCount, FRONT_ANGLE - FRONT_ARC / 2, FRONT_ARC)
+        .map((slot, i) => ({ ...slot, photoIndex: i }));
+      const back = spiralSlots(total - photoCount, FRONT_ANGLE + FRONT_ARC / 2, TAU - FRONT_ARC)
+        .map((slot, k) => ({ ...slot, photoIndex: k % photoCount }));
+      return [...front, ...back];
+    }
+    case 'chronological':
+      // 第 i 张照片占一段高度，几次出现在这一段里绕树均分
+      return Array.from({ length: total }, (_, k) => {
+        const photoIndex = Math.floor(k / copies);
+        const copy = k % copies;
+        return {
+          photoIndex,
+          height: lerp(MIN_HEIGHT, MAX_HEIGHT, (photoIndex + 0.5) / photoCount),
+          angle: FRONT_ANGLE + photoIndex * GOLDEN_ANGLE * 0.5 + copy * (TAU / copies),
+        };
+      });
+    case 'scattered':
+      return Array.from({ length: total }, (_, k) => ({
+        photoIndex: k % photoCount,
+        height: heightByArea(random()),
+        angle: random() * TAU,
+      }));
+    case 'spiral':
+    default:
+      return spiralSlots(total, FRONT_ANGLE, TAU).map((slot, k) => ({ ...slot, photoIndex: k % photoCount }));
+  }
+};
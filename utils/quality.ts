@@ -0,0 +1,119 @@
+// 画质档位：PerformanceMonitor 按实测帧率自动升降档，也可以在界面上手动固定某一档。
+// 每一档决定粒子绘制比例、dpr、MSAA、辉光开关和装饰球的几何细分；手动选择和上次自动停留的档位记在 localStorage。
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { BufferGeometry } from 'three';
+
+export type QualityTierId = 'low' | 'medium' | 'high';
+export type QualityMode = 'auto' | QualityTierId;
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  /** 大粒子系统 (针叶、地面波纹、雪) 实际绘制的比例 */
+  particleFraction: number;
+  dpr: [number, number];
+  multisampling: number;
+  bloom: boolean;
+  /** 装饰球的经纬细分数 */
+  ornamentSegments: number;
+}
+
+export const QUALITY_TIERS: Record<QualityTierId, QualityTier> = {
+  high: { id: 'high', label: '高', particleFraction: 1, dpr: [1, 1.5], multisampling: 4, bloom: true, ornamentSegments: 64 },
+  medium: { id: 'medium', label: '中', particleFraction: 0.6, dpr: [1, 1.25], multisampling: 2, bloom: true, ornamentSegments: 32 },
+  low: { id: 'low', label: '低', particleFraction: 0.3, dpr: [1, 1], multisampling: 0, bloom: false, ornamentSegments: 16 },
+};
+
+export const QUALITY_MODES: { mode: QualityMode; label: string }[] = [
+  { mode: 'auto', label: '自动' },
+  { mode: 'high', label: QUALITY_TIERS.high.label },
+  { mode: 'medium', label: QUALITY_TIERS.medium.label },
+  { mode: 'low', label: QUALITY_TIERS.low.label },
+];
+
+/** PerformanceMonitor 的升降档阈值 (fps)：低于下限降档，高于上限升档 */
+export const getQualityFpsBounds = (refreshRate: number): [number, number] =>
+  [Math.min(40, refreshRate * 0.6), Math.min(55, refreshRate * 0.9)];
+
+const TIER_ORDER: QualityTierId[] = ['low', 'medium', 'high'];
+const STORAGE_KEY = 'walabox-quality';
+
+interface StoredQuality {
+  mode: QualityMode;
+  autoTier: QualityTierId;
+}
+
+const isTierId = (value: unknown): value is QualityTierId => TIER_ORDER.includes(value as QualityTierId);
+
+// 第一次打开：手机从中档起步，免得一上来就卡
+const guessInitialTier = (): QualityTierId =>
+  typeof matchMedia !== 'undefined' && matchMedia('(pointer: coarse)').matches ? 'medium' : 'high';
+
+const readStored = (): StoredQuality => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      mode: stored.mode === 'auto' || isTierId(stored.mode) ? stored.mode : 'auto',
+      autoTier: isTierId(stored.autoTier) ? stored.autoTier : guessInitialTier(),
+    };
+  } catch {
+    return { mode: 'auto', autoTier: guessInitialTier() };
+  }
+};
+
+let state = readStored();
+// 最近一次自动调整的方向，来回切换时停在较低的那一档
+let lastStep: -1 | 1 | 0 = 0;
+const listeners = new Set<() => void>();
+
+const update = (next: StoredQuality) => {
+  state = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // 隐私模式：下次打开重新测
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getQualityMode = () => state.mode;
+
+export const getActiveQuality = (): QualityTier => QUALITY_TIERS[state.mode === 'auto' ? state.autoTier : state.mode];
+
+export const setQualityMode = (mode: QualityMode) => update({ ...state, mode });
+
+/** 自动模式下升 (1) 或降 (-1) 一档；手动固定档位时不动 */
+export const stepAutoQuality = (direction: -1 | 1) => {
+  if (state.mode !== 'auto') return;
+  const index = TIER_ORDER.indexOf(state.autoTier) + direction;
+  if (index < 0 || index >= TIER_ORDER.length) return;
+  lastStep = direction;
+  update({ ...state, autoTier: TIER_ORDER[index] });
+};
+
+/** 帧率在两档之间来回摆动：停在较低的一档，不再继续调整 */
+export const settleAutoQuality = () => {
+  if (lastStep === 1) stepAutoQuality(-1);
+  lastStep = 0;
+};
+
+export const subscribeQuality = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useQuality = () => useSyncExternalStore(subscribeQuality, getActiveQuality);
+
+export const useQualityMode = () => useSyncExternalStore(subscribeQuality, getQualityMode);
+
+/**
+ * 粒子是随机撒的，只画前 fraction 的点就是均匀的子集，不用重建缓冲区。
+ * 返回挂在 <bufferGeometry> 上的 ref：几何体重建 (比如换了布局) 时也会重新设置绘制范围。
+ */
+export const useDrawFraction = (count: number, fraction: number) => {
+  const drawCount = Math.ceil(count * fraction);
+  return useCallback((geometry: BufferGeometry | null) => {
+    geometry?.setDrawRange(0, drawCount);
+  }, [drawCount]);
+};
@@ -0,0 +1,154 @@
+// 场景主题：针叶、装饰、相框、灯带、金粉、漂浮光点、雪、地面波纹和灯光的颜色，以及装饰材质的粗糙度和辉光都从这里取。
+// 寄件人挑选的主题存在 manifest 的 scene.theme。切换主题时各组件的颜色和材质参数每帧向新主题渐变，
+// 它们都在 uniform、实例颜色和材质上，不重建任何缓冲区。
+
+import { useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+export type SceneThemeId = 'classic-emerald' | 'silver-frost' | 'rose-gold' | 'midnight-blue' | 'red-velvet';
+
+/** 装饰的配色角色：注册表里每种装饰只说用哪个角色，具体颜色由主题决定 */
+export type OrnamentColorRole = 'metal' | 'primary' | 'deep' | 'light' | 'frost' | 'silver' | 'blush' | 'glow';
+
+interface ThemePalette<C> {
+  /** 针叶的三种深浅 */
+  needles: [C, C, C];
+  ornaments: Record<OrnamentColorRole, C>;
+  /** 金色灯带 */
+  spirals: C;
+  dust: C;
+  /** 远处漂浮的光点 */
+  motes: C;
+  snow: C;
+  ripplesDeep: C;
+  ripplesHigh: C;
+  spotLight: C;
+  skyLight: C;
+  groundLight: C;
+}
+
+/** 材质参数：乘在各材质自己的基础值上，1 表示不变 */
+export interface ThemeMaterials {
+  /** 装饰和相框的粗糙度：小于 1 更亮更像镜面，大于 1 更像缎面 */
+  roughnessScale: number;
+  /** 自发光的强度 */
+  glowScale: number;
+}
+
+export interface SceneTheme extends ThemePalette<string> {
+  id: SceneThemeId;
+  label: string;
+  materials: ThemeMaterials;
+}
+
+/** 正在显示的颜色和材质参数，各组件直接把这些对象当 uniform 的值用 */
+export type ThemeColors = ThemePalette<THREE.Color> & { materials: ThemeMaterials };
+
+export const SCENE_THEMES: SceneTheme[] = [
+  {
+    id: 'classic-emerald',
+    label: '经典翡翠',
+    needles: ['#4ade80', '#22c55e', '#15803d'],
+    ornaments: { metal: '#FFD700', primary: '#D40000', deep: '#8B0000', light: '#FFFFFF', frost: '#E0FFFF', silver: '#E5E4E2', blush: '#B76E79', glow: '#FF6600' },
+    spirals: '#FFD700', dust: '#FFD700', motes: '#FFD700', snow: '#FFFFFF',
+    ripplesDeep: '#444444', ripplesHigh: '#CCCCCC',
+    spotLight: '#fff5d7', skyLight: '#ffffff', groundLight: '#222222',
+    materials: { roughnessScale: 1, glowScale: 1 },
+  },
+  {
+    id: 'silver-frost',
+    label: '银白霜雪',
+    needles: ['#e2f3f8', '#a9cfdc', '#6f9fb3'],
+    ornaments: { metal: '#E5E4E2', primary: '#9CC9E3', deep: '#3E6A8A', light: '#FFFFFF', frost: '#E0FFFF', silver: '#C0C0C0', blush: '#B9C7E4', glow: '#7FD4FF' },
+    spirals: '#F4F8FF', dust: '#DDEBFF', motes: '#E6F2FF', snow: '#FFFFFF',
+    ripplesDeep: '#3A4652', ripplesHigh: '#D8E6F0',
+    spotLight: '#e8f1ff', skyLight: '#eef6ff', groundLight: '#1c2430',
+    materials: { roughnessScale: 0.6, glowScale: 0.8 },
+  },
+  {
+    id: 'rose-gold',
+    label: '玫瑰金',
+    needles: ['#f4b6c2', '#e38b9c', '#b76e79'],
+    ornaments: { metal: '#F2C49B', primary: '#E8A0A8', deep: '#8E4A5A', light: '#FFF5F0', frost: '#FFE4E1', silver: '#EED9C4', blush: '#B76E79', glow: '#FF8A65' },
+    spirals: '#F7C6A3', dust: '#F2C49B', motes: '#F7D1B5', snow: '#FFF0F3',
+    ripplesDeep: '#4A3438', ripplesHigh: '#E8C4C4',
+    spotLight: '#ffe6dc', skyLight: '#fff0f0', groundLight: '#2a1c1f',
+    materials: { roughnessScale: 1.5, glowScale: 0.9 },
+  },
+  {
+    id: 'midnight-blue',
+    label: '午夜蓝',
+    needles: ['#3b82f6', '#1d4ed8', '#1e3a8a'],
+    ornaments: { metal: '#FFD700', primary: '#1E40AF', deep: '#0B1E5B', light: '#E0E7FF', frost: '#A5B4FC', silver: '#C7D2FE', blush: '#818CF8', glow: '#60A5FA' },
+    spirals: '#FFE08A', dust: '#C7D2FE', motes: '#FFE08A', snow: '#DCE6FF',
+    ripplesDeep: '#1E2A44', ripplesHigh: '#8FA8D8',
+    spotLight: '#c8d4ff', skyLight: '#b8c8ff', groundLight: '#0a0f24',
+    materials: { roughnessScale: 0.8, glowScale: 1.3 },
+  },
+  {
+    id: 'red-velvet',
+    label: '红丝绒',
+    needles: ['#ef4444', '#b91c1c', '#7f1d1d'],
+    ornaments: { metal: '#FFD700', primary: '#F5F5F5', deep: '#4A0404', light: '#FFFFFF', frost: '#FFE4E1', silver: '#E5E4E2', blush: '#F4A6A6', glow: '#FF4500' },
+    spirals: '#FFD700', dust: '#FFD700', motes: '#FFC0A0', snow: '#FFFFFF',
+    ripplesDeep: '#3A1A1A', ripplesHigh: '#D8A0A0',
+    spotLight: '#ffe0d0', skyLight: '#fff0e8', groundLight: '#2a0a0a',
+    materials: { roughnessScale: 1.2, glowScale: 1.1 },
+  },
+];
+
+export const DEFAULT_SCENE_THEME_ID: SceneThemeId = 'classic-emerald';
+
+export const isSceneThemeId = (value: unknown): value is SceneThemeId => SCENE_THEMES.some(theme => theme.id === value);
+
+export const getSceneTheme = (id: SceneThemeId): SceneTheme =>
+  SCENE_THEMES.find(theme => theme.id === id) ?? SCENE_THEMES[0];
+
+// 切换主题时颜色渐变的速度 (每秒)
+const THEME_FADE_SPEED = 1.5;
+
+const ROLES = Object.keys(SCENE_THEMES[0].ornaments) as OrnamentColorRole[];
+
+const toThemeColors = (theme: SceneTheme): ThemeColors => ({
+  needles: [new THREE.Color(theme.needles[0]), new THREE.Color(theme.needles[1]), new THREE.Color(theme.needles[2])],
+  ornaments: Object.fromEntries(ROLES.map(role => [role, new THREE.Color(theme.ornaments[role])])) as Record<OrnamentColorRole, THREE.Color>,
+  spirals: new THREE.Color(theme.spirals),
+  dust: new THREE.Color(theme.dust),
+  motes: new THREE.Color(theme.motes),
+  snow: new THREE.Color(theme.snow),
+  ripplesDeep: new THREE.Color(theme.ripplesDeep),
+  ripplesHigh: new THREE.Color(theme.ripplesHigh),
+  spotLight: new THREE.Color(theme.spotLight),
+  skyLight: new THREE.Color(theme.skyLight),
+  groundLight: new THREE.Color(theme.groundLight),
+  materials: { ...theme.materials },
+});
+
+/**
+ * 当前显示的主题颜色和材质参数。第一次出现时直接用 themeId 的颜色，之后换主题时每帧向新主题渐变；
+ * 返回的 Color 对象一直是同一批，可以直接挂在 uniform 上。
+ */
+export const useThemeColors = (themeId: SceneThemeId): ThemeColors => {
+  const colors = useMemo(() => toThemeColors(getSceneTheme(themeId)), []);
+  const target = useMemo(() => toThemeColors(getSceneTheme(themeId)), [themeId]);
+
+  useFrame((_, delta) => {
+    const step = Math.min(1, delta * THEME_FADE_SPEED);
+    colors.needles.forEach((color, i) => color.lerp(target.needles[i], step));
+    ROLES.forEach(role => colors.ornaments[role].lerp(target.ornaments[role], step));
+    colors.spirals.lerp(target.spirals, step);
+    colors.dust.lerp(target.dust, step);
+    colors.motes.lerp(target.motes, step);
+    colors.snow.lerp(target.snow, step);
+    colors.ripplesDeep.lerp(target.ripplesDeep, step);
+    colors.ripplesHigh.lerp(target.ripplesHigh, step);
+    colors.spotLight.lerp(target.spotLight, step);
+    colors.skyLight.lerp(target.skyLight, step);
+    colors.groundLight.lerp(target.groundLight, step);
+    colors.materials.roughnessScale += (target.materials.roughnessScale - colors.materials.roughnessScale) * step;
+    colors.materials.glowScale += (target.materials.glowScale - colors.materials.glowScale) * step;
+  });
+
+  return colors;
+};
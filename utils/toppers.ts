@@ -0,0 +1,18 @@
+// 树顶装饰。寄件人挑选的树顶装饰存在 manifest 的 scene.topper；
+// 各自的模型、材质和待机动画在 components/toppers 里，位置和缩放按树的轮廓由 getTopperPlacement 给出。
+
+export type TreeTopperId = 'santa-hat' | 'star' | 'angel' | 'bow' | 'heptagram-crown' | 'lantern' | 'heart';
+
+export const TREE_TOPPERS: { id: TreeTopperId; label: string }[] = [
+  { id: 'santa-hat', label: '圣诞帽' },
+  { id: 'star', label: '发光星星' },
+  { id: 'angel', label: '天使' },
+  { id: 'bow', label: '蝴蝶结' },
+  { id: 'heptagram-crown', label: '七角星王冠' },
+  { id: 'lantern', label: '大红灯笼' },
+  { id: 'heart', label: '爱心' },
+];
+
+export const DEFAULT_TREE_TOPPER_ID: TreeTopperId = 'santa-hat';
+
+export const isTreeTopperId = (value: unknown): value is TreeTopperId => TREE_TOPPERS.some(topper => topper.id === value);
@@ -0,0 +1,83 @@
+// 树的轮廓。针叶、装饰、照片、金色灯带、金粉和树顶装饰都从同一份参数化描述里取形状，
+// 换一种轮廓时它们一起跟着变。寄件人挑选的轮廓存在 manifest 的 scene.treeShape。
+
+import * as THREE from 'three';
+import type { RandomSource } from './math';
+
+export type TreeShapeId = 'classic-pine' | 'slim-fir' | 'round-spruce' | 'spiral' | 'cone' | 'tabletop';
+
+export interface TreeShape {
+  id: TreeShapeId;
+  label: string;
+  height: number;
+  /** 树底的半径 */
+  radius: number;
+  /** 枝桠层数；轮廓光滑的树也用它决定“每层一张”的层数 */
+  tiers: number;
+  /** 每层底部向外张开的比例，0 是光滑轮廓 */
+  tierFlare: number;
+  /** 轮廓收窄的指数：1 是直线圆锥，小于 1 更饱满，大于 1 更修长 */
+  taper: number;
+  /** 螺旋树：针叶只长在绕树几圈的一条螺旋带上；0 是普通的树 */
+  spiralTurns: number;
+}
+
+// 所有轮廓的树底都落在同一个高度，和地面波纹、镜头保持原来的关系
+const TREE_BOTTOM_Y = -3.8;
+// 螺旋带的宽度 (弧度)
+const SPIRAL_BAND = 1.1;
+
+export const TREE_SHAPES: TreeShape[] = [
+  { id: 'classic-pine', label: '经典松树', height: 19, radius: 9, tiers: 9, tierFlare: 0.3, taper: 1, spiralTurns: 0 },
+  { id: 'slim-fir', label: '修长冷杉', height: 21, radius: 6, tiers: 11, tierFlare: 0.25, taper: 1.15, spiralTurns: 0 },
+  { id: 'round-spruce', label: '圆润云杉', height: 17, radius: 10, tiers: 7, tierFlare: 0.2, taper: 0.7, spiralTurns: 0 },
+  { id: 'spiral', label: '螺旋树', height: 19, radius: 8.5, tiers: 9, tierFlare: 0, taper: 1, spiralTurns: 4.5 },
+  { id: 'cone', label: '极简圆锥', height: 19, radius: 8, tiers: 7, tierFlare: 0, taper: 1, spiralTurns: 0 },
+  { id: 'tabletop', label: '桌面小树', height: 10, radius: 5, tiers: 5, tierFlare: 0.3, taper: 1, spiralTurns: 0 },
+];
+
+export const DEFAULT_TREE_SHAPE_ID: TreeShapeId = 'classic-pine';
+
+export const isTreeShapeId = (value: unknown): value is TreeShapeId => TREE_SHAPES.some(shape => shape.id === value);
+
+export const getTreeShape = (id: TreeShapeId): TreeShape =>
+  TREE_SHAPES.find(shape => shape.id === id) ?? TREE_SHAPES[0];
+
+/** 高度 h (0 树底 - 1 树尖) 对应的 y 坐标 */
+export const treeYAt = (shape: TreeShape, h: number) => TREE_BOTTOM_Y + h * shape.height;
+
+export const treeTopY = (shape: TreeShape) => treeYAt(shape, 1);
+
+/** 不含枝桠起伏的外轮廓半径，灯带和金粉沿着它绕 */
+export const treeEnvelopeAt = (shape: TreeShape, h: number) => shape.radius * Math.pow(Math.max(0, 1 - h), shape.taper);
+
+/** 含枝桠起伏的外沿半径：每一层底部向外张开，往上收回 */
+export const treeRadiusAt = (shape: TreeShape, h: number) => {
+  const tierProgress = (h * shape.tiers) % 1;
+  return treeEnvelopeAt(shape, h) * (1 - shape.tierFlare + shape.tierFlare * (1 - tierProgress));
+};
+
+/** 螺旋树的螺旋带在高度 h 处的中心方位角 */
+export const spiralAngleAt = (shape: TreeShape, h: number) => h * shape.spiralTurns * Math.PI * 2;
+
+/** 外沿上的一点：radiusScale 小于 1 时往树里收一点 (照片挂在枝头) */
+export const pointOnTree = (shape: TreeShape, h: number, angle: number, radiusScale = 1) => {
+  const r = treeRadiusAt(shape, h) * radiusScale;
+  return new THREE.Vector3(Math.cos(angle) * r, treeYAt(shape, h), Math.sin(angle) * r);
+};
+
+/** 树冠里均匀分布的一点；螺旋树只落在螺旋带上 */
+export const randomPointInTree = (shape: TreeShape, random: RandomSource, radiusScale = 1) => {
+  const h = random();
+  const r = Math.sqrt(random()) * treeRadiusAt(shape, h) * radiusScale;
+  const angle = shape.spiralTurns > 0
+    ? spiralAngleAt(shape, h) + (random() - 0.5) * SPIRAL_BAND
+    : random() * Math.PI * 2;
+  return new THREE.Vector3(Math.cos(angle) * r, treeYAt(shape, h), Math.sin(angle) * r);
+};
+
+/** 树顶装饰的位置和缩放：按经典松树的大小等比缩放 */
+export const getTopperPlacement = (shape: TreeShape) => {
+  const scale = shape.height / TREE_SHAPES[0].height;
+  return { y: treeTopY(shape) + 0.4 * scale, scale };
+};
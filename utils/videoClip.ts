@@ -0,0 +1,185 @@
+// 短视频 / 动图挂件：上传和本地预览之前统一录成一段有上限的短片。
+// - 视频：只取开头 MAX_CLIP_SECONDS 秒，缩到 MAX_CLIP_DIMENSION 以内，用 MediaRecorder 重新编码 (保留声音)；
+//   本来就足够短、足够小的 mp4 / webm 原样使用。
+// - GIF：WebGL 只能拿到第一帧，用 ImageDecoder 逐帧解码后录成一遍循环的短片；
+//   是静态 GIF 或浏览器不支持时返回 null，调用方按普通照片处理。
+
+export type MediaKind = 'image' | 'video';
+
+export const MAX_CLIP_SECONDS = 6;
+export const MAX_CLIP_BYTES = 8 * 1024 * 1024;
+const MAX_CLIP_DIMENSION = 720;
+const VIDEO_BITS_PER_SECOND = 1_500_000;
+const AUDIO_BITS_PER_SECOND = 96_000;
+
+// Safari 只能录 mp4；Chrome 新版本也支持 mp4，兼容性最好，所以排在前面
+const RECORDER_MIME_TYPES = ['video/mp4;codecs=avc1,mp4a', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm'];
+const PASSTHROUGH_TYPES = ['video/mp4', 'video/webm'];
+
+export const getMediaKind = (file: Blob): MediaKind => (file.type.startsWith('video/') ? 'video' : 'image');
+
+export const isGifFile = (file: File) => file.type === 'image/gif' || /\.gif$/i.test(file.name);
+
+const pickRecorderMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+
+const fitWithin = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_CLIP_DIMENSION / Math.max(width, height));
+  // 编码器要求偶数尺寸
+  return { width: Math.round((width * scale) / 2) * 2 || 2, height: Math.round((height * scale) / 2) * 2 || 2 };
+};
+
+const renameAs = (name: string, mimeType: string) =>
+  name.replace(/\.[^.]+$/, '') + (mimeType.startsWith('video/mp4') ? '.mp4' : '.webm');
+
+// 保留 lastModified，上传队列按 名字/大小/修改时间 识别同一个文件
+const toClipFile = (blob: Blob, source: File) => {
+  const type = blob.type.split(';')[0];
+  return new File([blob], renameAs(source.name, type), { type, lastModified: source.lastModified });
+};
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * 把 canvas 的画面 (加上可选的音轨) 实时录下来：draw 负责在 canvas 上逐帧作画，结束时 resolve。
+ */
+const recordCanvas = async (
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  draw: () => Promise<void>,
+  audioTracks: MediaStreamTrack[] = [],
+): Promise<Blob> => {
+  const stream = canvas.captureStream(30);
+  audioTracks.forEach(track => stream.addTrack(track));
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+    audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start(250);
+  try {
+    await draw();
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+  }
+  return new Blob(chunks, { type: mimeType });
+};
+
+const loadVideo = (url: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('video decode failed'));
+    video.src = url;
+  });
+
+const transcodeVideo = async (video: HTMLVideoElement, mimeType: string): Promise<Blob> => {
+  const { width, height } = fitWithin(video.videoWidth, video.videoHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  // 声音经由 Web Audio 接到录制流，不接扬声器，处理过程中用户听不到
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  audioContext.createMediaElementSource(video).connect(destination);
+
+  try {
+    return await recordCanvas(canvas, mimeType, async () => {
+      await audioContext.resume().catch(() => {});
+      await video.play().catch(() => {
+        // 没有用户手势时不允许带声音播放，退而求其次录一段无声的
+        video.muted = true;
+        return video.play();
+      });
+      let frame = 0;
+      const paint = () => {
+        ctx.drawImage(video, 0, 0, width, height);
+        frame = requestAnimationFrame(paint);
+      };
+      paint();
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, MAX_CLIP_SECONDS * 1000);
+        video.onended = () => { clearTimeout(timer); resolve(); };
+      });
+      cancelAnimationFrame(frame);
+      video.pause();
+    }, destination.stream.getAudioTracks());
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+};
+
+const prepareVideoClip = async (file: File): Promise<File> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    const fitsAsIs = file.size <= MAX_CLIP_BYTES
+      && video.duration <= MAX_CLIP_SECONDS + 0.5
+      && PASSTHROUGH_TYPES.includes(file.type);
+    if (fitsAsIs) return file;
+
+    const mimeType = pickRecorderMimeType();
+    if (!mimeType) throw new Error('MediaRecorder is not available');
+    const clip = await transcodeVideo(video, mimeType);
+    if (clip.size > MAX_CLIP_BYTES) throw new Error(`clip is still too large (${clip.size} bytes)`);
+    return toClipFile(clip, file);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const prepareGifClip = async (file: File): Promise<File | null> => {
+  const mimeType = pickRecorderMimeType();
+  if (!mimeType || typeof ImageDecoder === 'undefined') return null;
+
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: 'image/gif' });
+  try {
+    await decoder.tracks.ready;
+    await decoder.completed;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+    if (frameCount <= 1) return null;
+
+    const first = await decoder.decode({ frameIndex: 0 });
+    const { width, height } = fitWithin(first.image.displayWidth, first.image.displayHeight);
+    first.image.close();
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    // 录一遍完整的循环 (最多 MAX_CLIP_SECONDS 秒)，树上的视频本身会循环播放
+    const clip = await recordCanvas(canvas, mimeType, async () => {
+      let elapsedMs = 0;
+      for (let frameIndex = 0; frameIndex < frameCount && elapsedMs < MAX_CLIP_SECONDS * 1000; frameIndex++) {
+        const { image } = await decoder.decode({ frameIndex });
+        // duration 的单位是微秒；很多 GIF 把帧间隔写成 0 或 10ms，浏览器都按 100ms 播放
+        const delayMs = (image.duration ?? 0) / 1000;
+        const durationMs = delayMs > 10 ? delayMs : 100;
+        ctx.drawImage(image, 0, 0, width, height);
+        image.close();
+        await wait(durationMs);
+        elapsedMs += durationMs;
+      }
+    });
+    return toClipFile(clip, file);
+  } finally {
+    decoder.close();
+  }
+};
+
+/**
+ * 把视频或动图录成短片；返回 null 表示这是一张静态 GIF (或浏览器录不了)，按照片处理即可。
+ * 失败时抛出，由调用方提示用户。
+ */
+export const prepareClip = async (file: File): Promise<File | null> =>
+  isGifFile(file) ? prepareGifClip(file) : prepareVideoClip(file);
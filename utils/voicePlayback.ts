@@ -0,0 +1,50 @@
+import { fetchDecryptedMediaUrl } from './crypto';
+import { duckMusic } from './musicBus';
+
+// 播放语音留言：口令保护的礼赠先在本地解密，播放期间背景音乐让路
+
+export interface VoicePlayback {
+  stop: () => void;
+  /** 播完、出错或被 stop 时 resolve */
+  finished: Promise<void>;
+}
+
+export const playVoiceNote = (url: string, key?: CryptoKey | null): VoicePlayback => {
+  let audio: HTMLAudioElement | null = null;
+  let decryptedUrl: string | null = null;
+  let stopped = false;
+  let releaseDuck = () => {};
+  let resolveFinished = () => {};
+  const finished = new Promise<void>(resolve => { resolveFinished = resolve; });
+
+  const cleanup = () => {
+    releaseDuck();
+    if (decryptedUrl) URL.revokeObjectURL(decryptedUrl);
+    decryptedUrl = null;
+    resolveFinished();
+  };
+
+  (async () => {
+    try {
+      const src = key ? (decryptedUrl = await fetchDecryptedMediaUrl(url, key, 'audio')) : url;
+      if (stopped) return cleanup();
+      audio = new Audio(src);
+      audio.onended = cleanup;
+      audio.onerror = cleanup;
+      releaseDuck = duckMusic();
+      await audio.play();
+    } catch (err) {
+      console.warn(`[Voice] Failed to play: ${url}`, err);
+      cleanup();
+    }
+  })();
+
+  return {
+    stop: () => {
+      stopped = true;
+      audio?.pause();
+      cleanup();
+    },
+    finished,
+  };
+};
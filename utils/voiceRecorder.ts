@@ -0,0 +1,67 @@
+// 语音留言录制：寄件人在生成器里对着麦克风说几句话，录成一个音频文件随照片一起上传。
+
+export class VoiceRecorderError extends Error {
+  constructor(public code: 'mic_unavailable', message: string) {
+    super(message);
+    this.name = 'VoiceRecorderError';
+  }
+}
+
+// Safari 只能录 mp4 (AAC)，其余浏览器录 webm / ogg (Opus)
+const AUDIO_MIME_TYPES = ['audio/mp4', 'audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus'];
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/webm': 'weba',
+  'audio/ogg': 'ogg',
+};
+const AUDIO_BITS_PER_SECOND = 64_000;
+
+export interface VoiceRecording {
+  /** 结束录音，交出音频文件和时长 (秒) */
+  stop: () => Promise<{ file: File; duration: number }>;
+  /** 放弃这段录音并释放麦克风 */
+  cancel: () => void;
+}
+
+const pickMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : AUDIO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const startVoiceRecording = async (): Promise<VoiceRecording> => {
+  const mimeType = pickMimeType();
+  if (!mimeType || !navigator.mediaDevices?.getUserMedia) {
+    throw new VoiceRecorderError('mic_unavailable', 'mic_unavailable: audio recording is not supported');
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+  } catch (err) {
+    throw new VoiceRecorderError('mic_unavailable', `mic_unavailable: ${(err as Error).message}`);
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const releaseMic = () => stream.getTracks().forEach(track => track.stop());
+
+  const startedAt = Date.now();
+  recorder.start(250);
+
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        releaseMic();
+        const type = mimeType.split(';')[0];
+        // lastModified 用开始录音的时间，上传队列靠它区分不同的录音
+        const file = new File(chunks, `voice-${startedAt}.${EXTENSION_BY_TYPE[type]}`, { type, lastModified: startedAt });
+        resolve({ file, duration: (Date.now() - startedAt) / 1000 });
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      releaseMic();
+    },
+  };
+};
@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_OSS_SIGN_ENDPOINT?: string;
+  readonly VITE_GIFT_BACKEND?: 'supabase' | 'local';
+  readonly VITE_LOCAL_GIFT_CODES?: string;
+}
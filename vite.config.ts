@@ -2,6 +2,7 @@ import path from "path";
 import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import { VitePWA } from "vite-plugin-pwa";
+import { localOssPlugin } from "./api/_lib/localOss";
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
@@ -14,6 +15,8 @@ export default defineConfig(({ mode }) => {
 
     plugins: [
       react(),
+      // 本地开发默认把上传写到 .local-oss/；设置 OSS_MODE=remote 则交给 vercel dev 的 /api/sign-oss
+      env.OSS_MODE !== "remote" && localOssPlugin(),
       VitePWA({
         // 自动注入 SW 注册代码（无需你在 index.tsx/main.tsx 手写 register）
         injectRegister: "auto",
@@ -42,6 +45,9 @@ export default defineConfig(({ mode }) => {
         workbox: {
           // SPA 关键：离线/导航失败时回退到应用壳
           navigateFallback: "/index.html",
+
+          // 默认曲目和打包的环境贴图随站点一起预缓存，离线打开时背景音乐和反射也正常
+          globPatterns: ["**/*.{js,wasm,css,html}", "audio/*.mp3", "hdr/*.hdr"],
 		  
 		  maximumFileSizeToCacheInBytes: 15 * 1024 * 1024,
 